@@ -1,28 +1,22 @@
 import { test, expect } from '@playwright/test';
+import { USE_MOCK_SCOUT, MOCK_SCOUT_API_KEY } from './mock-scout/config';
 
 /**
  * E2E Tests for CRM Application
  *
- * These tests run against the actual Scout API endpoint.
- * They verify the main user flows work correctly with real data.
+ * By default these tests run against the local mock Scout server
+ * (e2e/mock-scout), which is deterministic and answers instantly.
+ * Set TEST_API_KEY to run them against the actual Scout API endpoint instead.
  * 
- * Note: The Scout API can take 20-30 seconds to respond, so timeouts
+ * Note: The real Scout API can take 20-30 seconds to respond, so timeouts
  * are set accordingly in playwright.config.ts
  */
 
-// Test credentials - using real API
 const TEST_USERNAME = 'testuser';
-const TEST_API_KEY = process.env.TEST_API_KEY || '';
+const TEST_API_KEY = process.env.TEST_API_KEY || MOCK_SCOUT_API_KEY;
 
-// Validate required environment variables
-test.beforeAll(() => {
-  if (!TEST_API_KEY) {
-    throw new Error('TEST_API_KEY environment variable is required for E2E tests. Run with: TEST_API_KEY=your_key npm run test:e2e');
-  }
-});
-
-// Long timeout for API calls (Scout API takes 20-30s)
-const API_TIMEOUT = 45000;
+// Long timeout for API calls (real Scout API takes 20-30s)
+const API_TIMEOUT = USE_MOCK_SCOUT ? 5000 : 45000;
 
 test.describe('CRM Application', () => {
   test.describe('Login Flow', () => {
@@ -278,4 +272,39 @@ test.describe('CRM Application', () => {
       }
     });
   });
+
+  test.describe('Full Flow', () => {
+    // Relies on the seeded mock data and deterministic responses
+    test.skip(!USE_MOCK_SCOUT, 'Runs against the mock Scout server only');
+
+    test('should login, create a contact and log an activity for it', async ({ page }) => {
+      const uniqueId = Date.now();
+      const testName = `Flow Contact ${uniqueId}`;
+
+      await page.goto('/');
+      await page.getByLabel(/username/i).fill(TEST_USERNAME);
+      await page.getByLabel(/api key/i).fill(TEST_API_KEY);
+      await page.getByRole('button', { name: /sign in/i }).click();
+
+      // Seeded contacts appear in the sidebar
+      await expect(page.getByText('Alice Johnson')).toBeVisible({ timeout: API_TIMEOUT });
+
+      // Create a contact
+      await page.getByRole('button', { name: /add new/i }).click();
+      await page.getByPlaceholder(/john doe/i).fill(testName);
+      await page.getByPlaceholder(/john@example.com/i).fill(`flow${uniqueId}@example.com`);
+      await page.getByRole('button', { name: /create contact/i }).click();
+      await expect(page.getByText('Contact created successfully!')).toBeVisible({ timeout: API_TIMEOUT });
+
+      // Open it and log a call
+      await page.getByRole('button', { name: new RegExp(testName) }).click();
+      await expect(page.getByRole('heading', { name: testName })).toBeVisible({ timeout: API_TIMEOUT });
+      await page.getByRole('button', { name: /call/i }).click();
+      await page.getByPlaceholder(/describe what happened/i).fill('Flow test call');
+      await page.getByRole('button', { name: /log activity/i }).click();
+
+      await expect(page.getByText('Activity logged successfully!')).toBeVisible({ timeout: API_TIMEOUT });
+      await expect(page.getByText('Flow test call')).toBeVisible({ timeout: API_TIMEOUT });
+    });
+  });
 });
@@ -0,0 +1,19 @@
+/**
+ * Shared settings for running the E2E suite against the mock Scout server.
+ * Kept free of Node imports so both playwright.config.ts and specs can use it.
+ */
+
+/** E2E runs use the mock server unless a real Scout key is supplied */
+export const USE_MOCK_SCOUT = !process.env.TEST_API_KEY;
+
+/** The only API key the mock server accepts */
+export const MOCK_SCOUT_API_KEY = 'e2e-test-key';
+
+export const MOCK_WORKFLOW_ID = 'wf_mock';
+
+export const MOCK_SCOUT_PORT = Number(process.env.MOCK_SCOUT_PORT || 4010);
+
+/** Dev server port for mock runs, separate so a normal `npm run dev` is never reused */
+export const MOCK_APP_PORT = 5174;
+
+export const MOCK_SCOUT_BASE_URL = `http://127.0.0.1:${MOCK_SCOUT_PORT}`;
@@ -0,0 +1,12 @@
+import { startMockScoutServer } from './server';
+import { MOCK_SCOUT_PORT } from './config';
+
+/**
+ * Playwright global setup: run the mock Scout server for the whole test run.
+ * The returned function is Playwright's teardown hook.
+ */
+export default async function globalSetup(): Promise<() => Promise<void>> {
+  const server = await startMockScoutServer({ port: MOCK_SCOUT_PORT });
+  console.log(`[mock-scout] listening on ${server.url}`);
+  return () => server.close();
+}
@@ -0,0 +1,406 @@
+/**
+ * Mock Scout Workflow Server
+ *
+ * Local stand-in for the Scout workflow API used by the E2E suite.
+ * Speaks the same POST /v2/workflows/:id/execute contract, interprets the
+ * structured intent sent with each command (or, without one, the natural
+ * language prompt built by src/lib/api/commands.ts), including batches of
+ * commands, and answers with fenced JSON in run.state.agent_message.output. Contact and activity
+ * state is kept in memory by the app's own LocalBackend.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { LocalBackend, type LocalDatabase } from '../../src/lib/api/backends/localBackend';
+import { readBatchCommands, readCommandPayload } from '../../src/lib/api/commands';
+import {
+  INTENT_VERSION,
+  RESPONSE_SCHEMAS,
+  type BatchIntent,
+  type CommandIntent,
+  type IntentArgs,
+} from '../../src/lib/api/intents';
+import type { ActivityType, ApiResponse, ContactStatus, UpdateContactData } from '../../src/lib/types';
+import { MOCK_SCOUT_API_KEY, MOCK_WORKFLOW_ID } from './config';
+
+export interface MockScoutServerOptions {
+  /** Port to listen on (0 picks a free port) */
+  port?: number;
+  /** The only API key the server accepts */
+  apiKey?: string;
+  /** Initial contacts and activities */
+  seed?: LocalDatabase;
+}
+
+export interface MockScoutServer {
+  /** Base URL, e.g. http://127.0.0.1:4010 */
+  url: string;
+  /** Execute URL for the mock workflow */
+  endpoint: string;
+  close(): Promise<void>;
+}
+
+/** Deterministic starting data for every run */
+export const DEFAULT_SEED: LocalDatabase = {
+  contacts: [
+    { id: 'doc_alice', name: 'Alice Johnson', email: 'alice@acme.com', company: 'Acme Corp', status: 'lead' },
+    { id: 'doc_bob', name: 'Bob Martinez', email: 'bob@globex.com', company: 'Globex', status: 'prospect' },
+    { id: 'doc_carol', name: 'Carol Chen', email: 'carol@initech.com', phone: '555-0100', status: 'customer' },
+  ],
+  activities: [
+    {
+      id: 'act_seed_1',
+      contactId: 'doc_bob',
+      type: 'call',
+      description: 'Intro call about pricing',
+      outcome: 'Send proposal',
+      timestamp: '2024-01-15T14:30:00.000Z',
+    },
+  ],
+};
+
+/** Result of interpreting a prompt: either data to return or a workflow error */
+type PromptResult = { data: unknown } | { error: string };
+
+/**
+ * An operation to perform, from an intent envelope or an interpreted prompt
+ */
+type Operation = { [O in keyof IntentArgs]: { operation: O; args: IntentArgs[O] } }[keyof IntentArgs];
+
+/**
+ * Several operations sent as one workflow run
+ */
+type Batch = { operation: 'batch'; operations: Operation[] };
+
+function isOperation(value: Operation | Batch | null): value is Operation {
+  return value !== null && value.operation !== 'batch';
+}
+
+/**
+ * String field of a command's input block, if present
+ */
+function stringField(payload: Record<string, unknown> | null, field: string): string {
+  const value = payload?.[field];
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Non-negative integer field of a command's input block, if present
+ */
+function countField(payload: Record<string, unknown> | null, field: string, fallback: number): number {
+  const value = Number(payload?.[field]);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+function fromResponse<T>(response: ApiResponse<T>, wrap?: (data: T) => unknown): PromptResult {
+  if (!response.success || response.data === undefined) {
+    return { error: response.error?.detail ?? response.error?.message ?? 'Operation failed' };
+  }
+  return { data: wrap ? wrap(response.data) : response.data };
+}
+
+/**
+ * Read a structured intent sent alongside the message, if it is one we support
+ */
+function readIntent(value: unknown): Operation | Batch | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const intent = value as Partial<CommandIntent> | Partial<BatchIntent>;
+  if (intent.version !== INTENT_VERSION || typeof intent.operation !== 'string') {
+    return null;
+  }
+  if (intent.operation === 'batch') {
+    const operations = Array.isArray(intent.args?.operations) ? intent.args.operations.map(readIntent) : [];
+    return operations.length > 0 && operations.every(isOperation) ? { operation: 'batch', operations } : null;
+  }
+  if (!(intent.operation in RESPONSE_SCHEMAS)) {
+    return null;
+  }
+  return { operation: intent.operation, args: intent.args ?? {} } as Operation;
+}
+
+/**
+ * Interpret a natural language prompt: a single command or a batch of them
+ */
+function interpretPrompt(message: string): Operation | Batch | null {
+  const commands = readBatchCommands(message);
+  if (commands) {
+    const operations = commands.map(interpretCommand);
+    return operations.every(isOperation) ? { operation: 'batch', operations } : null;
+  }
+  return interpretCommand(message);
+}
+
+/**
+ * Interpret a natural language command as an operation
+ */
+function interpretCommand(message: string): Operation | null {
+  const payload = readCommandPayload(message);
+  const contactId = stringField(payload, 'contactId');
+  let match: RegExpMatchArray | null;
+
+  if (/^List all contacts/i.test(message)) {
+    return { operation: 'listContacts', args: {} };
+  }
+  if (/^List contacts from the Contacts table/i.test(message)) {
+    return {
+      operation: 'listContactsPage',
+      args: { offset: countField(payload, 'offset', 0), limit: countField(payload, 'limit', 25) },
+    };
+  }
+  if ((match = message.match(/^Get a dashboard summary.*?get the (\d+) most recent activities/i))) {
+    return { operation: 'getDashboard', args: { activityLimit: Number(match[1]) } };
+  }
+  if (/^Get contact details/i.test(message) || /^Get all activities for the contact/i.test(message)) {
+    return { operation: 'getContactDetails', args: { contactId } };
+  }
+  if (/^Create a new contact/i.test(message)) {
+    return {
+      operation: 'createContact',
+      args: {
+        name: stringField(payload, 'name'),
+        email: stringField(payload, 'email'),
+        company: stringField(payload, 'company') || undefined,
+        phone: stringField(payload, 'phone') || undefined,
+        status: (stringField(payload, 'status') as ContactStatus) || 'lead',
+        idempotencyKey: stringField(payload, 'idempotencyKey') || undefined,
+      },
+    };
+  }
+  if (/^Log an activity/i.test(message)) {
+    return {
+      operation: 'logActivity',
+      args: {
+        contactId,
+        type: stringField(payload, 'type').toLowerCase() as ActivityType,
+        description: stringField(payload, 'description'),
+        outcome: stringField(payload, 'outcome') || undefined,
+        idempotencyKey: stringField(payload, 'idempotencyKey') || undefined,
+      },
+    };
+  }
+  if (/^Update the contact whose ID/i.test(message)) {
+    const changes = payload?.changes;
+    return {
+      operation: 'updateContact',
+      args: { contactId, changes: typeof changes === 'object' && changes !== null ? (changes as UpdateContactData) : {} },
+    };
+  }
+  if (/^Update the status of the contact/i.test(message)) {
+    return {
+      operation: 'updateContactStatus',
+      args: {
+        contactId,
+        status: stringField(payload, 'status') as ContactStatus,
+        lossReason: stringField(payload, 'lossReason') || undefined,
+      },
+    };
+  }
+  if (/^Permanently delete the contact/i.test(message)) {
+    return { operation: 'deleteContact', args: { contactId } };
+  }
+  if (/^Search contacts/i.test(message)) {
+    return { operation: 'searchContacts', args: { query: stringField(payload, 'query') } };
+  }
+  return null;
+}
+
+/**
+ * Perform a batch in order, answering with one result (or error) per operation
+ */
+async function runBatch(store: LocalBackend, operations: Operation[]): Promise<PromptResult> {
+  const results: unknown[] = [];
+  for (const operation of operations) {
+    const result = await runOperation(store, operation);
+    results.push('error' in result ? { error: result.error } : result.data);
+  }
+  return { data: { results } };
+}
+
+/**
+ * Perform an operation against the in-memory store, answering in the shape the prompts ask for
+ */
+async function runOperation(store: LocalBackend, { operation, args }: Operation): Promise<PromptResult> {
+  switch (operation) {
+    case 'listContacts':
+      return fromResponse(await store.listContacts(''), (contacts) => ({ contacts }));
+    case 'listContactsPage':
+      return fromResponse(await store.listContactsPage('', args), ({ contacts, total }) => ({ contacts, total }));
+    case 'getDashboard':
+      return fromResponse(await store.getDashboard(''), (dashboard) => ({
+        ...dashboard,
+        recentActivities: dashboard.recentActivities.slice(0, args.activityLimit),
+      }));
+    case 'getContactDetails':
+      return fromResponse(await store.getContactDetails('', args.contactId));
+    case 'createContact':
+      if (!args.name || !args.email) {
+        return { error: 'Contact requires a name and email' };
+      }
+      return fromResponse(await store.createContact('', args));
+    case 'logActivity':
+      if (!args.description) {
+        return { error: 'Activity requires a description' };
+      }
+      return fromResponse(await store.logActivity('', args));
+    case 'updateContact':
+      return fromResponse(await store.updateContact('', args.contactId, args.changes));
+    case 'updateContactStatus':
+      return fromResponse(await store.updateContactStatus('', args.contactId, args.status, args.lossReason), (updated) => ({
+        success: true,
+        ...updated,
+      }));
+    case 'searchContacts':
+      return fromResponse(await store.searchContacts('', args.query), (contacts) => ({ contacts }));
+    case 'deleteContact':
+      return fromResponse(await store.deleteContact('', args.contactId));
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Format data the way the workflow's agent replies: a fenced JSON block
+ */
+function formatOutput(data: unknown): string {
+  return '```json\n' + JSON.stringify(data, null, 2) + '\n```';
+}
+
+/**
+ * Build a Scout-shaped run payload
+ */
+function runResponse(result: PromptResult): unknown {
+  if ('error' in result) {
+    return { run: { stop_reason: 'workflow_run_failed', errors: [result.error] } };
+  }
+  return {
+    run: {
+      stop_reason: 'completed',
+      state: {
+        agent_message: {
+          output: formatOutput(result.data),
+        },
+      },
+    },
+  };
+}
+
+/** Size of each streamed output delta, small enough to split records across events */
+const STREAM_CHUNK_SIZE = 48;
+
+/**
+ * Send a run as server-sent events: output deltas followed by the finished run
+ */
+function sendStream(res: ServerResponse, result: PromptResult): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Access-Control-Allow-Origin': '*',
+  });
+
+  const output = 'error' in result ? '' : formatOutput(result.data);
+  for (let i = 0; i < output.length; i += STREAM_CHUNK_SIZE) {
+    res.write(`data: ${JSON.stringify({ delta: output.slice(i, i + STREAM_CHUNK_SIZE) })}\n\n`);
+  }
+  res.write(`data: ${JSON.stringify(runResponse(result))}\n\n`);
+  res.end();
+}
+
+/**
+ * Start the mock server
+ */
+export function startMockScoutServer(options: MockScoutServerOptions = {}): Promise<MockScoutServer> {
+  const apiKey = options.apiKey ?? MOCK_SCOUT_API_KEY;
+  const seed = options.seed ?? DEFAULT_SEED;
+  let store = new LocalBackend({ storageKey: null, seed: structuredClone(seed) });
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      });
+      res.end();
+      return;
+    }
+
+    // Test hook: restore the seed data
+    if (req.method === 'POST' && url.pathname === '/__reset') {
+      store = new LocalBackend({ storageKey: null, seed: structuredClone(seed) });
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    if (req.method !== 'POST' || !/^\/v2\/workflows\/[^/]+\/execute$/.test(url.pathname)) {
+      sendJson(res, 404, { detail: 'Not found' });
+      return;
+    }
+
+    if (req.headers.authorization !== `Bearer ${apiKey}`) {
+      sendJson(res, 401, { detail: 'Invalid API key' });
+      return;
+    }
+
+    let message: unknown;
+    let intent: Operation | Batch | null = null;
+    let stream = false;
+    try {
+      const body = JSON.parse(await readBody(req));
+      message = body?.inputs?.message;
+      intent = readIntent(body?.inputs?.intent);
+      stream = body?.stream === true;
+    } catch {
+      sendJson(res, 400, { detail: 'Request body must be JSON' });
+      return;
+    }
+
+    if (typeof message !== 'string' || !message.trim()) {
+      sendJson(res, 400, { detail: 'inputs.message is required' });
+      return;
+    }
+
+    // Like a workflow that understands intents, prefer them over the prose
+    const request = intent ?? interpretPrompt(message);
+    const result = !request
+      ? { error: `Mock Scout could not interpret command: ${message.slice(0, 80)}` }
+      : request.operation === 'batch'
+        ? await runBatch(store, request.operations)
+        : await runOperation(store, request);
+    if (stream) {
+      sendStream(res, result);
+    } else {
+      sendJson(res, 200, runResponse(result));
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : options.port;
+      const url = `http://127.0.0.1:${port}`;
+      resolve({
+        url,
+        endpoint: `${url}/v2/workflows/${MOCK_WORKFLOW_ID}/execute`,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
+}
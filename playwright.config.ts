@@ -1,4 +1,14 @@
 import { defineConfig, devices } from '@playwright/test';
+import {
+  USE_MOCK_SCOUT,
+  MOCK_APP_PORT,
+  MOCK_SCOUT_BASE_URL,
+  MOCK_WORKFLOW_ID,
+} from './e2e/mock-scout/config';
+
+// Without TEST_API_KEY the suite runs against the local mock Scout server
+// (e2e/mock-scout), which answers instantly. With a real key it targets production.
+const appUrl = USE_MOCK_SCOUT ? `http://localhost:${MOCK_APP_PORT}` : 'http://localhost:5173';
 
 export default defineConfig({
   testDir: './e2e',
@@ -7,16 +17,17 @@ export default defineConfig({
   retries: process.env.CI ? 2 : 0,
   workers: process.env.CI ? 1 : undefined,
   reporter: 'html',
+  globalSetup: USE_MOCK_SCOUT ? './e2e/mock-scout/global-setup.ts' : undefined,
   // Scout API can take 20-30 seconds to respond
-  timeout: 60000,
+  timeout: USE_MOCK_SCOUT ? 15000 : 60000,
   expect: {
-    timeout: 30000,
+    timeout: USE_MOCK_SCOUT ? 5000 : 30000,
   },
   use: {
-    baseURL: 'http://localhost:5173',
+    baseURL: appUrl,
     trace: 'on-first-retry',
     // Allow longer action timeouts for slow API
-    actionTimeout: 30000,
+    actionTimeout: USE_MOCK_SCOUT ? 5000 : 30000,
   },
   projects: [
     {
@@ -24,9 +35,16 @@ export default defineConfig({
       use: { ...devices['Desktop Chrome'] },
     },
   ],
-  webServer: {
-    command: 'npm run dev',
-    url: 'http://localhost:5173',
-    reuseExistingServer: !process.env.CI,
-  },
+  webServer: USE_MOCK_SCOUT
+    ? {
+        command: `npm run dev -- --port ${MOCK_APP_PORT} --strictPort`,
+        url: appUrl,
+        reuseExistingServer: false,
+        env: { VITE_SCOUT_BASE_URL: MOCK_SCOUT_BASE_URL, VITE_SCOUT_WORKFLOW_ID: MOCK_WORKFLOW_ID },
+      }
+    : {
+        command: 'npm run dev',
+        url: appUrl,
+        reuseExistingServer: !process.env.CI,
+      },
 });
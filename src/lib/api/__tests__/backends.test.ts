@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  LocalBackend,
+  ScoutBackend,
+  createBackend,
+  getBackend,
+  resolveBackendKind,
+} from '../backends';
+import { selectBackend, listContacts, listContactsPage, createContact, clearAllCaches } from '../client';
+import { DEFAULT_WORKSPACE, setWorkspace } from '../workspace';
+import type { Contact } from '../../types';
+
+// Mock fetch globally so accidental network calls are visible
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+const seedContacts: Contact[] = [
+  { id: 'c1', name: 'John Doe', email: 'john@acme.com', company: 'Acme', status: 'lead' },
+  { id: 'c2', name: 'Jane Smith', email: 'jane@tech.io', status: 'customer' },
+];
+
+describe('LocalBackend', () => {
+  let backend: LocalBackend;
+
+  beforeEach(() => {
+    backend = new LocalBackend({
+      storageKey: null,
+      seed: { contacts: seedContacts, activities: [] },
+    });
+  });
+
+  it('lists seeded contacts', async () => {
+    const result = await backend.listContacts('');
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(seedContacts);
+  });
+
+  it('pages through contacts in name order', async () => {
+    const first = await backend.listContactsPage('', { offset: 0, limit: 1 });
+    const second = await backend.listContactsPage('', { offset: 1, limit: 1 });
+
+    expect(first.data).toEqual({ contacts: [seedContacts[1]], offset: 0, nextOffset: 1, total: 2 });
+    expect(second.data).toEqual({ contacts: [seedContacts[0]], offset: 1, nextOffset: null, total: 2 });
+  });
+
+  it('creates contacts with a generated id and default status', async () => {
+    const result = await backend.createContact('', { name: 'New', email: 'new@test.com' });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.id).toBeTruthy();
+    expect(result.data?.status).toBe('lead');
+
+    const list = await backend.listContacts('');
+    expect(list.data).toHaveLength(3);
+  });
+
+  it('creates one contact per idempotency key', async () => {
+    const first = await backend.createContact('', { name: 'New', email: 'new@test.com', idempotencyKey: 'k1' });
+    const repeat = await backend.createContact('', { name: 'New', email: 'new@test.com', idempotencyKey: 'k1' });
+    const other = await backend.createContact('', { name: 'New', email: 'new@test.com', idempotencyKey: 'k2' });
+
+    expect(repeat.data).toEqual(first.data);
+    expect(other.data?.id).not.toBe(first.data?.id);
+    expect((await backend.listContacts('')).data).toHaveLength(4);
+  });
+
+  it('logs one activity per idempotency key', async () => {
+    const data = { contactId: 'c1', type: 'call' as const, description: 'Intro', idempotencyKey: 'k1' };
+    const first = await backend.logActivity('', data);
+    const repeat = await backend.logActivity('', data);
+
+    expect(repeat.data).toEqual(first.data);
+    expect((await backend.getContactDetails('', 'c1')).data?.activities).toHaveLength(1);
+  });
+
+  it('logs activities and returns them newest first in contact details', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T10:00:00Z'));
+    await backend.logActivity('', { contactId: 'c1', type: 'call', description: 'First' });
+    vi.setSystemTime(new Date('2024-01-02T10:00:00Z'));
+    await backend.logActivity('', { contactId: 'c1', type: 'email', description: 'Second' });
+    vi.useRealTimers();
+
+    const result = await backend.getContactDetails('', 'c1');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.name).toBe('John Doe');
+    expect(result.data?.activities.map((a) => a.description)).toEqual(['Second', 'First']);
+  });
+
+  it('rejects activities for unknown contacts', async () => {
+    const result = await backend.logActivity('', { contactId: 'missing', type: 'note', description: 'x' });
+    expect(result.success).toBe(false);
+    expect(result.error?.kind).toBe('not_found');
+    expect(result.error?.detail).toContain('missing');
+  });
+
+  it('computes dashboard counts from stored data', async () => {
+    await backend.logActivity('', { contactId: 'c2', type: 'meeting', description: 'Kickoff' });
+
+    const result = await backend.getDashboard('');
+
+    expect(result.data?.contactCounts).toEqual({ lead: 1, prospect: 0, customer: 1, lost: 0, total: 2 });
+    expect(result.data?.activityCount).toBe(1);
+    expect(result.data?.recentActivities).toHaveLength(1);
+  });
+
+  it('searches across name, email and company', async () => {
+    const result = await backend.searchContacts('', 'acme');
+    expect(result.data?.map((c) => c.id)).toEqual(['c1']);
+  });
+
+  it('updates contact status', async () => {
+    const result = await backend.updateContactStatus('', 'c1', 'prospect');
+    expect(result.data).toEqual({ id: 'c1', status: 'prospect' });
+
+    const details = await backend.getContactDetails('', 'c1');
+    expect(details.data?.status).toBe('prospect');
+  });
+
+  it('keeps a loss reason only while the contact is lost', async () => {
+    const lost = await backend.updateContactStatus('', 'c1', 'lost', 'No budget');
+    expect(lost.data).toEqual({ id: 'c1', status: 'lost', lossReason: 'No budget' });
+    expect((await backend.getDashboard('')).data?.contactCounts.lost).toBe(1);
+
+    const reopened = await backend.updateContactStatus('', 'c1', 'lead');
+    expect(reopened.data).toEqual({ id: 'c1', status: 'lead' });
+    expect((await backend.getContactDetails('', 'c1')).data).not.toHaveProperty('lossReason');
+  });
+
+  it('moves stored contacts onto the stages of a new pipeline', async () => {
+    setWorkspace({
+      ...DEFAULT_WORKSPACE,
+      pipeline: {
+        stages: [
+          { id: 'mql', label: 'MQL', color: 'blue', aliases: ['lead'] },
+          { id: 'trial', label: 'Trial', color: 'amber' },
+          { id: 'paying', label: 'Paying', color: 'green', terminal: 'won', aliases: ['customer'] },
+        ],
+      },
+    });
+    try {
+      const list = await backend.listContacts('');
+      expect(list.data?.map((c) => c.status)).toEqual(['mql', 'paying']);
+      expect((await backend.getDashboard('')).data?.contactCounts).toEqual({ mql: 1, trial: 0, paying: 1, total: 2 });
+
+      const created = await backend.createContact('', { name: 'Ann', email: 'ann@acme.com' });
+      expect(created.data?.status).toBe('mql');
+    } finally {
+      setWorkspace(DEFAULT_WORKSPACE);
+    }
+  });
+
+  it('updates the given fields of a contact', async () => {
+    const result = await backend.updateContact('', 'c1', { name: 'Renamed', status: 'customer' });
+    expect(result.data).toMatchObject({ id: 'c1', name: 'Renamed', email: seedContacts[0].email, status: 'customer' });
+
+    const details = await backend.getContactDetails('', 'c1');
+    expect(details.data).toMatchObject({ name: 'Renamed', status: 'customer' });
+  });
+
+  it('clears an optional field updated to a blank', async () => {
+    await backend.updateContact('', 'c1', { company: 'Acme' });
+    const result = await backend.updateContact('', 'c1', { company: '' });
+
+    expect(result.data).not.toHaveProperty('company');
+  });
+
+  it('reports a missing contact when updating', async () => {
+    const result = await backend.updateContact('', 'nope', { name: 'Ghost' });
+    expect(result.error?.kind).toBe('not_found');
+  });
+
+  it('archives and restores a contact', async () => {
+    const archived = await backend.updateContact('', 'c1', { archived: true });
+    expect(archived.data?.archived).toBe(true);
+
+    const restored = await backend.updateContact('', 'c1', { archived: false });
+    expect(restored.data).not.toHaveProperty('archived');
+  });
+
+  it('deletes a contact together with its activities', async () => {
+    await backend.logActivity('', { contactId: 'c1', type: 'call', description: 'Intro' });
+    await backend.logActivity('', { contactId: 'c1', type: 'note', description: 'Follow up' });
+    await backend.logActivity('', { contactId: 'c2', type: 'note', description: 'Kept' });
+
+    const result = await backend.deleteContact('', 'c1');
+
+    expect(result.data).toEqual({ id: 'c1', activitiesDeleted: 2 });
+    expect((await backend.getContactDetails('', 'c1')).error?.kind).toBe('not_found');
+    const dashboard = await backend.getDashboard('');
+    expect(dashboard.data?.contactCounts.total).toBe(1);
+    expect(dashboard.data?.activityCount).toBe(1);
+  });
+
+  it('reports a missing contact when deleting', async () => {
+    expect((await backend.deleteContact('', 'nope')).error?.kind).toBe('not_found');
+  });
+
+  it('persists to localStorage when a storage key is given', async () => {
+    const persisted = new LocalBackend({ storageKey: 'test_local_db' });
+    persisted.reset();
+    await persisted.createContact('', { name: 'Saved', email: 'saved@test.com' });
+
+    const reloaded = new LocalBackend({ storageKey: 'test_local_db' });
+    const result = await reloaded.listContacts('');
+
+    expect(result.data?.map((c) => c.name)).toEqual(['Saved']);
+    localStorage.removeItem('test_local_db');
+  });
+});
+
+describe('Backend selection', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    clearAllCaches();
+  });
+
+  afterEach(() => {
+    selectBackend('scout');
+  });
+
+  it('resolves backend kind from configuration values', () => {
+    expect(resolveBackendKind('local')).toBe('local');
+    expect(resolveBackendKind(' LOCAL ')).toBe('local');
+    expect(resolveBackendKind('scout')).toBe('scout');
+    expect(resolveBackendKind(undefined)).toBe('scout');
+    expect(resolveBackendKind('unknown')).toBe('scout');
+  });
+
+  it('creates backend instances by kind', () => {
+    expect(createBackend('local')).toBeInstanceOf(LocalBackend);
+    expect(createBackend('scout')).toBeInstanceOf(ScoutBackend);
+  });
+
+  it('routes client calls through the selected backend without touching the network', async () => {
+    selectBackend(new LocalBackend({ storageKey: null, seed: { contacts: seedContacts, activities: [] } }));
+
+    const result = await listContacts('any-key');
+
+    expect(getBackend().kind).toBe('local');
+    expect(result.data).toEqual(seedContacts);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('invalidates cached lists after mutations on the local backend', async () => {
+    selectBackend(new LocalBackend({ storageKey: null, seed: { contacts: seedContacts, activities: [] } }));
+
+    await listContacts('any-key');
+    await createContact('any-key', { name: 'Fresh', email: 'fresh@test.com' });
+    const result = await listContacts('any-key');
+
+    expect(result.data).toHaveLength(3);
+  });
+
+  it('invalidates cached pages after creating a contact', async () => {
+    selectBackend(new LocalBackend({ storageKey: null, seed: { contacts: seedContacts, activities: [] } }));
+
+    await listContactsPage('any-key', { offset: 0, limit: 10 });
+    await createContact('any-key', { name: 'Fresh', email: 'fresh@test.com' });
+    const result = await listContactsPage('any-key', { offset: 0, limit: 10 });
+
+    expect(result.data?.contacts.map((c) => c.name)).toEqual(['Fresh', 'Jane Smith', 'John Doe']);
+  });
+
+  it('clears caches when switching to a different backend', async () => {
+    selectBackend(new LocalBackend({ storageKey: null, seed: { contacts: seedContacts, activities: [] } }));
+    await listContacts('any-key');
+
+    selectBackend('scout');
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ content: '{"contacts": []}' }),
+    });
+
+    const result = await listContacts('any-key');
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(result.data).toEqual([]);
+  });
+});
@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { splitBatchResponse } from '../batch';
+import { ScoutBackend, LocalBackend } from '../backends';
+import { createBatchIntent, createIntent } from '../intents';
+import { DEFAULT_PIPELINE, countedStages } from '../pipeline';
+import {
+  clearAllCaches,
+  createContactAndRefresh,
+  getDashboard,
+  logActivityAndRefresh,
+  selectBackend,
+  updateContactStatusAndLog,
+} from '../client';
+import { getCacheStatus, CACHE_KEYS } from '../../cache';
+import type { LocalDatabase } from '../backends';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+function runWithData(data: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    json: () =>
+      Promise.resolve({ run: { state: { agent_message: { output: '```json\n' + JSON.stringify(data) + '\n```' } } } }),
+  };
+}
+
+/** The JSON body of the nth fetch call */
+function sentBody(call = 0) {
+  return JSON.parse(mockFetch.mock.calls[call][1].body);
+}
+
+const contact = { id: 'c1', name: 'Ann', email: 'ann@acme.com', status: 'lead' };
+const dashboard = {
+  contactCounts: { lead: 1, prospect: 0, customer: 0, lost: 0, total: 1 },
+  activityCount: 0,
+  recentActivities: [],
+};
+
+describe('splitBatchResponse', () => {
+  it('gives each operation its own result', () => {
+    const parts = splitBatchResponse({ success: true, data: { results: [1, { a: 2 }] }, rawResponse: 'raw' }, 2);
+
+    expect(parts).toEqual([
+      { success: true, data: 1, rawResponse: 'raw' },
+      { success: true, data: { a: 2 }, rawResponse: 'raw' },
+    ]);
+  });
+
+  it('accepts a bare array of results', () => {
+    expect(splitBatchResponse({ success: true, data: ['x'] }, 1)[0].data).toBe('x');
+  });
+
+  it('reports an error entry as a failed operation', () => {
+    const [ok, failed] = splitBatchResponse({ success: true, data: { results: [{}, { error: 'No such contact' }] } }, 2);
+
+    expect(ok.success).toBe(true);
+    expect(failed.success).toBe(false);
+    expect(failed.error).toMatchObject({ kind: 'workflow_failed', detail: 'No such contact' });
+  });
+
+  it('fails every operation when the results cannot be matched up', () => {
+    const parts = splitBatchResponse({ success: true, data: { results: [{}] } }, 2);
+
+    expect(parts.map((part) => part.success)).toEqual([false, false]);
+    expect(parts[0].error?.kind).toBe('validation_error');
+    expect(parts[0].error?.detail).toBe('Batch response has 1 results, expected 2');
+  });
+
+  it('fails every operation when the run failed', () => {
+    const failure = { success: false, error: { kind: 'timeout' as const, message: 'Timed out', retryable: true } };
+
+    expect(splitBatchResponse(failure, 2)).toEqual([failure, failure]);
+  });
+});
+
+describe('ScoutBackend.batch', () => {
+  const backend = new ScoutBackend({ retry: false, streaming: false });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('sends every operation in a single workflow run', async () => {
+    mockFetch.mockResolvedValueOnce(runWithData({ results: [contact, dashboard] }));
+
+    const [created, refreshed] = await backend.batch('api-key', [
+      { operation: 'createContact', args: { name: 'Ann', email: 'ann@acme.com' } },
+      { operation: 'getDashboard', args: {} },
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    const { inputs } = sentBody();
+    expect(inputs.message).toContain('### Operation 2');
+    expect(inputs.intent).toEqual(
+      createBatchIntent(
+        [
+          createIntent('createContact', { name: 'Ann', email: 'ann@acme.com' }, { name: 'createContact', version: 2 }),
+          createIntent(
+            'getDashboard',
+            { activityLimit: 5, stages: countedStages(DEFAULT_PIPELINE) },
+            { name: 'getDashboard', version: 4 }
+          ),
+        ],
+        { name: 'batch', version: 1 }
+      )
+    );
+    expect(created.data).toEqual(contact);
+    expect(refreshed.data?.contactCounts.lead).toBe(1);
+  });
+
+  it('normalizes, checks and validates each result on its own', async () => {
+    mockFetch.mockResolvedValueOnce(
+      runWithData({ results: [{ document_id: 'c1', name: 'Ann', email: 'ann@acme.com', status: 'Client' }, { nope: true }] })
+    );
+
+    const [created, refreshed] = await backend.batch('api-key', [
+      { operation: 'createContact', args: { name: 'Ann', email: 'ann@acme.com' } },
+      { operation: 'getDashboard', args: {} },
+    ]);
+
+    expect(created.data).toMatchObject({ id: 'c1', status: 'customer' });
+    expect(refreshed.success).toBe(false);
+    expect(refreshed.error?.kind).toBe('validation_error');
+  });
+
+  it('does not retry a batch containing a create after a timeout', async () => {
+    const retrying = new ScoutBackend({
+      retry: { maxAttempts: 3, baseDelayMs: 1 },
+      streaming: false,
+      timeouts: { createContact: 20, getDashboard: 20 },
+    });
+    mockFetch.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) =>
+          init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+        )
+    );
+
+    const [created, refreshed] = await retrying.batch('api-key', [
+      { operation: 'createContact', args: { name: 'Ann', email: 'ann@acme.com' } },
+      { operation: 'getDashboard', args: {} },
+    ]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(created.error?.kind).toBe('timeout');
+    expect(refreshed.error?.kind).toBe('timeout');
+  });
+
+  it('sends nothing for an empty batch', async () => {
+    expect(await backend.batch('api-key', [])).toEqual([]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('LocalBackend.batch', () => {
+  it('runs the operations in order', async () => {
+    const seed: LocalDatabase = { contacts: [], activities: [] };
+    const backend = new LocalBackend({ storageKey: null, seed });
+
+    const [created, refreshed] = await backend.batch('', [
+      { operation: 'createContact', args: { name: 'Ann', email: 'ann@acme.com' } },
+      { operation: 'getDashboard', args: {} },
+    ]);
+
+    expect(created.success).toBe(true);
+    expect(refreshed.data?.contactCounts.total).toBe(1);
+  });
+});
+
+describe('refreshing after a mutation', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    selectBackend(new ScoutBackend({ retry: false, streaming: false }));
+    clearAllCaches();
+  });
+
+  it('refills the dashboard cache from the batch after creating a contact', async () => {
+    mockFetch.mockResolvedValueOnce(runWithData({ results: [contact, dashboard] }));
+
+    const result = await createContactAndRefresh('api-key', { name: 'Ann', email: 'ann@acme.com' });
+    const cached = await getDashboard('api-key');
+
+    expect(result.contact.data).toEqual(contact);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(cached.data).toEqual(result.dashboard.data);
+  });
+
+  it('refills the contact details and dashboard after logging an activity', async () => {
+    const activity = {
+      id: 'a1',
+      contactId: 'c1',
+      type: 'call',
+      description: 'Intro',
+      timestamp: '2024-01-15T10:30:00.000Z',
+    };
+    mockFetch.mockResolvedValueOnce(runWithData({ results: [activity, { ...contact, activities: [activity] }, dashboard] }));
+
+    const result = await logActivityAndRefresh('api-key', { contactId: 'c1', type: 'call', description: 'Intro' });
+
+    expect(result.activity.data).toEqual(activity);
+    expect(result.details.data?.activities).toEqual([activity]);
+    expect(getCacheStatus(CACHE_KEYS.CONTACT_DETAIL('c1')).inMemory).toBe(true);
+    expect(getCacheStatus(CACHE_KEYS.DASHBOARD).inMemory).toBe(true);
+  });
+
+  it('changes a status, then logs the note and refills the contact details in one run', async () => {
+    const note = {
+      id: 'a2',
+      contactId: 'c1',
+      type: 'note',
+      description: 'Status changed from Lead to Prospect',
+      timestamp: '2024-01-15T10:30:00.000Z',
+    };
+    mockFetch.mockResolvedValueOnce(runWithData({ id: 'c1', status: 'prospect' }));
+    mockFetch.mockResolvedValueOnce(
+      runWithData({ results: [note, { ...contact, status: 'prospect', activities: [note] }] })
+    );
+
+    const result = await updateContactStatusAndLog('api-key', 'c1', 'prospect', note.description);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(sentBody(0).inputs.intent.operation).toBe('updateContactStatus');
+    expect(sentBody(1).inputs.intent.args.operations.map((op: { operation: string }) => op.operation)).toEqual([
+      'logActivity',
+      'getContactDetails',
+    ]);
+    expect(result.update.data).toEqual({ id: 'c1', status: 'prospect' });
+    expect(result.activity.data).toEqual(note);
+    expect(getCacheStatus(CACHE_KEYS.CONTACT_DETAIL('c1')).inMemory).toBe(true);
+  });
+
+  it('logs no note when the status change fails', async () => {
+    mockFetch.mockResolvedValueOnce(runWithData({ error: 'No such contact' }));
+
+    const result = await updateContactStatusAndLog('api-key', 'c1', 'prospect', 'Status changed from Lead to Prospect');
+
+    expect(result.update.success).toBe(false);
+    expect(result.activity.success).toBe(false);
+    expect(result.details.success).toBe(false);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(sentBody(0).inputs.intent.operation).toBe('updateContactStatus');
+    expect(getCacheStatus(CACHE_KEYS.CONTACT_DETAIL('c1')).inMemory).toBe(false);
+  });
+
+  it('leaves the caches alone when the mutation fails', async () => {
+    mockFetch.mockResolvedValueOnce(runWithData({ results: [{ error: 'Duplicate email' }, dashboard] }));
+
+    const result = await createContactAndRefresh('api-key', { name: 'Ann', email: 'ann@acme.com' });
+
+    expect(result.contact.error?.detail).toBe('Duplicate email');
+    expect(getCacheStatus(CACHE_KEYS.DASHBOARD).inMemory).toBe(false);
+  });
+});
@@ -2,12 +2,18 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   executeCommand,
   listContacts,
+  listContactsPage,
+  searchContacts,
   getDashboard,
   getContactDetails,
   createContact,
+  updateContact,
+  updateContactStatus,
+  deleteContact,
   logActivity,
   clearAllCaches,
 } from '../client';
+import { getCacheStatus, CACHE_KEYS } from '../../cache';
 import type { Contact, DashboardData, ContactWithActivities, Activity } from '../../types';
 
 // Mock fetch globally
@@ -66,6 +72,7 @@ describe('API Client', () => {
             Authorization: 'Bearer test-api-key',
           },
           body: JSON.stringify({ inputs: { message: 'TEST COMMAND' }, stream: false }),
+          signal: expect.any(AbortSignal),
         }
       );
     });
@@ -93,7 +100,8 @@ describe('API Client', () => {
       const result = await executeCommand('invalid-key', 'COMMAND');
 
       expect(result.success).toBe(false);
-      expect(result.error).toContain('API request failed: 401 Unauthorized');
+      expect(result.error).toMatchObject({ kind: 'auth', status: 401, retryable: false });
+      expect(result.error?.detail).toContain('API request failed: 401 Unauthorized');
     });
 
     it('returns error when API returns workflow_run_failed', async () => {
@@ -105,25 +113,26 @@ describe('API Client', () => {
       const result = await executeCommand('api-key', 'COMMAND');
 
       expect(result.success).toBe(false);
-      expect(result.error).toBe('Database connection failed');
+      expect(result.error?.kind).toBe('workflow_failed');
+      expect(result.error?.detail).toBe('Database connection failed');
     });
 
     it('handles network errors', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Network error'));
 
-      const result = await executeCommand('api-key', 'COMMAND');
+      const result = await executeCommand('api-key', 'COMMAND', { retry: false });
 
       expect(result.success).toBe(false);
-      expect(result.error).toBe('Network error');
+      expect(result.error).toMatchObject({ kind: 'network', detail: 'Network error', retryable: true });
     });
 
     it('handles non-Error exceptions', async () => {
       mockFetch.mockRejectedValueOnce('Unknown error');
 
-      const result = await executeCommand('api-key', 'COMMAND');
+      const result = await executeCommand('api-key', 'COMMAND', { retry: false });
 
       expect(result.success).toBe(false);
-      expect(result.error).toBe('Unknown error occurred');
+      expect(result.error?.detail).toBe('Unknown error occurred');
     });
   });
 
@@ -228,7 +237,7 @@ describe('API Client', () => {
       const result = await executeCommand('api-key', 'COMMAND');
 
       expect(result.success).toBe(false);
-      expect(result.error).toBe('Failed to parse API response');
+      expect(result.error?.kind).toBe('parse_error');
     });
   });
 
@@ -290,10 +299,117 @@ describe('API Client', () => {
     });
   });
 
+  describe('listContactsPage', () => {
+    const page: Contact[] = [
+      { id: '1', name: 'Ann', email: 'ann@test.com', status: 'lead' },
+      { id: '2', name: 'Bob', email: 'bob@test.com', status: 'customer' },
+    ];
+
+    it('asks for the requested page and reports where the next one starts', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(createScoutResponse({ contacts: page, total: 5 })),
+      });
+
+      const result = await listContactsPage('api-key', { offset: 2, limit: 2 });
+
+      const { inputs } = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(inputs.intent).toMatchObject({ operation: 'listContactsPage', args: { offset: 2, limit: 2 } });
+      expect(result.data).toEqual({ contacts: page, offset: 2, nextOffset: 4, total: 5 });
+    });
+
+    it('caches each page separately', async () => {
+      mockFetch.mockImplementation(() =>
+        Promise.resolve({ ok: true, json: () => Promise.resolve(createScoutResponse({ contacts: page, total: 5 })) })
+      );
+
+      await listContactsPage('api-key', { offset: 0, limit: 2 });
+      await listContactsPage('api-key', { offset: 0, limit: 2 });
+      await listContactsPage('api-key', { offset: 2, limit: 2 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('neither caches nor moves past a page whose reply was cut off', async () => {
+      const truncated = {
+        run: {
+          state: {
+            agent_message: {
+              output: '{"contacts": [{"id": "3", "name": "Cy", "email": "cy@test.com", "status": "lead"}, {"id": "4", "na',
+            },
+          },
+        },
+      };
+      mockFetch.mockImplementation(() => Promise.resolve({ ok: true, json: () => Promise.resolve(truncated) }));
+
+      const result = await listContactsPage('api-key', { offset: 2, limit: 2 });
+
+      expect(result.meta?.partial).toBe(true);
+      expect(result.data).toEqual({
+        contacts: [{ id: '3', name: 'Cy', email: 'cy@test.com', status: 'lead' }],
+        offset: 2,
+        nextOffset: 2,
+      });
+      expect(getCacheStatus(CACHE_KEYS.CONTACTS_PAGE(2, 2))).toMatchObject({ inMemory: false, inStorage: false });
+
+      await listContactsPage('api-key', { offset: 2, limit: 2 });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('searchContacts', () => {
+    const matches: Contact[] = [{ id: '1', name: 'Ann Lee', email: 'ann@test.com', status: 'lead' }];
+    const respond = () =>
+      Promise.resolve({ ok: true, json: () => Promise.resolve(createScoutResponse({ contacts: matches })) });
+
+    it('sends the normalized query', async () => {
+      mockFetch.mockImplementationOnce(respond);
+
+      const result = await searchContacts('api-key', '  Ann   LEE ');
+
+      const { inputs } = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(inputs.intent).toMatchObject({ operation: 'searchContacts', args: { query: 'ann lee' } });
+      expect(result.data).toEqual(matches);
+    });
+
+    it('shares one request and cache entry between queries that differ only in case or spacing', async () => {
+      mockFetch.mockImplementation(respond);
+
+      await Promise.all([searchContacts('api-key', 'ann'), searchContacts('api-key', 'ANN ')]);
+      await searchContacts('api-key', 'Ann');
+      await searchContacts('api-key', 'bob');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not send an empty query', async () => {
+      const result = await searchContacts('api-key', '   ');
+
+      expect(result).toEqual({ success: true, data: [] });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('searches again after a contact is created', async () => {
+      mockFetch.mockImplementation(respond);
+      await searchContacts('api-key', 'ann');
+
+      mockFetch.mockImplementationOnce(() =>
+        Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve(createScoutResponse({ id: '2', name: 'Ann Ray', email: 'ray@test.com', status: 'lead' })),
+        })
+      );
+      await createContact('api-key', { name: 'Ann Ray', email: 'ray@test.com' });
+      await searchContacts('api-key', 'ann');
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe('getDashboard', () => {
     it('returns dashboard data', async () => {
       const mockDashboard: DashboardData = {
-        contactCounts: { lead: 10, prospect: 5, customer: 3, total: 18 },
+        contactCounts: { lead: 10, prospect: 5, customer: 3, lost: 0, total: 18 },
         activityCount: 25,
         recentActivities: [],
       };
@@ -307,6 +423,17 @@ describe('API Client', () => {
       expect(result.success).toBe(true);
       expect(result.data).toEqual(mockDashboard);
     });
+
+    it('does not cache a failed response, so the next call asks again', async () => {
+      mockFetch.mockImplementation(() => Promise.resolve({ ok: false, status: 401, statusText: 'Unauthorized' }));
+
+      const first = await getDashboard('api-key');
+      expect(first.success).toBe(false);
+      expect(getCacheStatus(CACHE_KEYS.DASHBOARD)).toMatchObject({ inMemory: false, inStorage: false });
+
+      await getDashboard('api-key');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe('getContactDetails', () => {
@@ -322,7 +449,7 @@ describe('API Client', () => {
             contactId: '123',
             type: 'call',
             description: 'Initial call',
-            timestamp: '2024-01-01T10:00:00Z',
+            timestamp: '2024-01-01T10:00:00.000Z',
           },
         ],
       };
@@ -361,6 +488,157 @@ describe('API Client', () => {
     });
   });
 
+  describe('updateContact', () => {
+    const original: Contact = { id: 'c1', name: 'Ann', email: 'ann@acme.com', company: 'Acme', status: 'lead' };
+    const updated: Contact = { id: 'c1', name: 'Ann Lee', email: 'ann@acme.com', status: 'customer' };
+    const activity: Activity = {
+      id: 'a1',
+      contactId: 'c1',
+      type: 'call',
+      description: 'Intro',
+      timestamp: '2024-01-01T10:00:00.000Z',
+    };
+
+    function respondWith(data: unknown) {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(createScoutResponse(data)) });
+    }
+
+    it('sends only the changes and returns the updated contact', async () => {
+      respondWith(updated);
+
+      const result = await updateContact('api-key', 'c1', { name: 'Ann Lee', company: '', status: 'customer' });
+
+      expect(result.data).toEqual(updated);
+      const { inputs } = JSON.parse(mockFetch.mock.calls[0][1].body);
+      // A contact that is not lost has no loss reason
+      expect(inputs.intent.args).toEqual({
+        contactId: 'c1',
+        changes: { name: 'Ann Lee', company: '', status: 'customer', lossReason: '' },
+      });
+    });
+
+    it('sends nothing when nothing changed', async () => {
+      const result = await updateContact('api-key', 'c1', {});
+
+      expect(result.success).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('replaces the contact in the cached list and details, keeping its activities', async () => {
+      respondWith([original]);
+      respondWith({ ...original, activities: [activity] });
+      await listContacts('api-key');
+      await getContactDetails('api-key', 'c1');
+
+      respondWith(updated);
+      await updateContact('api-key', 'c1', { name: 'Ann Lee', company: '', status: 'customer' });
+      const list = await listContacts('api-key');
+      const details = await getContactDetails('api-key', 'c1');
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(list.data).toEqual([updated]);
+      expect(details.data).toEqual({ ...updated, activities: [activity] });
+    });
+
+    it('drops the cached dashboard only when the status changed', async () => {
+      respondWith({ contactCounts: { lead: 1, prospect: 0, customer: 0, total: 1 }, activityCount: 0, recentActivities: [] });
+      await getDashboard('api-key');
+
+      respondWith({ ...updated, status: 'lead' });
+      await updateContact('api-key', 'c1', { name: 'Ann Lee' });
+      expect(getCacheStatus(CACHE_KEYS.DASHBOARD).inMemory).toBe(true);
+
+      respondWith(updated);
+      await updateContact('api-key', 'c1', { status: 'customer' });
+      expect(getCacheStatus(CACHE_KEYS.DASHBOARD).inMemory).toBe(false);
+    });
+  });
+
+  describe('updateContactStatus', () => {
+    it('updates the status in the cached list and drops the cached dashboard', async () => {
+      const contact: Contact = { id: 'c1', name: 'Ann', email: 'ann@acme.com', status: 'lead' };
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(createScoutResponse([contact])) });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve(
+            createScoutResponse({ contactCounts: { lead: 1, prospect: 0, customer: 0, total: 1 }, activityCount: 0, recentActivities: [] })
+          ),
+      });
+      await listContacts('api-key');
+      await getDashboard('api-key');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(createScoutResponse({ id: 'c1', status: 'prospect' })),
+      });
+      const result = await updateContactStatus('api-key', 'c1', 'prospect');
+      const list = await listContacts('api-key');
+
+      expect(result.data).toEqual({ id: 'c1', status: 'prospect' });
+      expect(list.data).toEqual([{ ...contact, status: 'prospect' }]);
+      expect(getCacheStatus(CACHE_KEYS.DASHBOARD).inMemory).toBe(false);
+    });
+
+    it('sends the loss reason and keeps it in the cached list', async () => {
+      const contact: Contact = { id: 'c1', name: 'Ann', email: 'ann@acme.com', status: 'prospect' };
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(createScoutResponse([contact])) });
+      await listContacts('api-key');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(createScoutResponse({ id: 'c1', status: 'lost', lossReason: 'No budget' })),
+      });
+      await updateContactStatus('api-key', 'c1', 'lost', 'No budget');
+      const list = await listContacts('api-key');
+
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).inputs.intent.args).toEqual({
+        contactId: 'c1',
+        status: 'lost',
+        lossReason: 'No budget',
+      });
+      expect(list.data).toEqual([{ ...contact, status: 'lost', lossReason: 'No budget' }]);
+    });
+
+    it('clears the loss reason when the contact leaves a lost stage', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(createScoutResponse({ id: 'c1', status: 'prospect' })),
+      });
+      await updateContactStatus('api-key', 'c1', 'prospect', 'Ignored');
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).inputs.intent.args).toEqual({
+        contactId: 'c1',
+        status: 'prospect',
+        lossReason: '',
+      });
+    });
+  });
+
+  describe('deleteContact', () => {
+    it('removes the contact from the cached list and drops its details and the dashboard', async () => {
+      const kept: Contact = { id: 'c2', name: 'Bo', email: 'bo@acme.com', status: 'lead' };
+      const deleted: ContactWithActivities = { id: 'c1', name: 'Ann', email: 'ann@acme.com', status: 'lead', activities: [] };
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(createScoutResponse([deleted, kept])) });
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(createScoutResponse(deleted)) });
+      await listContacts('api-key');
+      await getContactDetails('api-key', 'c1');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(createScoutResponse({ id: 'c1', activitiesDeleted: 0 })),
+      });
+      const result = await deleteContact('api-key', 'c1');
+      const list = await listContacts('api-key');
+
+      expect(result.data).toEqual({ id: 'c1', activitiesDeleted: 0 });
+      expect(list.data).toEqual([kept]);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(getCacheStatus(CACHE_KEYS.CONTACT_DETAIL('c1')).inMemory).toBe(false);
+      expect(getCacheStatus(CACHE_KEYS.DASHBOARD).inMemory).toBe(false);
+    });
+  });
+
   describe('logActivity', () => {
     it('logs activity and returns result', async () => {
       const newActivity: Activity = {
@@ -369,7 +647,7 @@ describe('API Client', () => {
         type: 'call',
         description: 'Discovery call',
         outcome: 'Interested',
-        timestamp: '2024-01-15T14:30:00Z',
+        timestamp: '2024-01-15T14:30:00.000Z',
       };
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -387,4 +665,72 @@ describe('API Client', () => {
       expect(result.data).toEqual(newActivity);
     });
   });
+
+  describe('request cancellation', () => {
+    /** fetch that never settles until its signal aborts */
+    function hangingFetch() {
+      mockFetch.mockImplementation((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () =>
+            reject(new DOMException('The operation was aborted.', 'AbortError'))
+          );
+        })
+      );
+    }
+
+    it('executeCommand reports cancellation without retrying', async () => {
+      hangingFetch();
+      const controller = new AbortController();
+
+      const promise = executeCommand('api-key', 'COMMAND', { signal: controller.signal });
+      controller.abort();
+      const result = await promise;
+
+      expect(result).toEqual({
+        success: false,
+        error: { kind: 'cancelled', message: 'Request cancelled', retryable: false },
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('getContactDetails aborts the network request when its caller cancels', async () => {
+      hangingFetch();
+      const controller = new AbortController();
+
+      const promise = getContactDetails('api-key', 'contact-1', { signal: controller.signal });
+      await Promise.resolve();
+      controller.abort();
+      const result = await promise;
+
+      expect(result.success).toBe(false);
+      expect(result.error?.kind).toBe('cancelled');
+      const init = mockFetch.mock.calls[0][1] as RequestInit;
+      expect(init.signal?.aborted).toBe(true);
+    });
+
+    it('a superseded contact request does not affect the next one', async () => {
+      const contact: ContactWithActivities = {
+        id: 'contact-2',
+        name: 'Second',
+        email: 'second@test.com',
+        status: 'lead',
+        activities: [],
+      };
+      hangingFetch();
+      const first = new AbortController();
+      const firstPromise = getContactDetails('api-key', 'contact-1', { signal: first.signal });
+      first.abort();
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(createScoutResponse(contact)),
+      });
+      const second = await getContactDetails('api-key', 'contact-2', {
+        signal: new AbortController().signal,
+      });
+
+      expect((await firstPromise).error?.kind).toBe('cancelled');
+      expect(second.data).toEqual(contact);
+    });
+  });
 });
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { get } from 'svelte/store';
+import { createApiError, errorKindForStatus, httpError, isCancelled, cancelledResponse } from '../errors';
+import { executeCommand } from '../client';
+import { error, setError, clearError } from '../../stores/ui';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+describe('API error taxonomy', () => {
+  it('classifies HTTP statuses', () => {
+    expect(errorKindForStatus(401)).toBe('auth');
+    expect(errorKindForStatus(403)).toBe('auth');
+    expect(errorKindForStatus(429)).toBe('rate_limited');
+    expect(errorKindForStatus(500)).toBe('workflow_failed');
+  });
+
+  it('only marks rate limiting and server failures as retryable HTTP errors', () => {
+    expect(httpError(401).retryable).toBe(false);
+    expect(httpError(400).retryable).toBe(false);
+    expect(httpError(429).retryable).toBe(true);
+    expect(httpError(503)).toMatchObject({ kind: 'workflow_failed', status: 503, retryable: true });
+  });
+
+  it('gives each kind a user-facing message and keeps technical detail separate', () => {
+    const err = createApiError('parse_error', 'Unexpected token < in JSON');
+
+    expect(err.message).not.toContain('Unexpected token');
+    expect(err.detail).toBe('Unexpected token < in JSON');
+    expect(err.retryable).toBe(true);
+  });
+
+  it('recognises cancelled responses', () => {
+    expect(isCancelled(cancelledResponse())).toBe(true);
+    expect(isCancelled({ success: false, error: createApiError('timeout') })).toBe(false);
+  });
+});
+
+describe('executeCommand error kinds', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('reports a rejected API key as an auth error', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      json: () => Promise.resolve({ detail: 'Invalid API key' }),
+    });
+
+    const result = await executeCommand('bad-key', 'COMMAND');
+
+    expect(result.error?.kind).toBe('auth');
+    expect(result.error?.message).toBe('Invalid API key. Please check your credentials.');
+  });
+
+  it('distinguishes an unparseable reply from an auth failure', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ run: { state: { agent_message: { output: 'Sorry, I cannot help.' } } } }),
+    });
+
+    const result = await executeCommand('key', 'COMMAND');
+
+    expect(result.error?.kind).toBe('parse_error');
+  });
+});
+
+describe('error toast', () => {
+  beforeEach(() => {
+    clearError();
+  });
+
+  it('shows the user-facing message and retryability of an API error', () => {
+    setError(createApiError('timeout', 'Request timed out after 45s'), 0);
+
+    expect(get(error)).toEqual({ message: 'The CRM service took too long to respond.', retryable: true });
+  });
+
+  it('ignores cancelled requests', () => {
+    setError(createApiError('cancelled'), 0);
+
+    expect(get(error)).toBeNull();
+  });
+
+  it('still accepts plain messages', () => {
+    setError('Failed to load contacts', 0);
+
+    expect(get(error)).toEqual({ message: 'Failed to load contacts', retryable: false });
+  });
+});
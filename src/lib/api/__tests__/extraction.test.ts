@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { extractJson } from '../extraction';
+import { executeCommand } from '../scout';
+import { ScoutBackend } from '../backends';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+function runWithOutput(output: string) {
+  return {
+    ok: true,
+    json: () => Promise.resolve({ run: { state: { agent_message: { output } } } }),
+  };
+}
+
+describe('extractJson', () => {
+  it('parses clean output without repairs', () => {
+    expect(extractJson('{"id": "1"}')).toEqual({ data: { id: '1' }, repairs: [] });
+    expect(extractJson('```json\n[{"id": "1"}]\n```')).toEqual({ data: [{ id: '1' }], repairs: [] });
+  });
+
+  it('finds JSON surrounded by prose', () => {
+    const result = extractJson('Sure! Here are the contacts: [{"id": "1"}] Let me know if you need more.');
+
+    expect(result?.data).toEqual([{ id: '1' }]);
+    expect(result?.repairs).toEqual(['extracted_from_prose']);
+  });
+
+  it('ignores bracketed prose that is not JSON', () => {
+    const result = extractJson('Results [as requested]: {"contacts": []}');
+
+    expect(result?.data).toEqual({ contacts: [] });
+  });
+
+  it('picks the largest valid block when there are several', () => {
+    const output = [
+      'The format is:',
+      '```json\n{"id": "example"}\n```',
+      'And the result:',
+      '```json\n{"id": "c1", "name": "Ann", "email": "ann@acme.com"}\n```',
+    ].join('\n');
+
+    const result = extractJson(output);
+
+    expect(result?.data).toEqual({ id: 'c1', name: 'Ann', email: 'ann@acme.com' });
+    expect(result?.repairs).toEqual(['selected_block']);
+  });
+
+  it('skips an invalid block in favour of a valid one', () => {
+    const output = '```\nnot json at all, sorry\n```\n```json\n{"ok": true}\n```';
+
+    expect(extractJson(output)?.data).toEqual({ ok: true });
+  });
+
+  it('removes trailing commas', () => {
+    const result = extractJson('{"tags": ["a", "b",], "id": "1",}');
+
+    expect(result?.data).toEqual({ tags: ['a', 'b'], id: '1' });
+    expect(result?.repairs).toEqual(['removed_trailing_commas']);
+  });
+
+  it('removes line and block comments', () => {
+    const result = extractJson('{\n  // the contact\n  "id": "1", /* primary */\n  "url": "https://acme.com"\n}');
+
+    expect(result?.data).toEqual({ id: '1', url: 'https://acme.com' });
+    expect(result?.repairs).toEqual(['removed_comments']);
+  });
+
+  it('converts single-quoted strings', () => {
+    const result = extractJson(`{'name': 'O\\'Brien', 'quote': 'say "hi"'}`);
+
+    expect(result?.data).toEqual({ name: "O'Brien", quote: 'say "hi"' });
+    expect(result?.repairs).toEqual(['converted_single_quotes']);
+  });
+
+  it('quotes bare keys but leaves literals alone', () => {
+    const result = extractJson('{id: "1", active: true, tags: [null, false]}');
+
+    expect(result?.data).toEqual({ id: '1', active: true, tags: [null, false] });
+    expect(result?.repairs).toEqual(['quoted_keys']);
+  });
+
+  it('does not touch look-alike text inside strings', () => {
+    const text = '{"note": "a, } // not a comment, \'quoted\'", "n": 1}';
+
+    expect(extractJson(text)).toEqual({ data: JSON.parse(text), repairs: [] });
+  });
+
+  it('salvages complete items from a truncated array', () => {
+    const result = extractJson('```json\n{"contacts": [{"id": "1"}, {"id": "2"}, {"id": "3", "na');
+
+    expect(result?.data).toEqual({ contacts: [{ id: '1' }, { id: '2' }] });
+    expect(result?.repairs).toContain('salvaged_truncated');
+  });
+
+  it('salvages a truncated top-level array', () => {
+    const result = extractJson('[{"id": "1"},\n{"id": "2"},\n{"id"');
+
+    expect(result?.data).toEqual([{ id: '1' }, { id: '2' }]);
+  });
+
+  it('combines several repairs', () => {
+    const result = extractJson("Here you go:\n{contacts: [{'id': '1',},], // done\n}");
+
+    expect(result?.data).toEqual({ contacts: [{ id: '1' }] });
+    expect(result?.repairs).toEqual(
+      expect.arrayContaining([
+        'extracted_from_prose',
+        'quoted_keys',
+        'converted_single_quotes',
+        'removed_trailing_commas',
+        'removed_comments',
+      ])
+    );
+  });
+
+  it('returns null when nothing usable is found', () => {
+    expect(extractJson('I could not find any contacts.')).toBeNull();
+    expect(extractJson('{"id": "1", "na')).toBeNull();
+    expect(extractJson('42')).toBeNull();
+  });
+});
+
+describe('repaired responses', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('records repairs in the response metadata', async () => {
+    mockFetch.mockResolvedValueOnce(runWithOutput('Found one:\n```json\n{"id": "1",}\n```'));
+
+    const result = await executeCommand<{ id: string }>('api-key', 'COMMAND');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ id: '1' });
+    expect(result.meta?.repairs).toEqual(['removed_trailing_commas']);
+  });
+
+  it('omits metadata when the output was clean', async () => {
+    mockFetch.mockResolvedValueOnce(runWithOutput('```json\n{"id": "1"}\n```'));
+
+    const result = await executeCommand('api-key', 'COMMAND');
+
+    expect(result.meta).toBeUndefined();
+  });
+
+  it('keeps the metadata through backend validation', async () => {
+    mockFetch.mockResolvedValueOnce(
+      runWithOutput(
+        '{"contacts": [{"id": "c1", "name": "Ann", "email": "ann@acme.com", "status": "lead"}, {"id": "c2", "name": "B'
+      )
+    );
+
+    const result = await new ScoutBackend({ streaming: false }).listContacts('api-key');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toHaveLength(1);
+    expect(result.meta?.repairs).toEqual(['salvaged_truncated']);
+    expect(result.meta?.partial).toBe(true);
+  });
+});
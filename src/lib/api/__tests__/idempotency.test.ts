@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PendingMutations, mayHaveCompleted, pendingMutations } from '../idempotency';
+import { LocalBackend, type RequestOptions } from '../backends';
+import { errorResponse, httpError, createApiError } from '../errors';
+import {
+  clearAllCaches,
+  createContact,
+  deleteContact,
+  logActivity,
+  logActivityAndRefresh,
+  selectBackend,
+} from '../client';
+import type { ApiResponse, Contact, ContactDeletion, CreateContactData, LogActivityData, Activity } from '../../types';
+
+describe('PendingMutations', () => {
+  const contact = { name: 'Ann', email: 'ann@acme.com' };
+
+  it('reuses the key of a pending mutation with the same input', () => {
+    const pending = new PendingMutations({ storageKey: null });
+
+    const first = pending.begin('createContact', contact);
+    const retry = pending.begin('createContact', { email: 'ann@acme.com', name: 'Ann', company: '' });
+    const other = pending.begin('createContact', { ...contact, name: 'Bob' });
+
+    expect(retry.key).toBe(first.key);
+    expect(other.key).not.toBe(first.key);
+    expect(pending.list()).toHaveLength(2);
+  });
+
+  it('gives the same input a new key once the mutation succeeded', () => {
+    const pending = new PendingMutations({ storageKey: null });
+
+    const first = pending.begin('createContact', contact);
+    pending.settle(first.key);
+
+    expect(pending.list()).toEqual([]);
+    expect(pending.begin('createContact', contact).key).not.toBe(first.key);
+  });
+
+  it('keeps a key set by the caller', () => {
+    const pending = new PendingMutations({ storageKey: null });
+
+    expect(pending.begin('logActivity', { contactId: 'c1', type: 'note', description: 'x', idempotencyKey: 'mine' }).key).toBe('mine');
+  });
+
+  it('forgets mutations older than the maximum age', () => {
+    vi.useFakeTimers();
+    const pending = new PendingMutations({ storageKey: null, maxAgeMs: 1000 });
+    const first = pending.begin('createContact', contact);
+
+    vi.advanceTimersByTime(1001);
+
+    expect(pending.list()).toEqual([]);
+    expect(pending.begin('createContact', contact).key).not.toBe(first.key);
+    vi.useRealTimers();
+  });
+
+  it('survives a reload when persisted', () => {
+    const first = new PendingMutations({ storageKey: 'test_pending' }).begin('createContact', contact);
+
+    expect(new PendingMutations({ storageKey: 'test_pending' }).list()).toEqual([first]);
+    localStorage.removeItem('test_pending');
+  });
+});
+
+describe('mayHaveCompleted', () => {
+  it('is true for failures after the request may have been carried out', () => {
+    expect(mayHaveCompleted(createApiError('timeout'))).toBe(true);
+    expect(mayHaveCompleted(createApiError('parse_error'))).toBe(true);
+    expect(mayHaveCompleted(httpError(502))).toBe(true);
+  });
+
+  it('is false for requests rejected before they ran', () => {
+    expect(mayHaveCompleted(createApiError('auth'))).toBe(false);
+    expect(mayHaveCompleted(createApiError('cancelled'))).toBe(false);
+    expect(mayHaveCompleted(httpError(400))).toBe(false);
+    expect(mayHaveCompleted(undefined)).toBe(false);
+  });
+});
+
+/**
+ * A backend whose mutations are carried out but whose replies are lost
+ */
+class LossyBackend extends LocalBackend {
+  readonly sent: Array<{ idempotencyKey?: string }> = [];
+  lose = true;
+
+  async createContact(apiKey: string, data: CreateContactData, options?: RequestOptions): Promise<ApiResponse<Contact>> {
+    this.sent.push(data);
+    const response = await super.createContact(apiKey, data, options);
+    return this.lose ? errorResponse('timeout') : response;
+  }
+
+  async logActivity(apiKey: string, data: LogActivityData, options?: RequestOptions): Promise<ApiResponse<Activity>> {
+    this.sent.push(data);
+    const response = await super.logActivity(apiKey, data, options);
+    return this.lose ? errorResponse('timeout') : response;
+  }
+
+  async deleteContact(apiKey: string, contactId: string, options?: RequestOptions): Promise<ApiResponse<ContactDeletion>> {
+    const response = await super.deleteContact(apiKey, contactId, options);
+    if (!this.lose) return response;
+    // The reply is lost, so the delete is sent again and finds nothing to delete
+    const retry = await super.deleteContact(apiKey, contactId, options);
+    options?.onExchange?.({ url: '', body: '', stream: false, attempt: 2, durationMs: 0, response: retry });
+    return retry;
+  }
+}
+
+describe('reconciling lost mutations', () => {
+  const seed = { contacts: [{ id: 'c1', name: 'John Doe', email: 'john@acme.com', status: 'lead' as const }], activities: [] };
+  let backend: LossyBackend;
+
+  beforeEach(() => {
+    backend = new LossyBackend({ storageKey: null, seed });
+    selectBackend(backend);
+    clearAllCaches();
+    pendingMutations.clear();
+  });
+
+  afterEach(() => {
+    selectBackend('scout');
+  });
+
+  it('sends each mutation with an idempotency key and forgets it on success', async () => {
+    backend.lose = false;
+
+    await createContact('api-key', { name: 'Ann', email: 'ann@acme.com' });
+
+    expect(backend.sent[0].idempotencyKey).toBeTruthy();
+    expect(pendingMutations.list()).toEqual([]);
+  });
+
+  it('finds the contact a lost request created instead of reporting a failure', async () => {
+    const result = await createContact('api-key', { name: 'Ann', email: 'ann@acme.com' });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ name: 'Ann', email: 'ann@acme.com' });
+    expect(result.meta?.reconciled).toBe(true);
+    expect(pendingMutations.list()).toEqual([]);
+  });
+
+  it('finds the activity a lost request logged', async () => {
+    const result = await logActivity('api-key', { contactId: 'c1', type: 'call', description: 'Intro' });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ contactId: 'c1', type: 'call', description: 'Intro' });
+    expect(result.meta?.reconciled).toBe(true);
+  });
+
+  it('finds the activity in the details refreshed by the same batch', async () => {
+    const details = vi.spyOn(backend, 'getContactDetails');
+
+    const { activity } = await logActivityAndRefresh('api-key', { contactId: 'c1', type: 'note', description: 'Met' });
+
+    expect(activity.success).toBe(true);
+    expect(activity.meta?.reconciled).toBe(true);
+    expect(details).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts a contact that a retried delete no longer finds as deleted', async () => {
+    const result = await deleteContact('api-key', 'c1');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ id: 'c1', activitiesDeleted: 0 });
+    expect(result.meta?.reconciled).toBe(true);
+  });
+
+  it('reports a missing contact when the delete was not retried', async () => {
+    backend.lose = false;
+    const list = vi.spyOn(backend, 'listContacts');
+
+    const result = await deleteContact('api-key', 'nobody');
+
+    expect(result.error?.kind).toBe('not_found');
+    expect(list).not.toHaveBeenCalled();
+  });
+
+  it('keeps the key for a retry when nothing was saved', async () => {
+    vi.spyOn(LocalBackend.prototype, 'createContact').mockResolvedValue(errorResponse('timeout'));
+
+    const failed = await createContact('api-key', { name: 'Ann', email: 'ann@acme.com' });
+    await createContact('api-key', { name: 'Ann', email: 'ann@acme.com' });
+
+    expect(failed.error?.kind).toBe('timeout');
+    expect(pendingMutations.list()).toHaveLength(1);
+    expect(backend.sent[1].idempotencyKey).toBe(backend.sent[0].idempotencyKey);
+    vi.restoreAllMocks();
+  });
+
+  it('does not look for a record after a request that was rejected', async () => {
+    backend.lose = false;
+    vi.spyOn(LocalBackend.prototype, 'createContact').mockResolvedValue(errorResponse('auth'));
+    const search = vi.spyOn(backend, 'searchContacts');
+
+    const result = await createContact('api-key', { name: 'Ann', email: 'ann@acme.com' });
+
+    expect(result.error?.kind).toBe('auth');
+    expect(search).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+});
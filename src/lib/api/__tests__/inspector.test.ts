@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { TrafficInspector, trafficInspector, promptOf, templateOf, toCurl } from '../inspector';
+import { clearAllCaches, getContactDetails, listContacts } from '../client';
+import type { WorkflowExchange } from '../scout';
+import type { TrafficEntry } from '../inspector';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+function runWithData(data: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    json: () =>
+      Promise.resolve({ run: { state: { agent_message: { output: '```json\n' + JSON.stringify(data) + '\n```' } } } }),
+  };
+}
+
+const exchange: WorkflowExchange = {
+  url: 'https://api.scout.test/v2/workflows/wf_1/execute',
+  body: JSON.stringify({ inputs: { message: "List everyone's contacts" }, stream: false }),
+  stream: false,
+  attempt: 1,
+  status: 200,
+  durationMs: 12,
+  response: { success: true, data: [] },
+};
+
+describe('TrafficInspector', () => {
+  it('records a call with its exchanges, source and result', () => {
+    const inspector = new TrafficInspector(100, true);
+    const trace = inspector.begin('getContactDetails', { contactId: 'c1' });
+    trace.exchange(exchange);
+    const result = { success: true, data: { id: 'c1' } };
+
+    expect(trace.finish(result, 'network')).toBe(result);
+
+    const [entry] = inspector.getEntries();
+    expect(entry).toMatchObject({
+      operation: 'getContactDetails',
+      args: { contactId: 'c1' },
+      source: 'network',
+      exchanges: [exchange],
+      result,
+    });
+    expect(entry.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('keeps the newest calls up to its limit', () => {
+    const inspector = new TrafficInspector(2, true);
+    inspector.begin('listContacts');
+    inspector.begin('getDashboard');
+    inspector.begin('searchContacts', { query: 'acme' });
+
+    expect(inspector.getEntries().map((entry) => entry.operation)).toEqual(['searchContacts', 'getDashboard']);
+  });
+
+  it('does not bring back a cleared call that finishes later', () => {
+    const inspector = new TrafficInspector(100, true);
+    const trace = inspector.begin('listContacts');
+    inspector.clear();
+    trace.finish({ success: true, data: [] });
+
+    expect(inspector.getEntries()).toEqual([]);
+  });
+
+  it('notifies subscribers immediately and on every change', () => {
+    const inspector = new TrafficInspector(100, true);
+    const seen: TrafficEntry[][] = [];
+    const unsubscribe = inspector.subscribe((entries) => seen.push(entries));
+
+    inspector.begin('listContacts').finish({ success: true, data: [] });
+    unsubscribe();
+    inspector.clear();
+
+    expect(seen.map((entries) => entries.length)).toEqual([0, 1, 1]);
+  });
+
+  it('records nothing when disabled', () => {
+    const inspector = new TrafficInspector(100, false);
+    const trace = inspector.begin('listContacts');
+    trace.exchange(exchange);
+    const result = { success: true, data: [] };
+
+    expect(trace.finish(result)).toBe(result);
+    expect(inspector.getEntries()).toEqual([]);
+  });
+});
+
+describe('promptOf', () => {
+  it('reads the message from the request body', () => {
+    expect(promptOf(exchange)).toBe("List everyone's contacts");
+  });
+
+  it('returns an empty string for an unreadable body', () => {
+    expect(promptOf({ ...exchange, body: 'not json' })).toBe('');
+  });
+});
+
+describe('templateOf', () => {
+  it('names the prompt template recorded in the intent', () => {
+    const body = JSON.stringify({ inputs: { message: 'x', intent: { prompt: { name: 'listContacts', version: 2 } } } });
+
+    expect(templateOf({ ...exchange, body })).toBe('listContacts v2');
+  });
+
+  it('returns an empty string when no template was recorded', () => {
+    expect(templateOf(exchange)).toBe('');
+  });
+});
+
+describe('toCurl', () => {
+  it('reproduces the request without the API key', () => {
+    expect(toCurl(exchange)).toBe(
+      [
+        "curl -X POST 'https://api.scout.test/v2/workflows/wf_1/execute'",
+        "  -H 'Content-Type: application/json'",
+        '  -H "Authorization: Bearer $SCOUT_API_KEY"',
+        `  --data-raw '{"inputs":{"message":"List everyone'\\''s contacts"},"stream":false}'`,
+      ].join(' \\\n')
+    );
+  });
+
+  it('asks for an event stream for streamed exchanges', () => {
+    expect(toCurl({ ...exchange, stream: true })).toContain("-H 'Accept: text/event-stream'");
+  });
+});
+
+describe('client recording', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    clearAllCaches();
+    trafficInspector.enabled = true;
+    trafficInspector.clear();
+  });
+
+  it('records the exchange behind a network call and the cache tier of a repeat', async () => {
+    mockFetch.mockResolvedValueOnce(runWithData([{ id: 'c1', name: 'Ann', email: 'ann@acme.com', status: 'lead' }]));
+
+    await listContacts('api-key');
+    await listContacts('api-key');
+
+    const [repeat, first] = trafficInspector.getEntries();
+    expect(first.source).toBe('network');
+    expect(first.exchanges).toHaveLength(1);
+    expect(promptOf(first.exchanges[0])).toContain('contact');
+    expect(first.exchanges[0].response.rawResponse).toBeDefined();
+    expect(repeat.source).toBe('memory');
+    expect(repeat.exchanges).toEqual([]);
+  });
+
+  it('records failed calls with their arguments', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 401, text: () => Promise.resolve('Unauthorized') });
+
+    await getContactDetails('api-key', 'c9', { forceRefresh: true });
+
+    const [entry] = trafficInspector.getEntries();
+    expect(entry.args).toEqual({ contactId: 'c9' });
+    expect(entry.result?.success).toBe(false);
+    expect(entry.exchanges[0].status).toBe(401);
+  });
+});
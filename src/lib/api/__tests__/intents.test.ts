@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createIntent, verifyResponse, verifySchema, INTENT_VERSION, RESPONSE_SCHEMAS } from '../intents';
+import { executeCommand } from '../scout';
+import { ScoutBackend } from '../backends';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+function runWithData(data: unknown) {
+  return {
+    ok: true,
+    json: () =>
+      Promise.resolve({ run: { state: { agent_message: { output: '```json\n' + JSON.stringify(data) + '\n```' } } } }),
+  };
+}
+
+/** The JSON body of the nth fetch call */
+function sentBody(call = 0) {
+  return JSON.parse(mockFetch.mock.calls[call][1].body);
+}
+
+describe('createIntent', () => {
+  it('bundles the operation, its arguments and the response schema', () => {
+    const intent = createIntent('updateContactStatus', { contactId: 'c1', status: 'customer' });
+
+    expect(intent).toEqual({
+      version: INTENT_VERSION,
+      operation: 'updateContactStatus',
+      args: { contactId: 'c1', status: 'customer' },
+      responseSchema: RESPONSE_SCHEMAS.updateContactStatus,
+    });
+  });
+
+  it('declares a schema for every operation', () => {
+    expect(Object.keys(RESPONSE_SCHEMAS).sort()).toEqual([
+      'createContact',
+      'deleteContact',
+      'getContactDetails',
+      'getDashboard',
+      'listContacts',
+      'listContactsPage',
+      'logActivity',
+      'searchContacts',
+      'updateContact',
+      'updateContactStatus',
+    ]);
+  });
+});
+
+describe('verifySchema', () => {
+  const contact = { id: 'c1', name: 'Ann', email: 'ann@acme.com', status: 'lead' };
+
+  it('accepts matching data', () => {
+    expect(verifySchema(contact, RESPONSE_SCHEMAS.createContact)).toEqual([]);
+    expect(verifySchema({ ...contact, activities: [] }, RESPONSE_SCHEMAS.getContactDetails)).toEqual([]);
+  });
+
+  it('reports the wrong top-level type', () => {
+    expect(verifySchema({ contacts: [] }, RESPONSE_SCHEMAS.listContacts)).toEqual([
+      { path: '(root)', message: 'expected array, got object' },
+    ]);
+  });
+
+  it('reports missing required fields and wrong enum values', () => {
+    expect(verifySchema({ id: 'c1', status: 'martian' }, RESPONSE_SCHEMAS.updateContactStatus)).toEqual([
+      { path: 'status', message: 'must be one of lead, prospect, customer, lost (got "martian")' },
+    ]);
+    expect(verifySchema({ status: 'lead' }, RESPONSE_SCHEMAS.updateContactStatus)).toEqual([
+      { path: 'id', message: 'is required' },
+    ]);
+  });
+
+  it('checks nested objects', () => {
+    const issues = verifySchema(
+      { contactCounts: { lead: 1, prospect: 'many', customer: '2' }, activityCount: 0 },
+      RESPONSE_SCHEMAS.getDashboard
+    );
+
+    expect(issues).toEqual([{ path: 'contactCounts.prospect', message: 'expected integer, got string' }]);
+  });
+
+  it('leaves array items to the validators', () => {
+    expect(verifySchema([{ name: 'No id' }, 'junk'], RESPONSE_SCHEMAS.listContacts)).toEqual([]);
+  });
+
+  it('accepts values the validators coerce', () => {
+    expect(verifySchema({ ...contact, phone: 5551234 }, RESPONSE_SCHEMAS.createContact)).toEqual([]);
+  });
+});
+
+describe('verifyResponse', () => {
+  it('passes failures and matching data through', () => {
+    const intent = createIntent('listContacts', {});
+    const failed = { success: false };
+    const ok = { success: true, data: [] };
+
+    expect(verifyResponse(failed, intent)).toBe(failed);
+    expect(verifyResponse(ok, intent)).toBe(ok);
+  });
+
+  it('turns a mismatch into a validation error', () => {
+    const result = verifyResponse({ success: true, data: { ok: true } }, createIntent('listContacts', {}));
+
+    expect(result.success).toBe(false);
+    expect(result.error?.kind).toBe('validation_error');
+    expect(result.error?.detail).toContain('listContacts schema');
+    expect(result.validationErrors).toEqual([{ path: '(root)', message: 'expected array, got object' }]);
+  });
+});
+
+describe('intent envelope on the wire', () => {
+  const backend = new ScoutBackend({ retry: false, streaming: false });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('is sent alongside the message', async () => {
+    mockFetch.mockResolvedValueOnce(runWithData({ id: 'c1', status: 'customer' }));
+
+    await backend.updateContactStatus('api-key', 'c1', 'customer');
+
+    const { inputs } = sentBody();
+    expect(typeof inputs.message).toBe('string');
+    expect(inputs.intent).toEqual(
+      createIntent(
+        'updateContactStatus',
+        { contactId: 'c1', status: 'customer' },
+        { name: 'updateContactStatus', version: 3 }
+      )
+    );
+  });
+
+  it('carries typed arguments for every operation', async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(runWithData({})));
+
+    await backend.listContacts('api-key');
+    await backend.getContactDetails('api-key', 'c1');
+    await backend.createContact('api-key', { name: 'Ann', email: 'ann@acme.com' });
+    await backend.logActivity('api-key', { contactId: 'c1', type: 'call', description: 'Intro' });
+    await backend.getDashboard('api-key');
+    await backend.searchContacts('api-key', 'acme');
+
+    expect(mockFetch.mock.calls.map((_, i) => [sentBody(i).inputs.intent.operation, sentBody(i).inputs.intent.args])).toEqual([
+      ['listContacts', {}],
+      ['getContactDetails', { contactId: 'c1' }],
+      ['createContact', { name: 'Ann', email: 'ann@acme.com' }],
+      ['logActivity', { contactId: 'c1', type: 'call', description: 'Intro' }],
+      [
+        'getDashboard',
+        {
+          activityLimit: 5,
+          stages: ['lead', 'prospect', 'customer', 'lost'].map((id) => ({ id, aliases: [] })),
+        },
+      ],
+      ['searchContacts', { query: 'acme' }],
+    ]);
+  });
+
+  it('is omitted when a command is sent without one', async () => {
+    mockFetch.mockResolvedValueOnce(runWithData({ id: 'c1' }));
+
+    await executeCommand('api-key', 'COMMAND');
+
+    expect(sentBody().inputs).toEqual({ message: 'COMMAND' });
+  });
+
+  it('rejects a reply that does not match the declared schema', async () => {
+    mockFetch.mockResolvedValueOnce(runWithData({ success: true }));
+
+    const result = await backend.updateContactStatus('api-key', 'c1', 'customer');
+
+    expect(result.success).toBe(false);
+    expect(result.error?.kind).toBe('validation_error');
+    expect(result.validationErrors).toEqual([
+      { path: 'id', message: 'is required' },
+      { path: 'status', message: 'is required' },
+    ]);
+  });
+
+  it('checks the normalized reply, so aliases and synonyms still match', async () => {
+    mockFetch.mockResolvedValueOnce(runWithData({ contact_id: 'c1', status: 'Client' }));
+
+    const result = await backend.updateContactStatus('api-key', 'c1', 'customer');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ id: 'c1', status: 'customer' });
+  });
+
+  it('fills the contact of a logged activity before checking it', async () => {
+    mockFetch.mockResolvedValueOnce(
+      runWithData({ id: 'a1', type: 'call', description: 'Intro', timestamp: '2024-01-15T10:30:00Z' })
+    );
+
+    const result = await backend.logActivity('api-key', { contactId: 'c1', type: 'call', description: 'Intro' });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.contactId).toBe('c1');
+  });
+});
@@ -0,0 +1,304 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  contactPageNormalizerFor,
+  normalizeActivity,
+  normalizeActivityType,
+  normalizeContact,
+  normalizeContactList,
+  normalizeContactWithActivities,
+  normalizeDashboardData,
+  normalizeResponse,
+  normalizeStatus,
+  normalizeTimestamp
+} from '../normalize';
+import { ScoutBackend } from '../backends';
+import { DEFAULT_WORKSPACE, setWorkspace } from '../workspace';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+function runWithData(data: unknown) {
+  return {
+    ok: true,
+    json: () =>
+      Promise.resolve({ run: { state: { agent_message: { output: '```json\n' + JSON.stringify(data) + '\n```' } } } }),
+  };
+}
+
+describe('normalizeStatus', () => {
+  it('maps synonyms regardless of case and separators', () => {
+    expect(normalizeStatus('Lead')).toBe('lead');
+    expect(normalizeStatus(' NEW ')).toBe('lead');
+    expect(normalizeStatus('Qualified')).toBe('prospect');
+    expect(normalizeStatus('opportunity')).toBe('prospect');
+    expect(normalizeStatus('client')).toBe('customer');
+    expect(normalizeStatus('Closed-Won')).toBe('customer');
+    expect(normalizeStatus('closed_won')).toBe('customer');
+    expect(normalizeStatus('Closed Lost')).toBe('lost');
+  });
+
+  it('maps statuses onto the stages of a custom pipeline', () => {
+    setWorkspace({
+      ...DEFAULT_WORKSPACE,
+      pipeline: {
+        stages: [
+          { id: 'mql', label: 'MQL', color: 'blue', aliases: ['lead'] },
+          { id: 'closed_won', label: 'Closed Won', color: 'green', terminal: 'won', aliases: ['customer'] },
+        ],
+      },
+    });
+    try {
+      expect(normalizeStatus('MQL')).toBe('mql');
+      expect(normalizeStatus('Closed Won')).toBe('closed_won');
+      // Statuses saved before the pipeline changed move to the stage that replaced them
+      expect(normalizeStatus('lead')).toBe('mql');
+      expect(normalizeStatus('client')).toBe('closed_won');
+      // A default status that no stage claims is left for validation to report
+      expect(normalizeStatus('prospect')).toBe('prospect');
+    } finally {
+      setWorkspace(DEFAULT_WORKSPACE);
+    }
+  });
+
+  it('passes unknown values through for validation to report', () => {
+    expect(normalizeStatus(' martian ')).toBe('martian');
+    expect(normalizeStatus(3)).toBe(3);
+    expect(normalizeStatus(undefined)).toBeUndefined();
+  });
+});
+
+describe('normalizeActivityType', () => {
+  it('maps synonyms', () => {
+    expect(normalizeActivityType('Phone Call')).toBe('call');
+    expect(normalizeActivityType('E-mail')).toBe('email');
+    expect(normalizeActivityType('appointment')).toBe('meeting');
+    expect(normalizeActivityType('Comment')).toBe('note');
+  });
+
+  it('passes unknown values through', () => {
+    expect(normalizeActivityType('telegram')).toBe('telegram');
+  });
+});
+
+describe('normalizeTimestamp', () => {
+  it('keeps ISO timestamps in UTC', () => {
+    expect(normalizeTimestamp('2024-01-15T10:30:00Z')).toBe('2024-01-15T10:30:00.000Z');
+    expect(normalizeTimestamp('2024-01-15T12:30:00+02:00')).toBe('2024-01-15T10:30:00.000Z');
+  });
+
+  it('treats a date and time without an offset as UTC', () => {
+    expect(normalizeTimestamp('2024-01-15 10:30')).toBe('2024-01-15T10:30:00.000Z');
+    expect(normalizeTimestamp('2024-01-15')).toBe('2024-01-15T00:00:00.000Z');
+  });
+
+  it('accepts epoch seconds and milliseconds', () => {
+    expect(normalizeTimestamp(1705314600)).toBe('2024-01-15T10:30:00.000Z');
+    expect(normalizeTimestamp(1705314600000)).toBe('2024-01-15T10:30:00.000Z');
+    expect(normalizeTimestamp('1705314600')).toBe('2024-01-15T10:30:00.000Z');
+  });
+
+  it('returns unparseable values unchanged', () => {
+    expect(normalizeTimestamp('last Tuesday')).toBe('last Tuesday');
+    expect(normalizeTimestamp(null)).toBeNull();
+  });
+});
+
+describe('normalizeContact', () => {
+  it('maps alternate ID fields and trims strings', () => {
+    expect(normalizeContact({ document_id: ' doc-1 ', name: '  Ann  ', email: 'ann@acme.com ', status: 'Client' })).toMatchObject({
+      id: 'doc-1',
+      name: 'Ann',
+      email: 'ann@acme.com',
+      status: 'customer',
+    });
+    expect(normalizeContact({ _id: 42, name: 'Bob' })).toMatchObject({ id: '42' });
+  });
+
+  it('maps an alternate loss reason field', () => {
+    expect(normalizeContact({ id: 'c1', status: 'closed-lost', loss_reason: ' Budget ' })).toMatchObject({
+      status: 'lost',
+      lossReason: 'Budget',
+    });
+  });
+
+  it('prefers id over alternate fields', () => {
+    expect(normalizeContact({ id: 'c1', document_id: 'doc-1' })).toMatchObject({ id: 'c1' });
+  });
+
+  it('leaves non-objects alone', () => {
+    expect(normalizeContact('nope')).toBe('nope');
+    expect(normalizeContact(null)).toBeNull();
+  });
+});
+
+describe('normalizeActivity', () => {
+  it('maps alternate fields', () => {
+    expect(
+      normalizeActivity({
+        activity_id: 'a1',
+        contact_id: 7,
+        type: 'Phone',
+        description: ' Intro call ',
+        created_at: 1705314600,
+      })
+    ).toMatchObject({
+      id: 'a1',
+      contactId: '7',
+      type: 'call',
+      description: 'Intro call',
+      timestamp: '2024-01-15T10:30:00.000Z',
+    });
+  });
+
+  it('ignores an embedded contact object as the contact ID', () => {
+    expect(normalizeActivity({ id: 'a1', contact: { id: 'c1' } })).not.toHaveProperty('contactId');
+  });
+});
+
+describe('normalizeContactList', () => {
+  it('unwraps { contacts } and de-duplicates by ID, keeping the first record', () => {
+    const result = normalizeContactList({
+      contacts: [
+        { id: 'c1', name: 'Ann' },
+        { document_id: 'c1', name: 'Ann (again)' },
+        { id: 'c2', name: 'Bob' },
+      ],
+    });
+
+    expect(result).toEqual([
+      { id: 'c1', name: 'Ann' },
+      { id: 'c2', name: 'Bob' },
+    ]);
+  });
+
+  it('de-duplicates records without an ID by email', () => {
+    const result = normalizeContactList([
+      { name: 'Ann', email: 'ann@acme.com' },
+      { name: 'Ann', email: 'ANN@acme.com' },
+    ]);
+
+    expect(result).toHaveLength(1);
+  });
+
+  it('returns an empty list when there are no contacts', () => {
+    expect(normalizeContactList({})).toEqual([]);
+    expect(normalizeContactList(null)).toEqual([]);
+  });
+});
+
+describe('contactPageNormalizerFor', () => {
+  const normalize = contactPageNormalizerFor({ offset: 20, limit: 2 });
+
+  it('places the page and points at the next one from the total', () => {
+    expect(normalize({ contacts: [{ _id: 'c1' }, { _id: 'c2' }], total: '30' })).toEqual({
+      contacts: [{ _id: 'c1', id: 'c1' }, { _id: 'c2', id: 'c2' }],
+      offset: 20,
+      nextOffset: 22,
+      total: 30,
+    });
+  });
+
+  it('ends at the total', () => {
+    expect(normalize({ contacts: [{ id: 'c1' }, { id: 'c2' }], total: 22 })).toMatchObject({ nextOffset: null });
+  });
+
+  it('assumes a full page without a total may have more', () => {
+    expect(normalize([{ id: 'c1' }, { id: 'c2' }])).toMatchObject({ nextOffset: 22 });
+    expect(normalize([{ id: 'c1' }])).toMatchObject({ nextOffset: null });
+    expect(normalize({ contacts: [] })).toMatchObject({ contacts: [], nextOffset: null });
+  });
+});
+
+describe('normalizeContactWithActivities', () => {
+  it('normalizes the contact and its activities', () => {
+    const result = normalizeContactWithActivities({
+      _id: 'c1',
+      status: 'won',
+      activities: [
+        { id: 'a1', type: 'memo', date: '2024-01-15' },
+        { id: 'a1', type: 'memo', date: '2024-01-15' },
+      ],
+    });
+
+    expect(result).toMatchObject({
+      id: 'c1',
+      status: 'customer',
+      activities: [{ id: 'a1', type: 'note', timestamp: '2024-01-15T00:00:00.000Z' }],
+    });
+  });
+});
+
+describe('normalizeDashboardData', () => {
+  it('folds status synonyms in the counts', () => {
+    const result = normalizeDashboardData({
+      contact_counts: { Leads: 3, new: '2', Qualified: 4, clients: 1, Total: 10 },
+      activity_count: 5,
+      recent_activities: [{ id: 'a1', type: 'Call', timestamp: 1705314600 }],
+    });
+
+    expect(result).toMatchObject({
+      contactCounts: { lead: 5, prospect: 4, customer: 1, total: 10 },
+      activityCount: 5,
+      recentActivities: [{ id: 'a1', type: 'call', timestamp: '2024-01-15T10:30:00.000Z' }],
+    });
+  });
+});
+
+describe('normalizeResponse', () => {
+  it('only touches successful responses', () => {
+    const failed = { success: false };
+    expect(normalizeResponse(failed, normalizeContact)).toBe(failed);
+    expect(normalizeResponse({ success: true, data: { _id: 'c1' } }, normalizeContact).data).toMatchObject({ id: 'c1' });
+  });
+});
+
+describe('ScoutBackend normalization', () => {
+  const backend = new ScoutBackend({ retry: false, streaming: false });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('normalizes contact lists', async () => {
+    mockFetch.mockResolvedValueOnce(
+      runWithData([
+        { _id: 'c1', name: 'Ann', email: 'ann@acme.com', status: 'Qualified' },
+        { _id: 'c1', name: 'Ann', email: 'ann@acme.com', status: 'Qualified' },
+      ])
+    );
+
+    const result = await backend.listContacts('api-key');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([{ id: 'c1', name: 'Ann', email: 'ann@acme.com', status: 'prospect' }]);
+  });
+
+  it('normalizes contact details', async () => {
+    mockFetch.mockResolvedValueOnce(
+      runWithData({
+        document_id: 'c1',
+        name: 'Ann',
+        email: 'ann@acme.com',
+        status: 'client',
+        activities: [{ activity_id: 'a1', type: 'Phone Call', description: 'Intro', created_at: '2024-01-15 10:30' }],
+      })
+    );
+
+    const result = await backend.getContactDetails('api-key', 'c1');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.status).toBe('customer');
+    expect(result.data?.activities).toEqual([
+      { id: 'a1', contactId: 'c1', type: 'call', description: 'Intro', timestamp: '2024-01-15T10:30:00.000Z' },
+    ]);
+  });
+
+  it('normalizes status updates', async () => {
+    mockFetch.mockResolvedValueOnce(runWithData({ contact_id: 'c1', status: 'Closed Won' }));
+
+    const result = await backend.updateContactStatus('api-key', 'c1', 'customer');
+
+    expect(result.data).toEqual({ id: 'c1', status: 'customer' });
+  });
+});
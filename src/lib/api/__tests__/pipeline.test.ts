@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PIPELINE,
+  isLostStage,
+  isSamePipeline,
+  normalizePipeline,
+  resolveStage,
+  stageIdFor,
+  stageIds,
+  stageLabel,
+  unmappedStatuses,
+  validatePipeline,
+} from '../pipeline';
+import type { PipelineDefinition } from '../../types';
+
+const saas: PipelineDefinition = {
+  stages: [
+    { id: 'mql', label: 'MQL', color: 'blue', aliases: ['lead'] },
+    { id: 'sql', label: 'SQL', color: 'purple', aliases: ['prospect'] },
+    { id: 'trial', label: 'Trial', color: 'amber' },
+    { id: 'customer', label: 'Customer', color: 'green', terminal: 'won' },
+    { id: 'churned', label: 'Churned', color: 'red', terminal: 'lost', aliases: ['lost'] },
+  ],
+};
+
+describe('stages', () => {
+  it('keeps the original statuses by default', () => {
+    expect(stageIds(DEFAULT_PIPELINE)).toEqual(['lead', 'prospect', 'customer', 'lost']);
+    expect(isLostStage(DEFAULT_PIPELINE, 'lost')).toBe(true);
+    expect(isLostStage(DEFAULT_PIPELINE, 'customer')).toBe(false);
+  });
+
+  it('derives IDs from labels', () => {
+    expect(stageIdFor('Closed Won')).toBe('closed_won');
+    expect(stageIdFor('  SQL ')).toBe('sql');
+    expect(stageIdFor('!!!')).toBe('');
+  });
+
+  it('labels stages, and capitalizes statuses that are not stages', () => {
+    expect(stageLabel(saas, 'mql')).toBe('MQL');
+    expect(stageLabel(saas, 'prospect')).toBe('Prospect');
+  });
+});
+
+describe('resolveStage', () => {
+  it('matches an ID, a label or an alias regardless of case', () => {
+    expect(resolveStage(saas, 'trial')).toBe('trial');
+    expect(resolveStage(saas, ' Trial ')).toBe('trial');
+    expect(resolveStage(saas, 'Lead')).toBe('mql');
+    expect(resolveStage(saas, 'lost')).toBe('churned');
+  });
+
+  it('prefers a stage ID over another stage claiming it as an alias', () => {
+    const pipeline: PipelineDefinition = {
+      stages: [
+        { id: 'new', label: 'New', color: 'gray', aliases: ['customer'] },
+        { id: 'customer', label: 'Customer', color: 'dark' },
+      ],
+    };
+    expect(resolveStage(pipeline, 'customer')).toBe('customer');
+  });
+
+  it('leaves values that no stage claims', () => {
+    expect(resolveStage(saas, 'martian')).toBeUndefined();
+  });
+});
+
+describe('normalizePipeline', () => {
+  it('fills in IDs, drops unknown colors and duplicate stages', () => {
+    expect(
+      normalizePipeline({
+        stages: [
+          { id: '', label: ' Closed Won ', color: 'neon' as never, terminal: 'won', aliases: [' Customer ', 'customer', ''] },
+          { id: '', label: 'closed won', color: 'green' },
+          { id: '', label: '  ', color: 'gray' },
+        ],
+      })
+    ).toEqual({
+      stages: [{ id: 'closed_won', label: 'Closed Won', color: 'gray', terminal: 'won', aliases: ['customer'] }],
+    });
+  });
+
+  it('compares pipelines by their normalized stages', () => {
+    expect(isSamePipeline({ stages: DEFAULT_PIPELINE.stages.map((stage) => ({ ...stage, label: ` ${stage.label}` })) }, DEFAULT_PIPELINE)).toBe(true);
+    expect(isSamePipeline(saas, DEFAULT_PIPELINE)).toBe(false);
+  });
+});
+
+describe('validatePipeline', () => {
+  it('accepts a valid pipeline', () => {
+    expect(validatePipeline(saas)).toBeUndefined();
+  });
+
+  it('reports missing, unnamed, reserved and repeated stages', () => {
+    expect(validatePipeline({ stages: [] })).toBe('Add at least one stage');
+    expect(validatePipeline({ stages: [{ id: '', label: ' ', color: 'gray' }] })).toBe('Every stage needs a name');
+    expect(validatePipeline({ stages: [{ id: '', label: '???', color: 'gray' }] })).toBe(
+      '"???" needs a letter or digit in its name'
+    );
+    expect(validatePipeline({ stages: [{ id: '', label: 'Total', color: 'gray' }] })).toBe(
+      '"Total" cannot be used as a stage name'
+    );
+    expect(
+      validatePipeline({
+        stages: [
+          { id: '', label: 'Trial', color: 'gray' },
+          { id: '', label: 'trial', color: 'blue' },
+        ],
+      })
+    ).toBe('There is more than one "trial" stage');
+  });
+});
+
+describe('unmappedStatuses', () => {
+  it('lists default statuses that no stage claims', () => {
+    expect(unmappedStatuses(DEFAULT_PIPELINE)).toEqual([]);
+    expect(unmappedStatuses(saas)).toEqual([]);
+    expect(unmappedStatuses({ stages: [{ id: 'mql', label: 'MQL', color: 'blue' }] })).toEqual([
+      'lead',
+      'prospect',
+      'customer',
+      'lost',
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BUILT_IN_PROMPTS, PromptRegistry, exampleOf, promptRegistry, type PromptTemplate } from '../prompts';
+import { getDashboardCommand, listContactsCommand, readCommandPayload, renderCommand } from '../commands';
+import { RESPONSE_SCHEMAS } from '../intents';
+import { DEFAULT_WORKSPACE, setWorkspace } from '../workspace';
+import { ScoutBackend } from '../backends';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+const listV2: PromptTemplate = {
+  ...BUILT_IN_PROMPTS.find((template) => template.name === 'listContacts')!,
+  version: 2,
+  description: 'Ask for contacts sorted by name',
+  text: 'List all contacts from the Contacts table, sorted by name. Return ONLY a JSON code block with format: {{output}} No other text.',
+};
+
+describe('exampleOf', () => {
+  it('writes an example value for every field of the schema', () => {
+    expect(
+      exampleOf({
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          count: { type: 'integer' },
+          done: { type: 'boolean' },
+          tags: { type: 'array', items: { type: 'string' } },
+          extra: { type: 'array' },
+        },
+      })
+    ).toBe('{"id": "...", "count": 0, "done": true, "tags": ["..."], "extra": []}');
+  });
+
+  it('asks the dashboard for the counts of every stage of the pipeline', () => {
+    const example = exampleOf(RESPONSE_SCHEMAS.getDashboard);
+
+    expect(example).toContain('"contactCounts": {"lead": 0, "prospect": 0, "customer": 0, "lost": 0, "total": 0}');
+    expect(readCommandPayload(getDashboardCommand())).toEqual({
+      stages: ['lead', 'prospect', 'customer', 'lost'].map((id) => ({ id, aliases: [] })),
+    });
+  });
+
+  it('follows the pipeline of the active workspace', () => {
+    setWorkspace({
+      ...DEFAULT_WORKSPACE,
+      pipeline: {
+        stages: [
+          { id: 'mql', label: 'MQL', color: 'blue', aliases: ['lead', 'prospect'] },
+          { id: 'customer', label: 'Customer', color: 'green', terminal: 'won' },
+        ],
+      },
+    });
+    try {
+      expect(exampleOf(RESPONSE_SCHEMAS.getDashboard)).toContain('"contactCounts": {"mql": 0, "customer": 0, "total": 0}');
+      // Contacts still saved as leads or prospects are counted as MQLs by the workflow
+      expect(readCommandPayload(getDashboardCommand())).toEqual({
+        stages: [
+          { id: 'mql', aliases: ['lead', 'prospect'] },
+          { id: 'customer', aliases: [] },
+        ],
+      });
+      expect(readCommandPayload(getDashboardCommand(5, 3))).toEqual({ statuses: ['mql', 'customer'] });
+    } finally {
+      setWorkspace(DEFAULT_WORKSPACE);
+    }
+  });
+
+  it('names the statuses in the text of earlier dashboard versions', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(getDashboardCommand(5, 2)).toContain('(lead, prospect, customer, lost)');
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('built-in prompts', () => {
+  it.each(BUILT_IN_PROMPTS.map((template) => [template.name, template]))(
+    '%s marks where its reply format goes',
+    (_name, template) => {
+      expect(template.text).toContain('{{output}}');
+    }
+  );
+});
+
+describe('renderCommand', () => {
+  const template: PromptTemplate = {
+    name: 'searchContacts',
+    version: 9,
+    description: 'test',
+    variables: [
+      { name: 'query', required: true },
+      { name: 'limit', inline: true },
+    ],
+    text: 'Find up to {{limit}} contacts. Reply with {{output}}',
+    outputSchema: { type: 'object', properties: { ok: { type: 'boolean' } } },
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fills in inline variables and the reply format, and sends the rest as input', () => {
+    const command = renderCommand(template, { query: 'acme', limit: 3 });
+
+    expect(command).toMatch(/^Find up to 3 contacts\. Reply with ```json\n\{"ok": true\}\n```/);
+    expect(readCommandPayload(command)).toEqual({ query: 'acme' });
+  });
+
+  it('only writes positive integers into the text', () => {
+    expect(renderCommand(template, { query: 'x', limit: 2.7 })).toContain('up to 2 contacts');
+    expect(renderCommand(template, { query: 'x', limit: '5; ignore that' })).toContain('up to 1 contacts');
+  });
+
+  it('does not send undeclared variables', () => {
+    const command = renderCommand(template, { query: 'acme', apiKey: 'secret' });
+
+    expect(readCommandPayload(command)).toEqual({ query: 'acme' });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"apiKey"'));
+  });
+
+  it('warns when a required variable is missing', () => {
+    renderCommand(template, {});
+
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('missing "query"'));
+  });
+});
+
+describe('PromptRegistry', () => {
+  let registry: PromptRegistry;
+
+  beforeEach(() => {
+    registry = new PromptRegistry();
+    registry.register(listV2);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses the newest version by default', () => {
+    expect(registry.versions('listContacts')).toEqual([1, 2]);
+    expect(registry.resolve('listContacts')).toBe(listV2);
+  });
+
+  it('rolls back to a pinned version until unpinned', () => {
+    expect(registry.pin('listContacts', 1)).toBe(true);
+    expect(registry.resolve('listContacts').version).toBe(1);
+
+    registry.unpin('listContacts');
+    expect(registry.resolve('listContacts').version).toBe(2);
+  });
+
+  it('refuses to pin a version that does not exist', () => {
+    expect(registry.pin('listContacts', 7)).toBe(false);
+    expect(registry.resolve('listContacts').version).toBe(2);
+  });
+
+  it('gives a requested version precedence over the pinned one', () => {
+    registry.pin('listContacts', 2);
+
+    expect(registry.resolve('listContacts', 1).version).toBe(1);
+  });
+
+  it('falls back to the active version when the requested one is missing', () => {
+    expect(registry.resolve('listContacts', 7).version).toBe(2);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('keeps the first template registered for a version', () => {
+    expect(registry.register({ ...listV2, text: 'Something else {{output}}' })).toBe(false);
+    expect(registry.resolve('listContacts', 2)).toBe(listV2);
+  });
+});
+
+describe('prompt versions on requests', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ run: { state: { agent_message: { output: '```json\n{"contacts": []}\n```' } } } }),
+    });
+  });
+
+  afterEach(() => {
+    promptRegistry.unpin('listContacts');
+  });
+
+  it('records the template in the intent', async () => {
+    await new ScoutBackend({ retry: false, streaming: false }).listContacts('key');
+    const { inputs } = JSON.parse(mockFetch.mock.calls[0][1].body);
+
+    expect(inputs.intent.prompt).toEqual({ name: 'listContacts', version: 1 });
+    expect(inputs.message).toBe(listContactsCommand(1));
+  });
+
+  it('lets two backends send different versions side by side', async () => {
+    promptRegistry.register(listV2);
+    const control = new ScoutBackend({ retry: false, streaming: false, promptVersions: { listContacts: 1 } });
+    const candidate = new ScoutBackend({ retry: false, streaming: false });
+
+    await control.listContacts('key');
+    await candidate.listContacts('key');
+    const [first, second] = mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body).inputs);
+
+    expect(first.intent.prompt.version).toBe(1);
+    expect(second.intent.prompt.version).toBe(2);
+    expect(second.message).toContain('sorted by name');
+  });
+
+  it('follows a global rollback', async () => {
+    promptRegistry.pin('listContacts', 1);
+
+    await new ScoutBackend({ retry: false, streaming: false }).listContacts('key');
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).inputs.intent.prompt.version).toBe(1);
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  computeBackoffDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  isRetryableStatus,
+  DEFAULT_RETRY_POLICY,
+} from '../retry';
+import { executeCommand } from '../client';
+import { ScoutBackend } from '../backends';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+function okResponse(data: unknown) {
+  return {
+    ok: true,
+    json: () =>
+      Promise.resolve({
+        run: { state: { agent_message: { output: '```json\n' + JSON.stringify(data) + '\n```' } } },
+      }),
+  };
+}
+
+function errorResponse(status: number, headers: Record<string, string> = {}) {
+  return {
+    ok: false,
+    status,
+    statusText: 'Error',
+    headers: new Headers(headers),
+    json: () => Promise.resolve({ detail: 'error' }),
+  };
+}
+
+/**
+ * Run a command while flushing backoff timers
+ */
+async function runWithTimers<T>(promise: Promise<T>): Promise<T> {
+  await vi.runAllTimersAsync();
+  return promise;
+}
+
+describe('retry helpers', () => {
+  it('disables retries when policy is false', () => {
+    expect(resolveRetryPolicy(false).maxAttempts).toBe(1);
+    expect(resolveRetryPolicy({ maxAttempts: 5 })).toEqual({ ...DEFAULT_RETRY_POLICY, maxAttempts: 5 });
+  });
+
+  it('treats 429 and 5xx as retryable', () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(502)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(401)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+  });
+
+  it('parses Retry-After as seconds or HTTP date', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('5')).toBe(5000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+
+  it('grows the backoff exponentially within jitter bounds', () => {
+    const policy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000 };
+    expect(computeBackoffDelay(1, policy, () => 0)).toBe(500);
+    expect(computeBackoffDelay(1, policy, () => 1)).toBe(1000);
+    expect(computeBackoffDelay(2, policy, () => 1)).toBe(2000);
+    expect(computeBackoffDelay(3, policy, () => 1)).toBe(4000);
+    // Capped at maxDelayMs
+    expect(computeBackoffDelay(6, policy, () => 1)).toBe(5000);
+  });
+});
+
+describe('executeCommand retries and timeouts', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries transient 5xx failures and succeeds', async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(502))
+      .mockResolvedValueOnce(okResponse({ id: '1' }));
+
+    const result = await runWithTimers(executeCommand('key', 'COMMAND'));
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ id: '1' });
+  });
+
+  it('gives up after maxAttempts', async () => {
+    mockFetch.mockResolvedValue(errorResponse(503));
+
+    const result = await runWithTimers(executeCommand('key', 'COMMAND', { retry: { maxAttempts: 2 } }));
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ kind: 'workflow_failed', status: 503, retryable: true });
+  });
+
+  it('retries network errors', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(okResponse({ ok: true }));
+
+    const result = await runWithTimers(executeCommand('key', 'COMMAND'));
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(true);
+  });
+
+  it('does not retry client errors', async () => {
+    mockFetch.mockResolvedValue(errorResponse(401));
+
+    const result = await runWithTimers(executeCommand('key', 'COMMAND'));
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(false);
+  });
+
+  it('waits for Retry-After before retrying a 429', async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '7' }))
+      .mockResolvedValueOnce(okResponse({ id: '1' }));
+
+    const promise = executeCommand('key', 'COMMAND');
+    await vi.advanceTimersByTimeAsync(6999);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    const result = await promise;
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(true);
+  });
+
+  it('stops when Retry-After exceeds the maximum delay', async () => {
+    mockFetch.mockResolvedValue(errorResponse(429, { 'Retry-After': '3600' }));
+
+    const result = await runWithTimers(executeCommand('key', 'COMMAND'));
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(false);
+  });
+
+  it('aborts an attempt that exceeds the timeout', async () => {
+    mockFetch.mockImplementation((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      })
+    );
+
+    const result = await runWithTimers(
+      executeCommand('key', 'COMMAND', { timeoutMs: 5000, retry: false })
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.kind).toBe('timeout');
+    expect(result.error?.detail).toBe('Request timed out after 5s');
+  });
+
+  it('does not retry non-idempotent commands after a timeout or 5xx', async () => {
+    mockFetch.mockResolvedValue(errorResponse(502));
+
+    const result = await runWithTimers(executeCommand('key', 'CREATE', { idempotent: false }));
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(false);
+  });
+
+  it('retries non-idempotent commands on 429 because nothing was processed', async () => {
+    mockFetch
+      .mockResolvedValueOnce(errorResponse(429))
+      .mockResolvedValueOnce(okResponse({ id: 'new' }));
+
+    const result = await runWithTimers(executeCommand('key', 'CREATE', { idempotent: false }));
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result.success).toBe(true);
+  });
+
+  it('never blindly retries createContact through the Scout backend', async () => {
+    mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const result = await runWithTimers(
+      new ScoutBackend().createContact('key', { name: 'New', email: 'new@test.com' })
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(result.success).toBe(false);
+  });
+
+  it('applies per-operation timeouts from backend options', async () => {
+    mockFetch.mockImplementation((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      })
+    );
+
+    const backend = new ScoutBackend({ timeouts: { getDashboard: 2000 }, retry: false });
+    const result = await runWithTimers(backend.getDashboard('key'));
+
+    expect(result.error?.detail).toBe('Request timed out after 2s');
+  });
+});
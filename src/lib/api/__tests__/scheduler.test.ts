@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RequestScheduler, requestScheduler, DEFAULT_MAX_CONCURRENCY, type SchedulerState } from '../scheduler';
+import { executeCommand, streamCommand } from '../scout';
+import { ScoutBackend } from '../backends';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+function runWithData(data: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    json: () =>
+      Promise.resolve({ run: { state: { agent_message: { output: '```json\n' + JSON.stringify(data) + '\n```' } } } }),
+  };
+}
+
+/** Let pending promise callbacks run */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('RequestScheduler', () => {
+  it('grants slots up to the limit and queues the rest', async () => {
+    const scheduler = new RequestScheduler(2);
+
+    const first = await scheduler.acquire();
+    const second = await scheduler.acquire();
+    let third: (() => void) | null = null;
+    scheduler.acquire().then((release) => (third = release));
+    await flush();
+
+    expect(scheduler.getState()).toEqual({ active: 2, queued: 1 });
+    expect(third).toBeNull();
+
+    first!();
+    await flush();
+    expect(third).not.toBeNull();
+    expect(scheduler.getState()).toEqual({ active: 2, queued: 0 });
+
+    second!();
+    third!();
+    expect(scheduler.getState()).toEqual({ active: 0, queued: 0 });
+  });
+
+  it('starts waiting requests by priority, then in arrival order', async () => {
+    const scheduler = new RequestScheduler(1);
+    const release = await scheduler.acquire();
+    const order: string[] = [];
+
+    const wait = (name: string, priority: 'mutation' | 'foreground' | 'background') =>
+      scheduler.acquire(priority).then((done) => {
+        order.push(name);
+        done!();
+      });
+    const all = Promise.all([
+      wait('prefetch', 'background'),
+      wait('read 1', 'foreground'),
+      wait('save', 'mutation'),
+      wait('read 2', 'foreground'),
+    ]);
+
+    release!();
+    await all;
+
+    expect(order).toEqual(['save', 'read 1', 'read 2', 'prefetch']);
+  });
+
+  it('gives up the place in the queue when aborted', async () => {
+    const scheduler = new RequestScheduler(1);
+    const release = await scheduler.acquire();
+    const controller = new AbortController();
+
+    const waiting = scheduler.acquire('foreground', controller.signal);
+    controller.abort();
+
+    await expect(waiting).resolves.toBeNull();
+    expect(scheduler.getState()).toEqual({ active: 1, queued: 0 });
+    release!();
+    expect(scheduler.getState().active).toBe(0);
+  });
+
+  it('does not queue an already aborted request', async () => {
+    const scheduler = new RequestScheduler(1);
+
+    await expect(scheduler.acquire('foreground', AbortSignal.abort())).resolves.toBeNull();
+    expect(scheduler.getState()).toEqual({ active: 0, queued: 0 });
+  });
+
+  it('only takes a slot without waiting when nobody is queued', async () => {
+    const scheduler = new RequestScheduler(1);
+    const release = scheduler.tryAcquire();
+
+    expect(release).toBeTypeOf('function');
+    expect(scheduler.tryAcquire()).toBeNull();
+    const waiting = scheduler.acquire();
+    release!();
+
+    expect(scheduler.tryAcquire()).toBeNull();
+    (await waiting)!();
+    expect(scheduler.tryAcquire()).toBeTypeOf('function');
+  });
+
+  it('ignores a slot released twice', async () => {
+    const scheduler = new RequestScheduler(2);
+    const release = await scheduler.acquire();
+    await scheduler.acquire();
+
+    release!();
+    release!();
+
+    expect(scheduler.getState().active).toBe(1);
+  });
+
+  it('starts waiting requests when the limit is raised', async () => {
+    const scheduler = new RequestScheduler(1);
+    await scheduler.acquire();
+    const waiting = scheduler.acquire();
+
+    scheduler.setMaxConcurrency(2);
+
+    await expect(waiting).resolves.toBeTypeOf('function');
+    expect(scheduler.getState()).toEqual({ active: 2, queued: 0 });
+  });
+
+  it('notifies subscribers of the queue depth', async () => {
+    const scheduler = new RequestScheduler(1);
+    const states: SchedulerState[] = [];
+    scheduler.subscribe((state) => states.push(state));
+
+    const release = await scheduler.acquire();
+    const waiting = scheduler.acquire();
+    release!();
+    (await waiting)!();
+
+    expect(states.map((state) => state.queued)).toContain(1);
+    expect(states[states.length - 1]).toEqual({ active: 0, queued: 0 });
+  });
+});
+
+describe('workflow commands', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    requestScheduler.setMaxConcurrency(1);
+  });
+
+  afterEach(() => {
+    requestScheduler.setMaxConcurrency(DEFAULT_MAX_CONCURRENCY);
+  });
+
+  it('never run more requests at once than the limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    mockFetch.mockImplementation(async () => {
+      peak = Math.max(peak, ++inFlight);
+      await flush();
+      inFlight--;
+      return runWithData({ ok: true });
+    });
+
+    await Promise.all([executeCommand('key', 'A'), executeCommand('key', 'B'), executeCommand('key', 'C')]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(peak).toBe(1);
+  });
+
+  it('run a mutation ahead of queued background reads', async () => {
+    const backend = new ScoutBackend({ retry: false, streaming: false });
+    const sent: string[] = [];
+    mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+      sent.push(JSON.parse(init.body as string).inputs.intent.operation);
+      await flush();
+      return runWithData([]);
+    });
+
+    await Promise.all([
+      backend.listContacts('key', { priority: 'background' }),
+      backend.getDashboard('key', { priority: 'background' }),
+      backend.createContact('key', { name: 'Ann', email: 'ann@acme.com' }),
+    ]);
+
+    expect(sent).toEqual(['listContacts', 'createContact', 'getDashboard']);
+  });
+
+  it('resolve as cancelled when aborted while queued', async () => {
+    mockFetch.mockImplementation(async () => {
+      await flush();
+      return runWithData({ ok: true });
+    });
+    const controller = new AbortController();
+
+    const first = executeCommand('key', 'A');
+    const second = executeCommand('key', 'B', { signal: controller.signal });
+    controller.abort();
+
+    expect((await second).error?.kind).toBe('cancelled');
+    await first;
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('let a stream that falls back queue again instead of holding its slot', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), body: null })
+      .mockResolvedValueOnce(runWithData([{ id: 'c1' }]));
+
+    const result = await streamCommand('key', 'LIST', { retry: false, onItem: () => {} });
+
+    expect(result.success).toBe(true);
+    expect(requestScheduler.getState()).toEqual({ active: 0, queued: 0 });
+  });
+});
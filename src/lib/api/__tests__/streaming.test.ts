@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JsonArrayItemExtractor, readEventStream, textDelta } from '../streaming';
+import { streamCommand } from '../scout';
+import { ScoutBackend } from '../backends';
+import type { Contact } from '../../types';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+const contacts = [
+  { id: 'c1', name: 'Ann "The Closer" Lee', email: 'ann@acme.com', status: 'lead', tags: ['vip', '[x]'] },
+  { id: 'c2', name: 'Bob {Jr}', email: 'bob@acme.com', status: 'customer', address: { city: 'Oslo' } },
+];
+
+/**
+ * Feed text to the extractor in fixed-size chunks, collecting items
+ */
+function extractAll(text: string, chunkSize: number, arrayKey?: string): unknown[] {
+  const extractor = new JsonArrayItemExtractor(arrayKey);
+  const items: unknown[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    items.push(...extractor.push(text.slice(i, i + chunkSize)));
+  }
+  return items;
+}
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Build a streamed Scout reply: output deltas followed by the finished run
+ */
+function sseResponse(output: string, chunkSize = 10, finalRun = true) {
+  const events: string[] = [];
+  for (let i = 0; i < output.length; i += chunkSize) {
+    events.push(`data: ${JSON.stringify({ delta: output.slice(i, i + chunkSize) })}\n\n`);
+  }
+  if (finalRun) {
+    events.push(`data: ${JSON.stringify({ run: { state: { agent_message: { output } } } })}\n\n`);
+  }
+  return {
+    ok: true,
+    headers: new Headers({ 'Content-Type': 'text/event-stream' }),
+    body: streamOf(events),
+  };
+}
+
+describe('JsonArrayItemExtractor', () => {
+  const output = '```json\n' + JSON.stringify({ contacts }, null, 2) + '\n```';
+
+  it.each([1, 7, 64, output.length])('extracts items split into %i-character chunks', (chunkSize) => {
+    expect(extractAll(output, chunkSize, 'contacts')).toEqual(contacts);
+  });
+
+  it('reports each item as soon as it is complete', () => {
+    const extractor = new JsonArrayItemExtractor('contacts');
+    const first = JSON.stringify(contacts[0]);
+
+    expect(extractor.push(`{"contacts": [${first.slice(0, -1)}`)).toEqual([]);
+    expect(extractor.push('}, {"id"')).toEqual([contacts[0]]);
+    expect(extractor.done).toBe(false);
+  });
+
+  it('extracts items of a bare top-level array', () => {
+    expect(extractAll(JSON.stringify(contacts), 5)).toEqual(contacts);
+  });
+
+  it('ignores arrays under other keys', () => {
+    const details = {
+      id: 'c1',
+      tags: [{ label: 'not an activity' }],
+      activities: [{ id: 'a1', type: 'call' }],
+    };
+
+    expect(extractAll(JSON.stringify(details), 3, 'activities')).toEqual([{ id: 'a1', type: 'call' }]);
+  });
+
+  it('stops at the end of the target array', () => {
+    const extractor = new JsonArrayItemExtractor('contacts');
+    extractor.push('{"contacts": [], "more": [{"id": "x"}]}');
+
+    expect(extractor.done).toBe(true);
+  });
+});
+
+describe('readEventStream', () => {
+  it('dispatches events split across chunks and joins multi-line data', async () => {
+    const events: string[] = [];
+    await readEventStream(
+      streamOf(['data: {"delta":', '"a"}\n', '\n: keep-alive\n\ndata: line1\r\ndata: line2\r\n\r\n', 'data: tail']),
+      (data) => events.push(data)
+    );
+
+    expect(events).toEqual(['{"delta":"a"}', 'line1\nline2', 'tail']);
+  });
+});
+
+describe('textDelta', () => {
+  it('finds deltas at the top level or nested under data', () => {
+    expect(textDelta({ delta: 'a' })).toBe('a');
+    expect(textDelta({ data: { content: 'b' } })).toBe('b');
+    expect(textDelta({ type: 'ping' })).toBeNull();
+  });
+});
+
+describe('streamCommand', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('reports items progressively and resolves with the finished run', async () => {
+    const output = '```json\n' + JSON.stringify({ contacts }) + '\n```';
+    mockFetch.mockResolvedValueOnce(sseResponse(output));
+    const onItem = vi.fn();
+
+    const result = await streamCommand<{ contacts: unknown[] }>('key', 'LIST', { arrayKey: 'contacts', onItem });
+
+    expect(onItem.mock.calls.map(([item]) => item)).toEqual(contacts);
+    expect(result.success).toBe(true);
+    expect(result.data?.contacts).toEqual(contacts);
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+    expect(body.stream).toBe(true);
+  });
+
+  it('parses the accumulated output when no finished run is sent', async () => {
+    mockFetch.mockResolvedValueOnce(sseResponse(JSON.stringify(contacts), 10, false));
+
+    const result = await streamCommand<unknown[]>('key', 'LIST', { onItem: vi.fn() });
+
+    expect(result.data).toEqual(contacts);
+  });
+
+  it('handles a plain JSON reply when the server does not stream', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: new Headers({ 'Content-Type': 'application/json' }),
+      body: streamOf([]),
+      json: () => Promise.resolve({ run: { state: { agent_message: { output: JSON.stringify(contacts) } } } }),
+    });
+
+    const result = await streamCommand<unknown[]>('key', 'LIST', { onItem: vi.fn() });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(result.data).toEqual(contacts);
+  });
+
+  it('falls back to a regular request when the reply has no stream', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), body: null })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ run: { state: { agent_message: { output: JSON.stringify(contacts) } } } }),
+      });
+
+    const result = await streamCommand<unknown[]>('key', 'LIST', { onItem: vi.fn(), retry: false });
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body).stream).toBe(false);
+    expect(result.data).toEqual(contacts);
+  });
+
+  it('does not send a rejected key again', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized', headers: new Headers() });
+
+    const result = await streamCommand<unknown[]>('key', 'LIST', { onItem: vi.fn() });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(result.error).toMatchObject({ kind: 'auth', status: 401 });
+  });
+
+  it('waits for Retry-After before sending a rate-limited command again', async () => {
+    vi.useFakeTimers();
+    try {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: new Headers({ 'Retry-After': '2' }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ run: { state: { agent_message: { output: JSON.stringify(contacts) } } } }),
+        });
+
+      const pending = streamCommand<unknown[]>('key', 'LIST', { onItem: vi.fn() });
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      const result = await pending;
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).stream).toBe(false);
+      expect(result.data).toEqual(contacts);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('ScoutBackend streaming', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('streams validated contacts to onItem', async () => {
+    const raw = [
+      { document_id: 'doc1', name: 'Ann', email: 'ann@acme.com', status: 'Lead' },
+      { document_id: 'doc2', name: 'No Email', status: 'lead' },
+    ];
+    mockFetch.mockResolvedValueOnce(sseResponse(JSON.stringify({ contacts: raw })));
+    const streamed: Contact[] = [];
+
+    const result = await new ScoutBackend().listContacts('key', { onItem: (c) => streamed.push(c) });
+
+    expect(streamed).toEqual([{ id: 'doc1', name: 'Ann', email: 'ann@acme.com', status: 'lead' }]);
+    expect(result.data).toEqual(streamed);
+  });
+
+  it('does not stream when no one listens for items', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ run: { state: { agent_message: { output: '[]' } } } }),
+    });
+
+    await new ScoutBackend().listContacts('key');
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(false);
+  });
+});
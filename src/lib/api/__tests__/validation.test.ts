@@ -0,0 +1,321 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  applyValidation,
+  validateActivity,
+  validateContact,
+  validateContactDeletion,
+  validateContactList,
+  validateContactPage,
+  validateContactWithActivities,
+  validateDashboardData,
+} from '../validation';
+import { ScoutBackend } from '../backends';
+import { httpError } from '../errors';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+function scoutReply(data: unknown) {
+  return {
+    ok: true,
+    json: () =>
+      Promise.resolve({
+        run: { state: { agent_message: { output: '```json\n' + JSON.stringify(data) + '\n```' } } },
+      }),
+  };
+}
+
+const validActivity = {
+  id: 'a1',
+  contactId: 'c1',
+  type: 'call',
+  description: 'Intro call',
+  timestamp: '2024-01-15T10:00:00Z',
+};
+
+describe('validateContact', () => {
+  it('accepts a well-formed contact', () => {
+    const input = { id: 'c1', name: 'John', email: 'john@acme.com', status: 'lead' };
+    const result = validateContact(input);
+
+    expect(result).toEqual({ ok: true, value: input, issues: [] });
+  });
+
+  it('coerces safely coercible values', () => {
+    const result = validateContact({
+      id: 42,
+      name: '  John Doe ',
+      email: 'john@acme.com',
+      phone: 5551234,
+      company: '',
+      status: 'Customer',
+      extra: 'dropped',
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.value).toEqual({
+      id: '42',
+      name: 'John Doe',
+      email: 'john@acme.com',
+      phone: '5551234',
+      status: 'customer',
+    });
+  });
+
+  it('reports every invalid field', () => {
+    const result = validateContact({ id: 'c1', name: '', email: 'not-an-email', status: 'lead' }, 'contacts[3]');
+
+    expect(result.ok).toBe(false);
+    expect(result.issues.map((i) => i.path)).toEqual(['contacts[3].name', 'contacts[3].email']);
+  });
+
+  it('keeps a status that is not a stage of the pipeline', () => {
+    const result = validateContact({ id: 'c1', name: 'John', email: 'john@acme.com', status: 'Trial' });
+
+    expect(result.ok && result.value.status).toBe('Trial');
+  });
+
+  it('keeps the archived flag only when it is set', () => {
+    const contact = { id: 'c1', name: 'John', email: 'john@acme.com', status: 'lead' };
+
+    const archived = validateContact({ ...contact, archived: 'true' });
+    expect(archived.ok && archived.value).toEqual({ ...contact, archived: true });
+    expect(validateContact({ ...contact, archived: false })).toEqual({ ok: true, value: contact, issues: [] });
+    expect(validateContact({ ...contact, archived: 'maybe' }).issues).toEqual([
+      { path: 'archived', message: 'expected a boolean, got "maybe"' },
+    ]);
+  });
+
+  it('rejects a contact missing its email', () => {
+    const result = validateContact({ id: 'c1', name: 'John', status: 'lead' });
+
+    expect(result.issues).toEqual([{ path: 'email', message: 'is required' }]);
+  });
+
+  it('rejects non-objects', () => {
+    expect(validateContact('John').ok).toBe(false);
+    expect(validateContact(null).issues[0].path).toBe('(root)');
+  });
+});
+
+describe('validateContactDeletion', () => {
+  it('accepts the deleted ID and activity count', () => {
+    expect(validateContactDeletion({ id: 'c1', activitiesDeleted: '3' })).toEqual({
+      ok: true,
+      value: { id: 'c1', activitiesDeleted: 3 },
+      issues: [],
+    });
+  });
+
+  it('requires the activity count', () => {
+    expect(validateContactDeletion({ id: 'c1' }).issues).toEqual([{ path: 'activitiesDeleted', message: 'is required' }]);
+  });
+});
+
+describe('validateActivity', () => {
+  it('rejects unknown activity types', () => {
+    const result = validateActivity({ ...validActivity, type: 'Phone Call' });
+
+    expect(result.ok).toBe(false);
+    expect(result.issues[0].path).toBe('type');
+  });
+
+  it('normalises type casing and epoch timestamps', () => {
+    const result = validateActivity({ ...validActivity, type: 'EMAIL', timestamp: Date.UTC(2024, 0, 15) });
+
+    expect(result.ok && result.value.type).toBe('email');
+    expect(result.ok && result.value.timestamp).toBe('2024-01-15T00:00:00.000Z');
+  });
+
+  it('rejects unparseable timestamps', () => {
+    const result = validateActivity({ ...validActivity, timestamp: 'yesterday-ish' });
+
+    expect(result.issues).toEqual([{ path: 'timestamp', message: 'expected a date, got "yesterday-ish"' }]);
+  });
+
+  it('fills a missing contactId from the parent contact', () => {
+    const { contactId: _omit, ...orphan } = validActivity;
+
+    expect(validateActivity(orphan).ok).toBe(false);
+    expect(validateActivity(orphan, '', 'c9')).toMatchObject({ ok: true, value: { contactId: 'c9' } });
+  });
+});
+
+describe('collections', () => {
+  it('drops invalid contacts from lists and reports them', () => {
+    const result = validateContactList([
+      { id: 'c1', name: 'John', email: 'john@acme.com', status: 'lead' },
+      { id: 'c2', name: 'No Email', status: 'lead' },
+    ]);
+
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.value.map((c) => c.id)).toEqual(['c1']);
+    expect(result.issues).toEqual([{ path: '[1].email', message: 'is required' }]);
+  });
+
+  it('keeps a contact but drops its invalid activities', () => {
+    const result = validateContactWithActivities({
+      id: 'c1',
+      name: 'John',
+      email: 'john@acme.com',
+      status: 'lead',
+      activities: [validActivity, { ...validActivity, id: 'a2', type: 'Phone Call' }],
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.value.activities.map((a) => a.id)).toEqual(['a1']);
+    expect(result.issues[0].path).toBe('activities[1].type');
+  });
+
+  it('treats missing activities as an empty list', () => {
+    const result = validateContactWithActivities({ id: 'c1', name: 'John', email: 'john@acme.com', status: 'lead' });
+
+    expect(result.ok && result.value.activities).toEqual([]);
+  });
+});
+
+describe('validateDashboardData', () => {
+  it('coerces numeric strings and derives a missing total', () => {
+    const result = validateDashboardData({
+      contactCounts: { lead: '2', prospect: 1, customer: 3 },
+      activityCount: '4',
+      recentActivities: [validActivity],
+    });
+
+    expect(result.ok && result.value.contactCounts).toEqual({ lead: 2, prospect: 1, customer: 3, lost: 0, total: 6 });
+    expect(result.ok && result.value.activityCount).toBe(4);
+  });
+
+  it('counts lost contacts in the derived total', () => {
+    const result = validateDashboardData({
+      contactCounts: { lead: 2, prospect: 1, customer: 3, lost: '2' },
+      activityCount: 0,
+    });
+
+    expect(result.ok && result.value.contactCounts).toEqual({ lead: 2, prospect: 1, customer: 3, lost: 2, total: 8 });
+  });
+
+  it('rejects invalid counts', () => {
+    const result = validateDashboardData({
+      contactCounts: { lead: -1, prospect: 'many', customer: 0, total: 1 },
+      activityCount: 0,
+      recentActivities: [],
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.issues.map((i) => i.path)).toEqual(['contactCounts.lead', 'contactCounts.prospect']);
+  });
+
+  it('rejects a missing contactCounts object', () => {
+    expect(validateDashboardData({ activityCount: 0 }).issues[0].path).toBe('contactCounts');
+  });
+});
+
+describe('validateContactPage', () => {
+  it('drops invalid contacts and keeps the page position', () => {
+    const result = validateContactPage({
+      contacts: [{ id: 'c1', name: 'Ann', email: 'ann@acme.com', status: 'lead' }, { name: 'No id' }],
+      offset: 0,
+      nextOffset: 2,
+      total: 5,
+    });
+
+    expect(result.ok && result.value).toEqual({
+      contacts: [{ id: 'c1', name: 'Ann', email: 'ann@acme.com', status: 'lead' }],
+      offset: 0,
+      nextOffset: 2,
+      total: 5,
+    });
+    expect(result.issues.map((i) => i.path)).toEqual(['contacts[1].id', 'contacts[1].email', 'contacts[1].status']);
+  });
+
+  it('accepts the last page without a total', () => {
+    const result = validateContactPage({ contacts: [], offset: 10, nextOffset: null });
+
+    expect(result.ok && result.value).toEqual({ contacts: [], offset: 10, nextOffset: null });
+  });
+
+  it('rejects a negative offset', () => {
+    expect(validateContactPage({ contacts: [], offset: -1, nextOffset: null }).issues[0].path).toBe('offset');
+  });
+});
+
+describe('applyValidation', () => {
+  it('passes failed responses through untouched', () => {
+    const failed = { success: false, error: httpError(500, 'HTTP 500') };
+    expect(applyValidation(failed, validateContact)).toBe(failed);
+  });
+
+  it('turns invalid data into a failure with field-level errors', () => {
+    const result = applyValidation({ success: true, data: { id: 'c1' } }, validateContact);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.kind).toBe('validation_error');
+    expect(result.error?.detail).toContain('Response failed validation');
+    expect(result.validationErrors?.map((i) => i.path)).toEqual(['name', 'email', 'status']);
+  });
+});
+
+describe('ScoutBackend validation', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('filters malformed contacts out of the list', async () => {
+    mockFetch.mockResolvedValueOnce(
+      scoutReply({
+        contacts: [
+          { document_id: 'doc1', name: 'John', email: 'john@acme.com', status: 'lead' },
+          { document_id: 'doc2', name: 'Broken', email: 'broken', status: 'lead' },
+        ],
+      })
+    );
+
+    const result = await new ScoutBackend({ retry: false }).listContacts('key');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([{ id: 'doc1', name: 'John', email: 'john@acme.com', status: 'lead' }]);
+    expect(result.validationErrors).toHaveLength(1);
+  });
+
+  it('keeps contacts whose status no stage claims', async () => {
+    mockFetch.mockResolvedValueOnce(
+      scoutReply({
+        contacts: [
+          { document_id: 'doc1', name: 'John', email: 'john@acme.com', status: 'lead' },
+          { document_id: 'doc2', name: 'Jane', email: 'jane@acme.com', status: 'trial' },
+        ],
+      })
+    );
+
+    const result = await new ScoutBackend({ retry: false }).listContacts('key');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.map((contact) => contact.status)).toEqual(['lead', 'trial']);
+    expect(result.validationErrors).toBeUndefined();
+  });
+
+  it('fails contact details that cannot be validated', async () => {
+    mockFetch.mockResolvedValueOnce(scoutReply({ id: 'c1', name: 'John', status: 'lead', activities: [] }));
+
+    const result = await new ScoutBackend({ retry: false }).getContactDetails('key', 'c1');
+
+    expect(result.success).toBe(false);
+    expect(result.validationErrors).toEqual([{ path: 'email', message: 'is required' }]);
+  });
+
+  it('fills the contactId of a logged activity from the request', async () => {
+    const { contactId: _omit, ...reply } = validActivity;
+    mockFetch.mockResolvedValueOnce(scoutReply(reply));
+
+    const result = await new ScoutBackend({ retry: false }).logActivity('key', {
+      contactId: 'c1',
+      type: 'call',
+      description: 'Intro call',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.contactId).toBe('c1');
+  });
+});
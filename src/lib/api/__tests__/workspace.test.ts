@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  DEFAULT_WORKSPACE,
+  getPipeline,
+  normalizeWorkspace,
+  validateWorkspace,
+  workflowEndpoint,
+  setWorkspace,
+} from '../workspace';
+import { executeCommand, listContacts, selectWorkspace } from '../client';
+import { DEFAULT_PIPELINE } from '../pipeline';
+import { loadWorkspace, saveWorkspace } from '../../stores/workspace';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+(globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+const staging = {
+  baseUrl: 'https://staging.scout.test/',
+  workflowId: 'wf_staging',
+  context: { user_id: ' team-a ', session_id: '' },
+};
+
+function okResponse(data: unknown) {
+  return {
+    ok: true,
+    json: () =>
+      Promise.resolve({ run: { state: { agent_message: { output: '```json\n' + JSON.stringify(data) + '\n```' } } } }),
+  };
+}
+
+describe('workspace settings', () => {
+  it('defaults to the production workflow', () => {
+    expect(workflowEndpoint(DEFAULT_WORKSPACE)).toBe(
+      'https://api-prod.scoutos.com/v2/workflows/wf_cmj94h2ij00010hs6hqatcw6x/execute'
+    );
+  });
+
+  it('normalises base URL and drops empty context', () => {
+    expect(normalizeWorkspace(staging)).toEqual({
+      baseUrl: 'https://staging.scout.test',
+      workflowId: 'wf_staging',
+      context: { user_id: 'team-a' },
+    });
+  });
+
+  it('validates base URL and workflow ID', () => {
+    expect(validateWorkspace(staging)).toEqual({});
+    expect(validateWorkspace({ baseUrl: 'ftp://x', workflowId: 'wf/../admin' })).toEqual({
+      baseUrl: 'Base URL must start with http:// or https://',
+      workflowId: 'Workflow ID may only contain letters, numbers, _ and -',
+    });
+    expect(validateWorkspace({ baseUrl: '', workflowId: '' })).toEqual({
+      baseUrl: 'Base URL is required',
+      workflowId: 'Workflow ID is required',
+    });
+  });
+});
+
+describe('workspace pipeline', () => {
+  afterEach(() => {
+    setWorkspace(DEFAULT_WORKSPACE);
+  });
+
+  const pipeline = {
+    stages: [
+      { id: '', label: ' MQL ', color: 'blue' as const, aliases: ['Lead'] },
+      { id: '', label: 'Customer', color: 'green' as const, terminal: 'won' as const },
+    ],
+  };
+
+  it('keeps a custom pipeline, normalized', () => {
+    expect(normalizeWorkspace({ ...staging, pipeline }).pipeline).toEqual({
+      stages: [
+        { id: 'mql', label: 'MQL', color: 'blue', aliases: ['lead'] },
+        { id: 'customer', label: 'Customer', color: 'green', terminal: 'won' },
+      ],
+    });
+  });
+
+  it('leaves out a pipeline that is the default one', () => {
+    expect(normalizeWorkspace({ ...staging, pipeline: DEFAULT_PIPELINE })).not.toHaveProperty('pipeline');
+  });
+
+  it('validates the pipeline', () => {
+    expect(validateWorkspace({ ...staging, pipeline: { stages: [] } })).toEqual({ pipeline: 'Add at least one stage' });
+  });
+
+  it('uses the pipeline of the active workspace', () => {
+    expect(getPipeline()).toBe(DEFAULT_PIPELINE);
+    setWorkspace({ ...staging, pipeline });
+    expect(getPipeline().stages.map((stage) => stage.id)).toEqual(['mql', 'customer']);
+  });
+});
+
+describe('workspace persistence', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('stores settings per login', () => {
+    saveWorkspace('alice', staging);
+
+    expect(loadWorkspace('Alice').workflowId).toBe('wf_staging');
+    expect(loadWorkspace('bob')).toEqual(DEFAULT_WORKSPACE);
+  });
+
+  it('ignores incomplete stored settings', () => {
+    localStorage.setItem('crm_workspace:alice', JSON.stringify({ baseUrl: 'https://x.test' }));
+
+    expect(loadWorkspace('alice')).toEqual(DEFAULT_WORKSPACE);
+  });
+});
+
+describe('commands use the active workspace', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    setWorkspace(DEFAULT_WORKSPACE);
+  });
+
+  it('sends commands to the workspace workflow with its context', async () => {
+    selectWorkspace(staging);
+    mockFetch.mockResolvedValueOnce(okResponse({ ok: true }));
+
+    await executeCommand('key', 'COMMAND');
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://staging.scout.test/v2/workflows/wf_staging/execute');
+    expect(JSON.parse(init.body)).toEqual({
+      inputs: { message: 'COMMAND' },
+      stream: false,
+      context: { user_id: 'team-a' },
+    });
+  });
+
+  it('clears cached data when switching workspaces', async () => {
+    mockFetch.mockResolvedValue(okResponse({ contacts: [] }));
+    selectWorkspace(DEFAULT_WORKSPACE);
+    await listContacts('key');
+    await listContacts('key');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    selectWorkspace(staging);
+    await listContacts('key');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('clears cached data when the pipeline changes', async () => {
+    mockFetch.mockResolvedValue(okResponse({ contacts: [] }));
+    selectWorkspace(staging);
+    await listContacts('key');
+
+    selectWorkspace({ ...staging, pipeline: { stages: [{ id: 'mql', label: 'MQL', color: 'blue' }] } });
+    await listContacts('key');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    selectWorkspace(DEFAULT_WORKSPACE);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * CRM Backend selection
+ *
+ * The API client delegates all data access to the active backend.
+ * The backend is chosen once at startup (see main.ts) from the
+ * VITE_CRM_BACKEND environment variable and defaults to Scout.
+ */
+
+import type { BackendKind, CrmBackend } from './types';
+import { ScoutBackend } from './scoutBackend';
+import { LocalBackend } from './localBackend';
+
+export type {
+  BackendKind,
+  BatchRequest,
+  BatchResponses,
+  CrmBackend,
+  CrmOperation,
+  OperationArgs,
+  OperationResults,
+  RequestOptions,
+  StreamingRequestOptions
+} from './types';
+export type { ScoutBackendOptions } from './scoutBackend';
+export type { LocalDatabase, LocalBackendOptions } from './localBackend';
+export { ScoutBackend } from './scoutBackend';
+export { LocalBackend } from './localBackend';
+
+let activeBackend: CrmBackend = new ScoutBackend();
+
+/**
+ * Create a backend instance for the given kind
+ */
+export function createBackend(kind: BackendKind): CrmBackend {
+  switch (kind) {
+    case 'local':
+      return new LocalBackend();
+    case 'scout':
+    default:
+      return new ScoutBackend();
+  }
+}
+
+/**
+ * Parse a backend kind from configuration, falling back to Scout
+ * for missing or unknown values
+ */
+export function resolveBackendKind(value: string | undefined | null): BackendKind {
+  return value?.trim().toLowerCase() === 'local' ? 'local' : 'scout';
+}
+
+/**
+ * Get the currently active backend
+ */
+export function getBackend(): CrmBackend {
+  return activeBackend;
+}
+
+/**
+ * Replace the active backend
+ * Accepts either a kind or a custom implementation (for non-Scout data sources)
+ */
+export function setBackend(backend: BackendKind | CrmBackend): CrmBackend {
+  activeBackend = typeof backend === 'string' ? createBackend(backend) : backend;
+  return activeBackend;
+}
@@ -0,0 +1,438 @@
+/**
+ * Local Backend
+ *
+ * Fully in-browser CRM backend. Data lives in memory and is persisted to
+ * localStorage so it survives a refresh. Used for offline demos and
+ * development without Scout credentials.
+ */
+
+import type {
+  ApiResponse,
+  Contact,
+  ContactDeletion,
+  ContactWithActivities,
+  Activity,
+  DashboardData,
+  CreateContactData,
+  LogActivityData,
+  ContactStatus,
+  ContactStatusUpdate,
+  ContactPage,
+  PageRequest,
+  UpdateContactData
+} from '../../types';
+import type { BatchRequest, BatchResponses, CrmBackend, RequestOptions, StreamingRequestOptions } from './types';
+import { cancelledResponse, errorResponse } from '../errors';
+import { runBatchSequentially } from '../batch';
+import { normalizeStatus } from '../normalize';
+import { isLostStage, stageIds } from '../pipeline';
+import { getPipeline } from '../workspace';
+
+/**
+ * Shape of the persisted local database
+ */
+export interface LocalDatabase {
+  contacts: Contact[];
+  activities: Activity[];
+  /** ID of the record created with each idempotency key */
+  idempotencyKeys?: Record<string, string>;
+}
+
+/**
+ * Options for the local backend
+ */
+export interface LocalBackendOptions {
+  /** localStorage key for persistence (null disables persistence) */
+  storageKey?: string | null;
+  /** Initial data used when nothing has been persisted yet */
+  seed?: LocalDatabase;
+  /** Artificial latency in milliseconds, to mimic a remote backend */
+  latencyMs?: number;
+}
+
+const DEFAULT_STORAGE_KEY = 'crm_local_db';
+
+/** Number of activities included in the dashboard summary */
+const RECENT_ACTIVITY_LIMIT = 5;
+
+let idCounter = 0;
+
+/**
+ * Generate a locally unique record ID
+ */
+function generateId(prefix: string): string {
+  idCounter += 1;
+  return `${prefix}_${Date.now().toString(36)}${idCounter.toString(36)}`;
+}
+
+/**
+ * Sort contacts by name, then by ID so equal names keep a stable order
+ */
+function byName(a: Contact, b: Contact): number {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }) || a.id.localeCompare(b.id);
+}
+
+/**
+ * Sort activities newest first
+ */
+function byNewest(a: Activity, b: Activity): number {
+  return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+}
+
+export class LocalBackend implements CrmBackend {
+  readonly kind = 'local' as const;
+
+  private readonly storageKey: string | null;
+  private readonly latencyMs: number;
+  private db: LocalDatabase;
+
+  constructor(options: LocalBackendOptions = {}) {
+    this.storageKey = options.storageKey === undefined ? DEFAULT_STORAGE_KEY : options.storageKey;
+    this.latencyMs = options.latencyMs ?? 0;
+    // Copy the seed records, since updates change the stored records in place
+    this.db = this.load() ?? {
+      contacts: (options.seed?.contacts ?? []).map((contact) => ({ ...contact })),
+      activities: (options.seed?.activities ?? []).map((activity) => ({ ...activity }))
+    };
+  }
+
+  /**
+   * Load the persisted database, if any
+   */
+  private load(): LocalDatabase | null {
+    if (!this.storageKey || typeof localStorage === 'undefined') {
+      return null;
+    }
+
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      if (!raw) return null;
+      const parsed = JSON.parse(raw) as LocalDatabase;
+      if (Array.isArray(parsed.contacts) && Array.isArray(parsed.activities)) {
+        return parsed;
+      }
+    } catch (error) {
+      console.error('[LocalBackend] Failed to load local database:', error);
+    }
+    return null;
+  }
+
+  /**
+   * Persist the database to localStorage
+   */
+  private save(): void {
+    if (!this.storageKey || typeof localStorage === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.db));
+    } catch (error) {
+      console.warn('[LocalBackend] Unable to persist local database:', error);
+    }
+  }
+
+  /**
+   * Resolve with the given response after the configured latency.
+   * An aborted signal short-circuits with a cancelled response.
+   */
+  private respond<T>(response: ApiResponse<T>, signal?: AbortSignal): Promise<ApiResponse<T>> {
+    if (signal?.aborted) {
+      return Promise.resolve(cancelledResponse<T>());
+    }
+    if (this.latencyMs <= 0) {
+      return Promise.resolve(response);
+    }
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(response);
+      }, this.latencyMs);
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve(cancelledResponse<T>());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * The stored contacts. Statuses saved under an earlier pipeline are moved
+   * onto the stage that now claims them, and the move is persisted.
+   */
+  private contacts(): Contact[] {
+    let migrated = false;
+    for (const contact of this.db.contacts) {
+      const status = normalizeStatus(contact.status);
+      if (typeof status === 'string' && status !== contact.status) {
+        contact.status = status;
+        migrated = true;
+      }
+    }
+    if (migrated) this.save();
+    return this.db.contacts;
+  }
+
+  private findContact(contactId: string): Contact | undefined {
+    return this.contacts().find((c) => c.id === contactId);
+  }
+
+  /**
+   * ID of the record created with an idempotency key, if any
+   */
+  private recordFor(key: string | undefined): string | undefined {
+    return key ? this.db.idempotencyKeys?.[key] : undefined;
+  }
+
+  /**
+   * Remember the record created with an idempotency key
+   */
+  private remember(key: string | undefined, recordId: string): void {
+    if (key) {
+      this.db.idempotencyKeys = { ...this.db.idempotencyKeys, [key]: recordId };
+    }
+  }
+
+  /**
+   * Get a snapshot of all local data (useful for export/debugging)
+   */
+  snapshot(): LocalDatabase {
+    return structuredClone(this.db);
+  }
+
+  /**
+   * Remove all local data
+   */
+  reset(): void {
+    this.db = { contacts: [], activities: [] };
+    this.save();
+  }
+
+  // Local data arrives all at once, so onItem is never needed
+  listContacts(_apiKey: string, options: StreamingRequestOptions<Contact> = {}): Promise<ApiResponse<Contact[]>> {
+    return this.respond(
+      { success: true, data: this.contacts().map((c) => ({ ...c })) },
+      options.signal
+    );
+  }
+
+  listContactsPage(
+    _apiKey: string,
+    { offset, limit }: PageRequest,
+    options: StreamingRequestOptions<Contact> = {}
+  ): Promise<ApiResponse<ContactPage>> {
+    const sorted = [...this.contacts()].sort(byName);
+    const end = offset + limit;
+    const page: ContactPage = {
+      contacts: sorted.slice(offset, end).map((c) => ({ ...c })),
+      offset,
+      nextOffset: end < sorted.length ? end : null,
+      total: sorted.length
+    };
+    return this.respond({ success: true, data: page }, options.signal);
+  }
+
+  getContactDetails(
+    _apiKey: string,
+    contactId: string,
+    options: StreamingRequestOptions<Activity> = {}
+  ): Promise<ApiResponse<ContactWithActivities>> {
+    const contact = this.findContact(contactId);
+    if (!contact) {
+      return this.respond(errorResponse('not_found', `Contact not found: ${contactId}`), options.signal);
+    }
+
+    const activities = this.db.activities
+      .filter((a) => a.contactId === contactId)
+      .sort(byNewest);
+
+    return this.respond({ success: true, data: { ...contact, activities } }, options.signal);
+  }
+
+  createContact(
+    _apiKey: string,
+    data: CreateContactData,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Contact>> {
+    if (options.signal?.aborted) {
+      return Promise.resolve(cancelledResponse<Contact>());
+    }
+
+    // A repeated request returns the contact its first attempt created
+    const repeatedId = this.recordFor(data.idempotencyKey);
+    const repeated = repeatedId && this.findContact(repeatedId);
+    if (repeated) {
+      return this.respond({ success: true, data: { ...repeated } }, options.signal);
+    }
+
+    const contact: Contact = {
+      id: generateId('contact'),
+      name: data.name,
+      email: data.email,
+      status: data.status || stageIds(getPipeline())[0]
+    };
+    if (data.company) contact.company = data.company;
+    if (data.phone) contact.phone = data.phone;
+
+    this.db.contacts.push(contact);
+    this.remember(data.idempotencyKey, contact.id);
+    this.save();
+
+    return this.respond({ success: true, data: { ...contact } }, options.signal);
+  }
+
+  logActivity(
+    _apiKey: string,
+    data: LogActivityData,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Activity>> {
+    if (options.signal?.aborted) {
+      return Promise.resolve(cancelledResponse<Activity>());
+    }
+
+    if (!this.findContact(data.contactId)) {
+      return this.respond(errorResponse('not_found', `Contact not found: ${data.contactId}`), options.signal);
+    }
+
+    const repeatedId = this.recordFor(data.idempotencyKey);
+    const repeated = repeatedId && this.db.activities.find((a) => a.id === repeatedId);
+    if (repeated) {
+      return this.respond({ success: true, data: { ...repeated } }, options.signal);
+    }
+
+    const activity: Activity = {
+      id: generateId('activity'),
+      contactId: data.contactId,
+      type: data.type,
+      description: data.description,
+      timestamp: new Date().toISOString()
+    };
+    if (data.outcome) activity.outcome = data.outcome;
+
+    this.db.activities.push(activity);
+    this.remember(data.idempotencyKey, activity.id);
+    this.save();
+
+    return this.respond({ success: true, data: { ...activity } }, options.signal);
+  }
+
+  getDashboard(_apiKey: string, options: RequestOptions = {}): Promise<ApiResponse<DashboardData>> {
+    const contacts = this.contacts();
+    const counts: DashboardData['contactCounts'] = { total: contacts.length };
+    for (const status of stageIds(getPipeline())) {
+      counts[status] = contacts.filter((contact) => contact.status === status).length;
+    }
+
+    return this.respond({
+      success: true,
+      data: {
+        contactCounts: counts,
+        activityCount: this.db.activities.length,
+        recentActivities: [...this.db.activities].sort(byNewest).slice(0, RECENT_ACTIVITY_LIMIT)
+      }
+    }, options.signal);
+  }
+
+  searchContacts(
+    _apiKey: string,
+    query: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Contact[]>> {
+    const needle = query.trim().toLowerCase();
+    const matches = this.contacts().filter((c) =>
+      [c.name, c.email, c.company, c.phone].some((field) => field?.toLowerCase().includes(needle))
+    );
+    return this.respond({ success: true, data: matches.map((c) => ({ ...c })) }, options.signal);
+  }
+
+  updateContact(
+    _apiKey: string,
+    contactId: string,
+    changes: UpdateContactData,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Contact>> {
+    if (options.signal?.aborted) {
+      return Promise.resolve(cancelledResponse<Contact>());
+    }
+
+    const contact = this.findContact(contactId);
+    if (!contact) {
+      return this.respond(errorResponse('not_found', `Contact not found: ${contactId}`), options.signal);
+    }
+
+    if (changes.name !== undefined) contact.name = changes.name;
+    if (changes.email !== undefined) contact.email = changes.email;
+    if (changes.status !== undefined) contact.status = changes.status;
+    if (changes.archived) contact.archived = true;
+    else if (changes.archived !== undefined) delete contact.archived;
+    // An empty optional field is removed rather than stored as ''
+    for (const field of ['phone', 'company', 'lossReason'] as const) {
+      const value = changes[field];
+      if (value) contact[field] = value;
+      else if (value !== undefined) delete contact[field];
+    }
+    if (!isLostStage(getPipeline(), contact.status)) delete contact.lossReason;
+    this.save();
+
+    return this.respond({ success: true, data: { ...contact } }, options.signal);
+  }
+
+  updateContactStatus(
+    _apiKey: string,
+    contactId: string,
+    status: ContactStatus,
+    lossReason?: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<ContactStatusUpdate>> {
+    if (options.signal?.aborted) {
+      return Promise.resolve(cancelledResponse<ContactStatusUpdate>());
+    }
+
+    const contact = this.findContact(contactId);
+    if (!contact) {
+      return this.respond(errorResponse('not_found', `Contact not found: ${contactId}`), options.signal);
+    }
+
+    contact.status = status;
+    // Only a lost contact has a loss reason; without a new one the old one is kept
+    if (lossReason) contact.lossReason = lossReason;
+    if (lossReason === '' || !isLostStage(getPipeline(), status)) delete contact.lossReason;
+    this.save();
+
+    const update: ContactStatusUpdate = { id: contact.id, status };
+    if (contact.lossReason) update.lossReason = contact.lossReason;
+    return this.respond({ success: true, data: update }, options.signal);
+  }
+
+  deleteContact(
+    _apiKey: string,
+    contactId: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<ContactDeletion>> {
+    if (options.signal?.aborted) {
+      return Promise.resolve(cancelledResponse<ContactDeletion>());
+    }
+
+    if (!this.findContact(contactId)) {
+      return this.respond(errorResponse('not_found', `Contact not found: ${contactId}`), options.signal);
+    }
+
+    // The contact's activities go with it
+    const remaining = this.db.activities.filter((a) => a.contactId !== contactId);
+    const activitiesDeleted = this.db.activities.length - remaining.length;
+    this.db.contacts = this.db.contacts.filter((c) => c.id !== contactId);
+    this.db.activities = remaining;
+    this.save();
+
+    return this.respond({ success: true, data: { id: contactId, activitiesDeleted } }, options.signal);
+  }
+
+  async batch<const R extends readonly BatchRequest[]>(
+    apiKey: string,
+    requests: R,
+    options: RequestOptions = {}
+  ): Promise<BatchResponses<R>> {
+    // Local operations cost nothing to send, so they simply run in order
+    return (await runBatchSequentially(this, apiKey, requests, options)) as BatchResponses<R>;
+  }
+}
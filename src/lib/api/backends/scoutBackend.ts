@@ -0,0 +1,450 @@
+/**
+ * Scout Backend
+ *
+ * Implements the CRM backend on top of the Scout workflow API by sending
+ * natural language commands and parsing the JSON embedded in the reply.
+ * Each command also carries a structured intent. Replies are normalized onto
+ * the canonical record shapes, checked against the intent's response schema,
+ * then validated. Batches send several commands as one workflow run and
+ * handle each operation's share of the reply the same way.
+ */
+
+import type {
+  ApiResponse,
+  Contact,
+  ContactDeletion,
+  ContactWithActivities,
+  Activity,
+  DashboardData,
+  CreateContactData,
+  LogActivityData,
+  ContactStatus,
+  ContactStatusUpdate,
+  ContactPage,
+  PageRequest,
+  UpdateContactData
+} from '../../types';
+import type {
+  BatchRequest,
+  BatchResponses,
+  CrmBackend,
+  CrmOperation,
+  OperationArgs,
+  OperationResults,
+  RequestOptions,
+  StreamingRequestOptions
+} from './types';
+import type { RetryPolicy } from '../retry';
+
+import {
+  listContactsCommand,
+  listContactsPageCommand,
+  getDashboardCommand,
+  getContactDetailsCommand,
+  createContactCommand,
+  logActivityCommand,
+  searchContactsCommand,
+  updateContactCommand,
+  updateContactStatusCommand,
+  deleteContactCommand,
+  batchCommand
+} from '../commands';
+import { executeCommand, streamCommand, type ExecuteCommandOptions } from '../scout';
+import {
+  applyValidation,
+  validateActivity,
+  validateContact,
+  validateContactList,
+  validateContactPage,
+  validateContactWithActivities,
+  validateDashboardData,
+  validateStatusUpdate,
+  validateContactDeletion,
+  type Validator
+} from '../validation';
+import {
+  activityNormalizerFor,
+  contactPageNormalizerFor,
+  normalizeContact,
+  normalizeContactList,
+  normalizeContactWithActivities,
+  normalizeDashboardData,
+  normalizeResponse,
+  type Normalizer
+} from '../normalize';
+import { createBatchIntent, createIntent, verifyResponse, type CommandIntent } from '../intents';
+import { splitBatchResponse } from '../batch';
+import { promptRegistry, type PromptName, type PromptRef } from '../prompts';
+import { countedStages } from '../pipeline';
+import { getPipeline } from '../workspace';
+import { metrics } from '../../metrics';
+
+/**
+ * Per-operation timeouts in milliseconds.
+ * Reads are retried on timeout, so they get a tighter bound than writes.
+ */
+export const DEFAULT_COMMAND_TIMEOUTS: Record<CrmOperation, number> = {
+  listContacts: 60 * 1000,
+  listContactsPage: 45 * 1000,
+  getContactDetails: 45 * 1000,
+  getDashboard: 45 * 1000,
+  searchContacts: 45 * 1000,
+  createContact: 90 * 1000,
+  logActivity: 90 * 1000,
+  updateContact: 60 * 1000,
+  updateContactStatus: 60 * 1000,
+  deleteContact: 60 * 1000,
+};
+
+/** Number of recent activities requested for the dashboard */
+const DASHBOARD_ACTIVITY_LIMIT = 5;
+
+/**
+ * Operations that must not be blindly repeated: a retry after a timeout
+ * could create a duplicate record. A repeated delete does no harm; the client
+ * settles one that finds its contact already gone.
+ */
+const NON_IDEMPOTENT_OPERATIONS: ReadonlySet<CrmOperation> = new Set<CrmOperation>([
+  'createContact',
+  'logActivity',
+]);
+
+/**
+ * Operations that change data; they are scheduled ahead of reads
+ */
+const MUTATION_OPERATIONS: ReadonlySet<CrmOperation> = new Set<CrmOperation>([
+  'createContact',
+  'logActivity',
+  'updateContact',
+  'updateContactStatus',
+  'deleteContact',
+]);
+
+/**
+ * Options for the Scout backend
+ */
+export interface ScoutBackendOptions {
+  /** Override timeouts for individual operations */
+  timeouts?: Partial<Record<CrmOperation, number>>;
+  /** Retry policy overrides applied to every command, or false to disable retries */
+  retry?: Partial<RetryPolicy> | false;
+  /** Stream list responses when the caller wants items progressively (default true) */
+  streaming?: boolean;
+  /** Prompt template versions to send instead of the active ones, e.g. to compare two versions */
+  promptVersions?: Partial<Record<PromptName, number>>;
+}
+
+/**
+ * Array in a response whose items are streamed to the caller
+ */
+interface StreamTarget {
+  arrayKey: string;
+  onItem?: (item: unknown) => void;
+}
+
+/**
+ * Everything needed to send an operation and interpret its reply
+ */
+interface PreparedCommand<T> {
+  message: string;
+  intent: CommandIntent;
+  normalize: Normalizer;
+  validate: Validator<T>;
+}
+
+type CommandPreparers = {
+  [O in CrmOperation]: (args: OperationArgs[O], prompt: PromptRef) => PreparedCommand<OperationResults[O]>;
+};
+
+const COMMANDS: CommandPreparers = {
+  listContacts: (_args, prompt) => ({
+    message: listContactsCommand(prompt.version),
+    intent: createIntent('listContacts', {}, prompt),
+    normalize: normalizeContactList,
+    validate: validateContactList
+  }),
+  listContactsPage: (page, prompt) => ({
+    message: listContactsPageCommand(page, prompt.version),
+    intent: createIntent('listContactsPage', { offset: page.offset, limit: page.limit }, prompt),
+    normalize: contactPageNormalizerFor(page),
+    validate: validateContactPage
+  }),
+  getContactDetails: ({ contactId }, prompt) => ({
+    message: getContactDetailsCommand(contactId, prompt.version),
+    intent: createIntent('getContactDetails', { contactId }, prompt),
+    normalize: normalizeContactWithActivities,
+    validate: validateContactWithActivities
+  }),
+  createContact: (data, prompt) => ({
+    message: createContactCommand(data, prompt.version),
+    intent: createIntent('createContact', data, prompt),
+    normalize: normalizeContact,
+    validate: validateContact
+  }),
+  logActivity: (data, prompt) => ({
+    message: logActivityCommand(data, prompt.version),
+    intent: createIntent('logActivity', data, prompt),
+    normalize: activityNormalizerFor(data.contactId),
+    validate: validateActivity
+  }),
+  getDashboard: (_args, prompt) => {
+    const stages = countedStages(getPipeline());
+    return {
+      message: getDashboardCommand(DASHBOARD_ACTIVITY_LIMIT, prompt.version, stages),
+      intent: createIntent('getDashboard', { activityLimit: DASHBOARD_ACTIVITY_LIMIT, stages }, prompt),
+      normalize: normalizeDashboardData,
+      validate: validateDashboardData
+    };
+  },
+  searchContacts: ({ query }, prompt) => ({
+    message: searchContactsCommand(query, prompt.version),
+    intent: createIntent('searchContacts', { query }, prompt),
+    normalize: normalizeContactList,
+    validate: validateContactList
+  }),
+  updateContact: ({ contactId, changes }, prompt) => ({
+    message: updateContactCommand(contactId, changes, prompt.version),
+    intent: createIntent('updateContact', { contactId, changes }, prompt),
+    normalize: normalizeContact,
+    validate: validateContact
+  }),
+  updateContactStatus: ({ contactId, status, lossReason }, prompt) => ({
+    message: updateContactStatusCommand(contactId, status, lossReason, prompt.version),
+    intent: createIntent('updateContactStatus', { contactId, status, ...(lossReason !== undefined ? { lossReason } : {}) }, prompt),
+    normalize: normalizeContact,
+    validate: validateStatusUpdate
+  }),
+  deleteContact: ({ contactId }, prompt) => ({
+    message: deleteContactCommand(contactId, prompt.version),
+    intent: createIntent('deleteContact', { contactId }, prompt),
+    normalize: normalizeContact,
+    validate: validateContactDeletion
+  })
+};
+
+export class ScoutBackend implements CrmBackend {
+  readonly kind = 'scout' as const;
+
+  private readonly timeouts: Record<CrmOperation, number>;
+  private readonly retry?: Partial<RetryPolicy> | false;
+  private readonly streaming: boolean;
+  private readonly promptVersions: Partial<Record<PromptName, number>>;
+
+  constructor(options: ScoutBackendOptions = {}) {
+    this.timeouts = { ...DEFAULT_COMMAND_TIMEOUTS, ...options.timeouts };
+    this.retry = options.retry;
+    this.streaming = options.streaming ?? true;
+    this.promptVersions = options.promptVersions ?? {};
+  }
+
+  /**
+   * Build the command for an operation from the prompt version this backend uses
+   */
+  private prepare<O extends CrmOperation>(operation: O, args: OperationArgs[O]): PreparedCommand<OperationResults[O]> {
+    const { name, version } = promptRegistry.resolve(operation, this.promptVersions[operation]);
+    const preparer = COMMANDS[operation] as (
+      args: OperationArgs[O],
+      prompt: PromptRef
+    ) => PreparedCommand<OperationResults[O]>;
+    return preparer(args, { name, version });
+  }
+
+  /**
+   * Execution options for a run of one or more operations: the longest of
+   * their timeouts, the retry policy, whether the run is safe to repeat, its
+   * scheduling priority, and the caller's cancellation signal and exchange
+   * listener
+   */
+  private optionsFor(operations: readonly CrmOperation[], options: RequestOptions): ExecuteCommandOptions {
+    return {
+      timeoutMs: Math.max(...operations.map((operation) => this.timeouts[operation])),
+      retry: this.retry,
+      idempotent: !operations.some((operation) => NON_IDEMPOTENT_OPERATIONS.has(operation)),
+      priority:
+        options.priority ?? (operations.some((operation) => MUTATION_OPERATIONS.has(operation)) ? 'mutation' : 'foreground'),
+      signal: options.signal,
+      onExchange: options.onExchange
+    };
+  }
+
+  /**
+   * Send a command with its intent, streaming it when the caller listens for items of `stream`
+   */
+  private send(
+    apiKey: string,
+    command: PreparedCommand<unknown>,
+    options: RequestOptions,
+    stream?: StreamTarget
+  ): Promise<ApiResponse<unknown>> {
+    const { message, intent } = command;
+    const executeOptions = { ...this.optionsFor([intent.operation], options), intent };
+    if (this.streaming && stream?.onItem) {
+      return streamCommand(apiKey, message, { ...executeOptions, arrayKey: stream.arrayKey, onItem: stream.onItem });
+    }
+    return executeCommand(apiKey, message, executeOptions);
+  }
+
+  /**
+   * Send a command and turn its reply into the operation's result, recording
+   * how long that took and how it ended
+   */
+  private async run<T>(
+    apiKey: string,
+    command: PreparedCommand<T>,
+    options: RequestOptions,
+    stream?: StreamTarget
+  ): Promise<ApiResponse<T>> {
+    const startedAt = Date.now();
+    const result = this.finish(await this.send(apiKey, command, options, stream), command);
+    metrics.recordCommand(command.intent.operation, Date.now() - startedAt, result);
+    return result;
+  }
+
+  /**
+   * Turn a raw reply into the operation's result: normalize it, check it
+   * against the intent's schema, then validate it
+   */
+  private finish<T>(response: ApiResponse<unknown>, command: PreparedCommand<T>): ApiResponse<T> {
+    return applyValidation(verifyResponse(normalizeResponse(response, command.normalize), command.intent), command.validate);
+  }
+
+  async listContacts(
+    apiKey: string,
+    options: StreamingRequestOptions<Contact> = {}
+  ): Promise<ApiResponse<Contact[]>> {
+    const { onItem } = options;
+    const command = this.prepare('listContacts', {});
+    return this.run(apiKey, command, options, {
+      arrayKey: 'contacts',
+      onItem: onItem && ((item) => {
+        const result = validateContact(normalizeContact(item));
+        if (result.ok) onItem(result.value);
+      })
+    });
+  }
+
+  async listContactsPage(
+    apiKey: string,
+    page: PageRequest,
+    options: StreamingRequestOptions<Contact> = {}
+  ): Promise<ApiResponse<ContactPage>> {
+    const { onItem } = options;
+    const command = this.prepare('listContactsPage', page);
+    return this.run(apiKey, command, options, {
+      arrayKey: 'contacts',
+      onItem: onItem && ((item) => {
+        const result = validateContact(normalizeContact(item));
+        if (result.ok) onItem(result.value);
+      })
+    });
+  }
+
+  async getContactDetails(
+    apiKey: string,
+    contactId: string,
+    options: StreamingRequestOptions<Activity> = {}
+  ): Promise<ApiResponse<ContactWithActivities>> {
+    const { onItem } = options;
+    const command = this.prepare('getContactDetails', { contactId });
+    return this.run(apiKey, command, options, {
+      arrayKey: 'activities',
+      onItem: onItem && ((item) => {
+        const result = validateActivity(activityNormalizerFor(contactId)(item));
+        if (result.ok) onItem(result.value);
+      })
+    });
+  }
+
+  async createContact(
+    apiKey: string,
+    data: CreateContactData,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Contact>> {
+    const command = this.prepare('createContact', data);
+    return this.run(apiKey, command, options);
+  }
+
+  async logActivity(
+    apiKey: string,
+    data: LogActivityData,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Activity>> {
+    const command = this.prepare('logActivity', data);
+    return this.run(apiKey, command, options);
+  }
+
+  async getDashboard(apiKey: string, options: RequestOptions = {}): Promise<ApiResponse<DashboardData>> {
+    const command = this.prepare('getDashboard', {});
+    return this.run(apiKey, command, options);
+  }
+
+  async searchContacts(
+    apiKey: string,
+    query: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Contact[]>> {
+    const command = this.prepare('searchContacts', { query });
+    return this.run(apiKey, command, options);
+  }
+
+  async updateContact(
+    apiKey: string,
+    contactId: string,
+    changes: UpdateContactData,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<Contact>> {
+    const command = this.prepare('updateContact', { contactId, changes });
+    return this.run(apiKey, command, options);
+  }
+
+  async updateContactStatus(
+    apiKey: string,
+    contactId: string,
+    status: ContactStatus,
+    lossReason?: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<ContactStatusUpdate>> {
+    const command = this.prepare('updateContactStatus', { contactId, status, lossReason });
+    return this.run(apiKey, command, options);
+  }
+
+  async deleteContact(
+    apiKey: string,
+    contactId: string,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<ContactDeletion>> {
+    const command = this.prepare('deleteContact', { contactId });
+    return this.run(apiKey, command, options);
+  }
+
+  async batch<const R extends readonly BatchRequest[]>(
+    apiKey: string,
+    requests: R,
+    options: RequestOptions = {}
+  ): Promise<BatchResponses<R>> {
+    if (requests.length === 0) {
+      return [] as unknown as BatchResponses<R>;
+    }
+
+    const commands: PreparedCommand<unknown>[] = requests.map((request) =>
+      this.prepare(request.operation, request.args)
+    );
+    const { name, version } = promptRegistry.resolve('batch', this.promptVersions.batch);
+    const startedAt = Date.now();
+    const response = await executeCommand(apiKey, batchCommand(commands.map((command) => command.message), version), {
+      ...this.optionsFor(
+        requests.map((request) => request.operation),
+        options
+      ),
+      intent: createBatchIntent(
+        commands.map((command) => command.intent),
+        { name, version }
+      )
+    });
+    // The run is measured as a whole; each operation's own result is not
+    metrics.recordCommand('batch', Date.now() - startedAt, response);
+
+    const parts = splitBatchResponse(response, commands.length);
+    return parts.map((part, index) => this.finish(part, commands[index])) as BatchResponses<R>;
+  }
+}
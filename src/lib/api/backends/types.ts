@@ -0,0 +1,161 @@
+/**
+ * CRM Backend types
+ *
+ * A backend is the data source behind the API client. The client layers
+ * caching and invalidation on top; backends only fetch and mutate.
+ */
+
+import type {
+  ApiResponse,
+  Contact,
+  ContactDeletion,
+  ContactWithActivities,
+  Activity,
+  DashboardData,
+  CreateContactData,
+  LogActivityData,
+  ContactStatus,
+  ContactStatusUpdate,
+  ContactPage,
+  PageRequest,
+  UpdateContactData
+} from '../../types';
+import type { WorkflowExchange } from '../scout';
+import type { RequestPriority } from '../scheduler';
+
+/**
+ * Available backend implementations
+ * - scout: Scout workflow API (natural language commands)
+ * - local: In-browser store persisted to localStorage, for offline demos
+ */
+export type BackendKind = 'scout' | 'local';
+
+/**
+ * Per-call options accepted by every backend operation
+ */
+export interface RequestOptions {
+  /** Cancels the operation; backends should stop work and report a cancelled response */
+  signal?: AbortSignal;
+  /** Receives each request the backend sends over the network (backends without one never call it) */
+  onExchange?: (exchange: WorkflowExchange) => void;
+  /** Scheduling class for network requests (defaults to 'mutation' for changes, 'foreground' for reads) */
+  priority?: RequestPriority;
+}
+
+/**
+ * Options for operations that return a collection and can report its items
+ * before the whole response has arrived
+ */
+export interface StreamingRequestOptions<T> extends RequestOptions {
+  /** Called with each validated item as it streams in; the final response still holds all items */
+  onItem?: (item: T) => void;
+}
+
+/**
+ * Contract every CRM data source implements.
+ * The apiKey is passed through for backends that need credentials;
+ * backends that don't (e.g. local) are free to ignore it.
+ */
+export interface CrmBackend {
+  /** Identifies the implementation (for debugging/UI) */
+  readonly kind: BackendKind;
+  /** List all contacts */
+  listContacts(apiKey: string, options?: StreamingRequestOptions<Contact>): Promise<ApiResponse<Contact[]>>;
+  /** List one page of contacts, ordered by name */
+  listContactsPage(
+    apiKey: string,
+    page: PageRequest,
+    options?: StreamingRequestOptions<Contact>
+  ): Promise<ApiResponse<ContactPage>>;
+  /** Get a single contact with its activities (streamed items are activities) */
+  getContactDetails(
+    apiKey: string,
+    contactId: string,
+    options?: StreamingRequestOptions<Activity>
+  ): Promise<ApiResponse<ContactWithActivities>>;
+  /** Create a new contact */
+  createContact(apiKey: string, data: CreateContactData, options?: RequestOptions): Promise<ApiResponse<Contact>>;
+  /** Log an activity against a contact */
+  logActivity(apiKey: string, data: LogActivityData, options?: RequestOptions): Promise<ApiResponse<Activity>>;
+  /** Get dashboard counts and recent activities */
+  getDashboard(apiKey: string, options?: RequestOptions): Promise<ApiResponse<DashboardData>>;
+  /** Search contacts by free-text query */
+  searchContacts(apiKey: string, query: string, options?: RequestOptions): Promise<ApiResponse<Contact[]>>;
+  /** Change some or all fields of a contact */
+  updateContact(
+    apiKey: string,
+    contactId: string,
+    changes: UpdateContactData,
+    options?: RequestOptions
+  ): Promise<ApiResponse<Contact>>;
+  /** Change a contact's status; a loss reason is kept only when the status is lost */
+  updateContactStatus(
+    apiKey: string,
+    contactId: string,
+    status: ContactStatus,
+    lossReason?: string,
+    options?: RequestOptions
+  ): Promise<ApiResponse<ContactStatusUpdate>>;
+  /** Permanently delete a contact and its activities */
+  deleteContact(apiKey: string, contactId: string, options?: RequestOptions): Promise<ApiResponse<ContactDeletion>>;
+  /**
+   * Run several operations in order, in a single round trip where the
+   * backend supports it. Later operations see the changes of earlier ones.
+   */
+  batch<const R extends readonly BatchRequest[]>(
+    apiKey: string,
+    requests: R,
+    options?: RequestOptions
+  ): Promise<BatchResponses<R>>;
+}
+
+/**
+ * Names of the data operations a backend provides
+ */
+export type CrmOperation = Exclude<keyof CrmBackend, 'kind' | 'batch'>;
+
+/**
+ * Arguments of each operation when it is part of a batch
+ */
+export interface OperationArgs {
+  listContacts: Record<string, never>;
+  listContactsPage: PageRequest;
+  getContactDetails: { contactId: string };
+  createContact: CreateContactData;
+  logActivity: LogActivityData;
+  getDashboard: Record<string, never>;
+  searchContacts: { query: string };
+  updateContact: { contactId: string; changes: UpdateContactData };
+  updateContactStatus: { contactId: string; status: ContactStatus; lossReason?: string };
+  deleteContact: { contactId: string };
+}
+
+/**
+ * Data each operation resolves with
+ */
+export interface OperationResults {
+  listContacts: Contact[];
+  listContactsPage: ContactPage;
+  getContactDetails: ContactWithActivities;
+  createContact: Contact;
+  logActivity: Activity;
+  getDashboard: DashboardData;
+  searchContacts: Contact[];
+  updateContact: Contact;
+  updateContactStatus: ContactStatusUpdate;
+  deleteContact: ContactDeletion;
+}
+
+/**
+ * One operation of a batch
+ */
+export type BatchRequest = { [O in CrmOperation]: { operation: O; args: OperationArgs[O] } }[CrmOperation];
+
+/**
+ * Responses to a batch, one per request and in the same order
+ */
+export type BatchResponses<R extends readonly BatchRequest[]> = {
+  -readonly [K in keyof R]: R[K] extends { operation: infer O extends CrmOperation }
+    ? ApiResponse<OperationResults[O]>
+    : never;
+};
@@ -0,0 +1,121 @@
+/**
+ * Batched operations
+ *
+ * A workflow run takes 20-30 seconds whatever it does, so operations that
+ * belong together (a mutation and the refreshes it makes necessary) are sent
+ * as one run. These helpers split a batch reply back into one response per
+ * operation, and run a batch one operation at a time for backends without a
+ * round-trip cost.
+ */
+
+import type { ApiResponse } from '../types';
+import type { BatchRequest, CrmBackend, RequestOptions } from './backends/types';
+import { createApiError } from './errors';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Split the reply to a batch into one raw response per operation.
+ *
+ * The reply holds `{"results": [...]}` (a bare array is accepted too) with one
+ * entry per operation; an entry of the form `{"error": "..."}` reports that
+ * operation as failed. A failed run, or a reply with the wrong number of
+ * results, fails every operation, since results cannot be matched up safely.
+ */
+export function splitBatchResponse(response: ApiResponse<unknown>, count: number): ApiResponse<unknown>[] {
+  if (!response.success) {
+    return Array.from({ length: count }, () => response);
+  }
+
+  const results = Array.isArray(response.data)
+    ? response.data
+    : isRecord(response.data) && Array.isArray(response.data.results)
+      ? response.data.results
+      : null;
+
+  if (results === null || results.length !== count) {
+    const detail =
+      results === null
+        ? 'Batch response has no results array'
+        : `Batch response has ${results.length} results, expected ${count}`;
+    const failed: ApiResponse<unknown> = {
+      success: false,
+      error: createApiError('validation_error', detail),
+      rawResponse: response.rawResponse,
+    };
+    return Array.from({ length: count }, () => failed);
+  }
+
+  return results.map((result): ApiResponse<unknown> => {
+    if (isRecord(result) && typeof result.error === 'string' && Object.keys(result).length === 1) {
+      return {
+        success: false,
+        error: createApiError('workflow_failed', result.error),
+        rawResponse: response.rawResponse,
+      };
+    }
+    return {
+      success: true,
+      data: result,
+      ...(response.meta ? { meta: response.meta } : {}),
+      rawResponse: response.rawResponse,
+    };
+  });
+}
+
+/**
+ * Run one batch request through the matching backend operation
+ */
+export function runBatchRequest(
+  backend: CrmBackend,
+  apiKey: string,
+  request: BatchRequest,
+  options?: RequestOptions
+): Promise<ApiResponse<unknown>> {
+  switch (request.operation) {
+    case 'listContacts':
+      return backend.listContacts(apiKey, options);
+    case 'listContactsPage':
+      return backend.listContactsPage(apiKey, request.args, options);
+    case 'getContactDetails':
+      return backend.getContactDetails(apiKey, request.args.contactId, options);
+    case 'createContact':
+      return backend.createContact(apiKey, request.args, options);
+    case 'logActivity':
+      return backend.logActivity(apiKey, request.args, options);
+    case 'getDashboard':
+      return backend.getDashboard(apiKey, options);
+    case 'searchContacts':
+      return backend.searchContacts(apiKey, request.args.query, options);
+    case 'updateContact':
+      return backend.updateContact(apiKey, request.args.contactId, request.args.changes, options);
+    case 'updateContactStatus':
+      return backend.updateContactStatus(
+        apiKey,
+        request.args.contactId,
+        request.args.status,
+        request.args.lossReason,
+        options
+      );
+    case 'deleteContact':
+      return backend.deleteContact(apiKey, request.args.contactId, options);
+  }
+}
+
+/**
+ * Run a batch one request after another, for backends where a round trip is cheap
+ */
+export async function runBatchSequentially(
+  backend: CrmBackend,
+  apiKey: string,
+  requests: readonly BatchRequest[],
+  options?: RequestOptions
+): Promise<ApiResponse<unknown>[]> {
+  const responses: ApiResponse<unknown>[] = [];
+  for (const request of requests) {
+    responses.push(await runBatchRequest(backend, apiKey, request, options));
+  }
+  return responses;
+}
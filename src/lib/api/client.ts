@@ -1,213 +1,148 @@
 /**
- * Scout API Client
+ * CRM API Client
  * 
- * Handles all communication with the Scout CRM API.
+ * Handles all communication with the active CRM backend (Scout by default).
  * Integrates with hybrid caching strategy for improved performance.
  */
 
 import type {
   ApiResponse,
   Contact,
+  ContactDeletion,
+  ContactPage,
   ContactWithActivities,
   Activity,
+  ContactStatus,
+  ContactStatusUpdate,
   DashboardData,
   CreateContactData,
-  LogActivityData
+  LogActivityData,
+  PageRequest,
+  UpdateContactData,
+  WorkspaceSettings
 } from '../types';
 
-import {
-  listContactsCommand,
-  getDashboardCommand,
-  getContactDetailsCommand,
-  createContactCommand,
-  logActivityCommand
-} from './commands';
+import type { BackendKind, BatchRequest, BatchResponses, CrmBackend, RequestOptions } from './backends';
+import { getBackend, setBackend } from './backends';
+
+import { cancelledResponse, errorResponse } from './errors';
+import { getPipeline, getWorkspace, setWorkspace, workflowEndpoint } from './workspace';
+import { isLostStage } from './pipeline';
+import { trafficInspector } from './inspector';
+import { mayHaveCompleted, pendingMutations, type PendingMutation } from './idempotency';
+import type { RequestPriority } from './scheduler';
+import type { WorkflowExchange } from './scout';
 
 import {
   cachedFetch,
+  isAbortError,
   invalidateCache,
   invalidateCachePattern,
+  clearAllCaches,
   getLastFetchTimestamp,
+  primeCache,
+  updateCache,
   DEFAULT_TTL,
   CACHE_KEYS,
 } from '../cache';
+import type { CacheConfig } from '../cache';
 
-const SCOUT_API_ENDPOINT = 'https://api-prod.scoutos.com/v2/workflows/wf_cmj94h2ij00010hs6hqatcw6x/execute';
+export { executeCommand } from './scout';
+export { isCancelled } from './errors';
+
+/** localStorage key remembering which backend produced the cached data */
+const BACKEND_STORAGE_KEY = 'crm_backend';
 
 /**
- * Parse the Scout API response to extract JSON data
- * The API returns JSON embedded in the run.state.agent_message.output field
+ * Select the backend used by all client functions
+ * Caches are cleared when the backend differs from the one that filled them,
+ * so data from one source never shows up under another.
  */
-function parseScoutResponse<T>(response: unknown): T | null {
+export function selectBackend(backend: BackendKind | CrmBackend): CrmBackend {
+  const selected = setBackend(backend);
+
   try {
-    if (typeof response === 'object' && response !== null) {
-      const resp = response as Record<string, unknown>;
-      
-      // Navigate to the output field in the Scout API response
-      // Structure: { run: { state: { agent_message: { output: "..." } } } }
-      let output: string | null = null;
-      
-      if (resp.run && typeof resp.run === 'object') {
-        const run = resp.run as Record<string, unknown>;
-        if (run.state && typeof run.state === 'object') {
-          const state = run.state as Record<string, unknown>;
-          if (state.agent_message && typeof state.agent_message === 'object') {
-            const agentMessage = state.agent_message as Record<string, unknown>;
-            if (typeof agentMessage.output === 'string') {
-              output = agentMessage.output;
-            }
-          }
-        }
-      }
-      
-      // Fallback: try other common response patterns
-      if (!output) {
-        if ('content' in resp && typeof resp.content === 'string') {
-          output = resp.content;
-        } else if ('message' in resp && typeof resp.message === 'string') {
-          output = resp.message;
-        } else if ('output' in resp && typeof resp.output === 'string') {
-          output = resp.output;
-        }
-      }
-      
-      if (output) {
-        // Try to extract JSON from markdown code blocks
-        const jsonMatch = output.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-        if (jsonMatch) {
-          return JSON.parse(jsonMatch[1]) as T;
-        }
-        // Try direct JSON parse
-        try {
-          return JSON.parse(output) as T;
-        } catch {
-          // Content might not be JSON, return null
-          return null;
-        }
-      }
-      
-      // If response itself looks like the data we want, return it
-      if ('contacts' in resp || 'id' in resp || 'contactCounts' in resp) {
-        return resp as T;
-      }
+    if (localStorage.getItem(BACKEND_STORAGE_KEY) !== selected.kind) {
+      clearAllCaches();
+      localStorage.setItem(BACKEND_STORAGE_KEY, selected.kind);
     }
-    
-    return null;
-  } catch (error) {
-    console.error('Failed to parse Scout response:', error);
-    return null;
+  } catch {
+    // localStorage unavailable - memory caches are per-session anyway
+    clearAllCaches();
   }
+
+  return selected;
 }
 
+/** localStorage key remembering which workspace produced the cached data */
+const WORKSPACE_STORAGE_KEY = 'crm_cache_workspace';
+
 /**
- * Execute a command against the Scout API
+ * Select the Scout workspace used by workflow commands
+ * Like selectBackend, caches are cleared when the workspace differs from the
+ * one that filled them.
  */
-export async function executeCommand<T>(
-  apiKey: string,
-  message: string
-): Promise<ApiResponse<T>> {
-  try {
-    const response = await fetch(SCOUT_API_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({ 
-        inputs: { message },
-        stream: false 
-      })
-    });
-
-    if (!response.ok) {
-      // Try to get more details from the error response
-      let errorDetail = '';
-      try {
-        const errorBody = await response.json();
-        errorDetail = JSON.stringify(errorBody);
-        console.error('API Error Response:', errorBody);
-      } catch {
-        // Response might not be JSON
-        try {
-          errorDetail = await response.text();
-        } catch {
-          errorDetail = 'Could not read error response';
-        }
-      }
-      return {
-        success: false,
-        error: `API request failed: ${response.status} ${response.statusText}. ${errorDetail}`
-      };
-    }
+export function selectWorkspace(settings: WorkspaceSettings): WorkspaceSettings {
+  setWorkspace(settings);
+  const selected = getWorkspace();
+  // Cached records carry statuses of the pipeline they were read with
+  const fingerprint = JSON.stringify([
+    workflowEndpoint(selected),
+    selected.context,
+    ...(selected.pipeline ? [selected.pipeline] : []),
+  ]);
 
-    const rawResponse = await response.json();
-    
-    // Check for API-level errors
-    if (rawResponse.run?.stop_reason === 'workflow_run_failed') {
-      const errors = rawResponse.run?.errors || ['Unknown error'];
-      return {
-        success: false,
-        error: errors.join(', '),
-        rawResponse
-      };
-    }
-    
-    const data = parseScoutResponse<T>(rawResponse);
-
-    if (data === null) {
-      return {
-        success: false,
-        error: 'Failed to parse API response',
-        rawResponse
-      };
+  try {
+    if (localStorage.getItem(WORKSPACE_STORAGE_KEY) !== fingerprint) {
+      clearAllCaches();
+      localStorage.setItem(WORKSPACE_STORAGE_KEY, fingerprint);
     }
-
-    return {
-      success: true,
-      data,
-      rawResponse
-    };
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    };
+  } catch {
+    clearAllCaches();
   }
-}
 
-/**
- * Internal function to fetch contacts from API (no caching)
- */
-async function fetchContactsFromApi(apiKey: string): Promise<ApiResponse<Contact[]>> {
-  const command = listContactsCommand();
-  const response = await executeCommand<{ contacts: Contact[] } | Contact[]>(apiKey, command);
-  
-  if (!response.success || !response.data) {
-    return response as ApiResponse<Contact[]>;
-  }
-  
-  // Handle both array and wrapped object responses
-  const contacts = Array.isArray(response.data) 
-    ? response.data 
-    : response.data.contacts || [];
-  
-  // Map document_id to id if needed
-  const normalizedContacts = contacts.map(c => ({
-    ...c,
-    id: c.id || (c as any).document_id
-  }));
-  
-  return {
-    success: true,
-    data: normalizedContacts,
-    rawResponse: response.rawResponse
-  };
+  return selected;
 }
 
 /** Options for cached API calls */
 export interface CachedApiOptions {
   /** Force bypass cache and fetch fresh data */
   forceRefresh?: boolean;
+  /**
+   * Cancel the call. A request shared with other callers is only aborted
+   * once all of them have cancelled; cancelled calls resolve with a
+   * 'cancelled' error and never populate the cache.
+   */
+  signal?: AbortSignal;
+  /** Scheduling class of the network request (default 'foreground') */
+  priority?: RequestPriority;
+}
+
+/** Options for cached calls that can render items progressively */
+export interface StreamingApiOptions<T> extends CachedApiOptions {
+  /**
+   * Receive items as they stream in from the backend. Not called when the
+   * result comes from the cache or is shared with an earlier caller.
+   */
+  onItem?: (item: T) => void;
+}
+
+/**
+ * Whether a response may be cached: failures and replies that were cut off
+ * are not, so the next call tries again
+ */
+function isCacheable(response: ApiResponse<unknown>): boolean {
+  return response.success === true && !response.meta?.partial;
+}
+
+/**
+ * Convert an exception from a cached call into an error response
+ */
+function toErrorResponse<T>(error: unknown): ApiResponse<T> {
+  if (isAbortError(error)) {
+    return cancelledResponse<T>();
+  }
+  return errorResponse<T>('network', error instanceof Error ? error.message : 'Unknown error occurred');
 }
 
 /**
@@ -216,37 +151,127 @@ export interface CachedApiOptions {
  */
 export async function listContacts(
   apiKey: string,
-  options: CachedApiOptions = {}
+  options: StreamingApiOptions<Contact> = {}
 ): Promise<ApiResponse<Contact[]>> {
+  const trace = trafficInspector.begin('listContacts');
   try {
     const result = await cachedFetch<ApiResponse<Contact[]>>(
       CACHE_KEYS.CONTACTS_LIST,
-      () => fetchContactsFromApi(apiKey),
+      (signal) =>
+        getBackend().listContacts(apiKey, {
+          signal,
+          onItem: options.onItem,
+          onExchange: trace.exchange,
+          priority: options.priority
+        }),
       DEFAULT_TTL.contacts,
-      options
+      { ...options, shouldCache: isCacheable }
     );
-    return result.data;
+    return trace.finish(result.data, result.source);
   } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
-    };
+    return trace.finish(toErrorResponse(error));
   }
 }
 
+/** Number of contacts the sidebar loads at a time */
+export const CONTACT_PAGE_SIZE = 25;
+
 /**
- * Get the timestamp of when contacts were last fetched
+ * List one page of contacts, ordered by name (cached per page)
+ * Uses the same TTLs as the full contact list
  */
-export function getContactsLastFetchTime(): number | undefined {
-  return getLastFetchTimestamp(CACHE_KEYS.CONTACTS_LIST);
+export async function listContactsPage(
+  apiKey: string,
+  page: PageRequest = { offset: 0, limit: CONTACT_PAGE_SIZE },
+  options: StreamingApiOptions<Contact> = {}
+): Promise<ApiResponse<ContactPage>> {
+  const trace = trafficInspector.begin('listContactsPage', { ...page });
+  try {
+    const result = await cachedFetch<ApiResponse<ContactPage>>(
+      CACHE_KEYS.CONTACTS_PAGE(page.offset, page.limit),
+      (signal) =>
+        getBackend().listContactsPage(apiKey, page, {
+          signal,
+          onItem: options.onItem,
+          onExchange: trace.exchange,
+          priority: options.priority
+        }),
+      DEFAULT_TTL.contacts,
+      { ...options, shouldCache: isCacheable }
+    );
+    return trace.finish(holdPagination(result.data, page), result.source);
+  } catch (error) {
+    return trace.finish(toErrorResponse(error));
+  }
+}
+
+/**
+ * A page whose reply was cut off holds fewer contacts than the backend has,
+ * and its total may be missing or wrong: keep its contacts, but have the next
+ * page start at the same offset so the missing contacts are asked for again
+ */
+function holdPagination(response: ApiResponse<ContactPage>, page: PageRequest): ApiResponse<ContactPage> {
+  if (!response.meta?.partial || !response.data) return response;
+  const { total: _total, ...data } = response.data;
+  return { ...response, data: { ...data, nextOffset: page.offset } };
+}
+
+/**
+ * Normalize a search query, so queries differing only in case or spacing
+ * share a cache entry and an in-flight request
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Search contacts on the backend (cached per query)
+ * Uses hybrid caching: memory (1 min) + localStorage (5 min).
+ * An empty query matches nothing and is not sent.
+ */
+export async function searchContacts(
+  apiKey: string,
+  query: string,
+  options: CachedApiOptions = {}
+): Promise<ApiResponse<Contact[]>> {
+  const normalized = normalizeSearchQuery(query);
+  if (!normalized) {
+    return { success: true, data: [] };
+  }
+
+  const trace = trafficInspector.begin('searchContacts', { query: normalized });
+  try {
+    const result = await cachedFetch<ApiResponse<Contact[]>>(
+      CACHE_KEYS.CONTACT_SEARCH(normalized),
+      (signal) =>
+        getBackend().searchContacts(apiKey, normalized, {
+          signal,
+          onExchange: trace.exchange,
+          priority: options.priority
+        }),
+      DEFAULT_TTL.search,
+      { ...options, shouldCache: isCacheable }
+    );
+    return trace.finish(result.data, result.source);
+  } catch (error) {
+    return trace.finish(toErrorResponse(error));
+  }
+}
+
+/**
+ * Drop the cached contact list, every cached page of it and every cached search
+ */
+function invalidateContactLists(): void {
+  invalidateCache(CACHE_KEYS.CONTACTS_LIST);
+  invalidateCachePattern(CACHE_KEYS.CONTACTS_PAGE_PATTERN);
+  invalidateCachePattern(CACHE_KEYS.CONTACT_SEARCH_PATTERN);
 }
 
 /**
- * Internal function to fetch dashboard from API (no caching)
+ * Get the timestamp of when contacts were last fetched
  */
-async function fetchDashboardFromApi(apiKey: string): Promise<ApiResponse<DashboardData>> {
-  const command = getDashboardCommand();
-  return executeCommand<DashboardData>(apiKey, command);
+export function getContactsLastFetchTime(): number | undefined {
+  return getLastFetchTimestamp(CACHE_KEYS.CONTACTS_LIST);
 }
 
 /**
@@ -257,19 +282,17 @@ export async function getDashboard(
   apiKey: string,
   options: CachedApiOptions = {}
 ): Promise<ApiResponse<DashboardData>> {
+  const trace = trafficInspector.begin('getDashboard');
   try {
     const result = await cachedFetch<ApiResponse<DashboardData>>(
       CACHE_KEYS.DASHBOARD,
-      () => fetchDashboardFromApi(apiKey),
+      (signal) => getBackend().getDashboard(apiKey, { signal, onExchange: trace.exchange, priority: options.priority }),
       DEFAULT_TTL.dashboard,
-      options
+      { ...options, shouldCache: isCacheable }
     );
-    return result.data;
+    return trace.finish(result.data, result.source);
   } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
-    };
+    return trace.finish(toErrorResponse(error));
   }
 }
 
@@ -280,17 +303,6 @@ export function getDashboardLastFetchTime(): number | undefined {
   return getLastFetchTimestamp(CACHE_KEYS.DASHBOARD);
 }
 
-/**
- * Internal function to fetch contact details from API (no caching)
- */
-async function fetchContactDetailsFromApi(
-  apiKey: string,
-  contactId: string
-): Promise<ApiResponse<ContactWithActivities>> {
-  const command = getContactDetailsCommand(contactId);
-  return executeCommand<ContactWithActivities>(apiKey, command);
-}
-
 /**
  * Get contact details with activities (cached)
  * Uses hybrid caching: memory (1 min) + localStorage (10 min)
@@ -298,22 +310,26 @@ async function fetchContactDetailsFromApi(
 export async function getContactDetails(
   apiKey: string,
   contactId: string,
-  options: CachedApiOptions = {}
+  options: StreamingApiOptions<Activity> = {}
 ): Promise<ApiResponse<ContactWithActivities>> {
+  const trace = trafficInspector.begin('getContactDetails', { contactId });
   try {
     const cacheKey = CACHE_KEYS.CONTACT_DETAIL(contactId);
     const result = await cachedFetch<ApiResponse<ContactWithActivities>>(
       cacheKey,
-      () => fetchContactDetailsFromApi(apiKey, contactId),
+      (signal) =>
+        getBackend().getContactDetails(apiKey, contactId, {
+          signal,
+          onItem: options.onItem,
+          onExchange: trace.exchange,
+          priority: options.priority
+        }),
       DEFAULT_TTL.contactDetails,
-      options
+      { ...options, shouldCache: isCacheable }
     );
-    return result.data;
+    return trace.finish(result.data, result.source);
   } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
-    };
+    return trace.finish(toErrorResponse(error));
   }
 }
 
@@ -324,20 +340,95 @@ export function getContactDetailsLastFetchTime(contactId: string): number | unde
   return getLastFetchTimestamp(CACHE_KEYS.CONTACT_DETAIL(contactId));
 }
 
+/** Allowance for the workflow's clock when matching the timestamp of a logged activity */
+const CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * Look for the contact a lost createContact request may have written:
+ * one with the same name and email
+ */
+async function findCreatedContact(
+  apiKey: string,
+  data: CreateContactData,
+  options: Pick<RequestOptions, 'onExchange'> = {}
+): Promise<Contact | undefined> {
+  const found = await getBackend().searchContacts(apiKey, data.email, options);
+  const same = (a: string | undefined, b: string) => a?.trim().toLowerCase() === b.trim().toLowerCase();
+  return found.data?.find((contact) => same(contact.email, data.email) && same(contact.name, data.name));
+}
+
+/**
+ * Look for the activity a lost logActivity request may have written:
+ * one of the same type and description, logged since the first attempt
+ */
+async function findLoggedActivity(
+  apiKey: string,
+  data: LogActivityData,
+  pending: PendingMutation,
+  options: Pick<RequestOptions, 'onExchange'> = {}
+): Promise<Activity | undefined> {
+  const details = await getBackend().getContactDetails(apiKey, data.contactId, options);
+  return details.data?.activities.find((activity) => isLoggedActivity(activity, data, pending));
+}
+
+function isLoggedActivity(activity: Activity, data: LogActivityData, pending: PendingMutation): boolean {
+  return (
+    activity.type === data.type &&
+    activity.description.trim() === data.description.trim() &&
+    Date.parse(activity.timestamp) >= pending.startedAt - CLOCK_SKEW_MS
+  );
+}
+
+/**
+ * Settle a mutation: after a failure that may have happened once the record
+ * was already written, look for the record before reporting the failure, so
+ * the user is only offered a retry when nothing was saved. A pending
+ * mutation is forgotten once it is known to have succeeded; otherwise its
+ * key is kept for the retry.
+ */
+async function reconcile<T>(
+  pending: PendingMutation,
+  response: ApiResponse<T>,
+  find: () => Promise<T | undefined>
+): Promise<ApiResponse<T>> {
+  let settled = response;
+  if (!response.success && mayHaveCompleted(response.error)) {
+    const found = await find();
+    if (found) {
+      settled = { success: true, data: found, meta: { ...response.meta, reconciled: true } };
+    }
+  }
+
+  if (settled.success) {
+    pendingMutations.settle(pending.key);
+  }
+  return settled;
+}
+
 /**
  * Create a new contact
- * Invalidates contacts list and dashboard caches on success
+ * Carries an idempotency key that is reused if the same contact is sent
+ * again. Invalidates contacts list and dashboard caches on success
  */
 export async function createContact(
   apiKey: string,
   data: CreateContactData
 ): Promise<ApiResponse<Contact>> {
-  const command = createContactCommand(data);
-  const response = await executeCommand<Contact>(apiKey, command);
+  const pending = pendingMutations.begin('createContact', data);
+  const request = { ...data, idempotencyKey: pending.key };
+  const trace = trafficInspector.begin('createContact', { ...request });
+  const response = trace.finish(
+    await reconcile(
+      pending,
+      await getBackend().createContact(apiKey, request, { onExchange: trace.exchange }),
+      () => findCreatedContact(apiKey, request, { onExchange: trace.exchange })
+    ),
+    'network'
+  );
   
   if (response.success) {
     // Invalidate related caches
-    invalidateCache(CACHE_KEYS.CONTACTS_LIST);
+    invalidateContactLists();
     invalidateCache(CACHE_KEYS.DASHBOARD);
   }
   
@@ -346,14 +437,24 @@ export async function createContact(
 
 /**
  * Log an activity for a contact
- * Invalidates contact details and dashboard caches on success
+ * Carries an idempotency key that is reused if the same activity is sent
+ * again. Invalidates contact details and dashboard caches on success
  */
 export async function logActivity(
   apiKey: string,
   data: LogActivityData
 ): Promise<ApiResponse<Activity>> {
-  const command = logActivityCommand(data);
-  const response = await executeCommand<Activity>(apiKey, command);
+  const pending = pendingMutations.begin('logActivity', data);
+  const request = { ...data, idempotencyKey: pending.key };
+  const trace = trafficInspector.begin('logActivity', { ...request });
+  const response = trace.finish(
+    await reconcile(
+      pending,
+      await getBackend().logActivity(apiKey, request, { onExchange: trace.exchange }),
+      () => findLoggedActivity(apiKey, request, pending, { onExchange: trace.exchange })
+    ),
+    'network'
+  );
   
   if (response.success) {
     // Invalidate related caches
@@ -364,9 +465,315 @@ export async function logActivity(
   return response;
 }
 
+/**
+ * Apply a change to a contact in the cached contact list and details, and
+ * drop the cached pages and searches, which the change may have reordered
+ */
+function storeUpdatedContact(contactId: string, update: (contact: Contact) => Contact): void {
+  updateCache<ApiResponse<Contact[]>>(
+    CACHE_KEYS.CONTACTS_LIST,
+    (cached) => ({
+      ...cached,
+      data: cached.data?.map((contact) => (contact.id === contactId ? update(contact) : contact)),
+    }),
+    DEFAULT_TTL.contacts
+  );
+  updateCache<ApiResponse<ContactWithActivities>>(
+    CACHE_KEYS.CONTACT_DETAIL(contactId),
+    (cached) => (cached.data ? { ...cached, data: { ...update(cached.data), activities: cached.data.activities } } : cached),
+    DEFAULT_TTL.contactDetails
+  );
+  invalidateCachePattern(CACHE_KEYS.CONTACTS_PAGE_PATTERN);
+  invalidateCachePattern(CACHE_KEYS.CONTACT_SEARCH_PATTERN);
+}
+
+/**
+ * A contact moved to a status. Only a lost contact keeps a loss reason; one
+ * that is lost again without a new reason keeps its old one.
+ */
+function withStatus(contact: Contact, status: ContactStatus, lossReason?: string): Contact {
+  const moved: Contact = { ...contact, status };
+  if (!isLostStage(getPipeline(), status)) delete moved.lossReason;
+  else if (lossReason) moved.lossReason = lossReason;
+  return moved;
+}
+
+/**
+ * Loss reason to send with a move: the given one for a lost stage, and an
+ * empty one, which clears it, for any other stage
+ */
+function lossReasonFor(status: ContactStatus, lossReason?: string): string | undefined {
+  return isLostStage(getPipeline(), status) ? lossReason : '';
+}
+
+/**
+ * Update the given fields of a contact
+ * Sends nothing when there are no changes. On success the contact is
+ * replaced in the cached contact list and details, the cached pages and
+ * searches are dropped (the name or email may have moved it), and the
+ * dashboard is dropped if the status changed
+ */
+export async function updateContact(
+  apiKey: string,
+  contactId: string,
+  changes: UpdateContactData
+): Promise<ApiResponse<Contact>> {
+  if (Object.keys(changes).length === 0) {
+    return errorResponse('validation_error', undefined, { message: 'There are no changes to save.', retryable: false });
+  }
+  // A contact moved out of a lost stage no longer has a loss reason
+  if (changes.status !== undefined && changes.lossReason === undefined && !isLostStage(getPipeline(), changes.status)) {
+    changes = { ...changes, lossReason: '' };
+  }
+
+  const trace = trafficInspector.begin('updateContact', { contactId, changes: { ...changes } });
+  const response = trace.finish(
+    await getBackend().updateContact(apiKey, contactId, changes, { onExchange: trace.exchange }),
+    'network'
+  );
+
+  const updated = response.data;
+  if (response.success && updated) {
+    storeUpdatedContact(contactId, () => updated);
+    if (changes.status !== undefined) {
+      invalidateCache(CACHE_KEYS.DASHBOARD);
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Move a contact to another status, with the reason when it is lost
+ * Updates the status in the cached contact list and details and drops the
+ * cached dashboard on success
+ */
+export async function updateContactStatus(
+  apiKey: string,
+  contactId: string,
+  status: ContactStatus,
+  lossReason?: string
+): Promise<ApiResponse<ContactStatusUpdate>> {
+  const reason = lossReasonFor(status, lossReason);
+  const trace = trafficInspector.begin('updateContactStatus', { contactId, status, lossReason: reason });
+  const response = trace.finish(
+    await getBackend().updateContactStatus(apiKey, contactId, status, reason, { onExchange: trace.exchange }),
+    'network'
+  );
+
+  if (response.success) {
+    storeUpdatedContact(contactId, (contact) => withStatus(contact, status, response.data?.lossReason ?? lossReason));
+    invalidateCache(CACHE_KEYS.DASHBOARD);
+  }
+
+  return response;
+}
+
+/**
+ * Run several operations in one backend round trip (a single workflow run on
+ * Scout), in order. The caches are neither read nor updated; callers decide
+ * what the results replace.
+ */
+export async function batch<const R extends readonly BatchRequest[]>(
+  apiKey: string,
+  requests: R,
+  options: Pick<RequestOptions, 'signal' | 'priority'> = {}
+): Promise<BatchResponses<R>> {
+  const trace = trafficInspector.begin('batch', { operations: requests.map((request) => request.operation) });
+  const responses = await getBackend().batch(apiKey, requests, { ...options, onExchange: trace.exchange });
+
+  const failed = (responses as ApiResponse<unknown>[]).find((response) => !response.success);
+  trace.finish({ success: !failed, data: responses, ...(failed ? { error: failed.error } : {}) }, 'network');
+  return responses;
+}
+
+/**
+ * Cache a response fetched as part of a batch, or drop the stale entry if it failed
+ */
+function storeRefreshed<T>(key: string, response: ApiResponse<T>, config: CacheConfig): void {
+  if (response.success) {
+    primeCache(key, response, config);
+  } else {
+    invalidateCache(key);
+  }
+}
+
+/**
+ * Create a contact and fetch the updated dashboard in the same round trip
+ * Carries an idempotency key like createContact.
+ * Invalidates the contacts list and refills the dashboard cache on success
+ */
+export async function createContactAndRefresh(
+  apiKey: string,
+  data: CreateContactData
+): Promise<{ contact: ApiResponse<Contact>; dashboard: ApiResponse<DashboardData> }> {
+  const pending = pendingMutations.begin('createContact', data);
+  const request = { ...data, idempotencyKey: pending.key };
+  const [created, dashboard] = await batch(apiKey, [
+    { operation: 'createContact', args: request },
+    { operation: 'getDashboard', args: {} },
+  ]);
+  const contact = await reconcile(pending, created, () => findCreatedContact(apiKey, request));
+
+  if (contact.success) {
+    invalidateContactLists();
+    storeRefreshed(CACHE_KEYS.DASHBOARD, dashboard, DEFAULT_TTL.dashboard);
+  }
+
+  return { contact, dashboard };
+}
+
+/**
+ * Log an activity and fetch the contact's updated details and the dashboard
+ * in the same round trip
+ * Carries an idempotency key like logActivity.
+ * Refills the contact details and dashboard caches on success
+ */
+export async function logActivityAndRefresh(
+  apiKey: string,
+  data: LogActivityData
+): Promise<{
+  activity: ApiResponse<Activity>;
+  details: ApiResponse<ContactWithActivities>;
+  dashboard: ApiResponse<DashboardData>;
+}> {
+  const pending = pendingMutations.begin('logActivity', data);
+  const request = { ...data, idempotencyKey: pending.key };
+  const [logged, details, dashboard] = await batch(apiKey, [
+    { operation: 'logActivity', args: request },
+    { operation: 'getContactDetails', args: { contactId: data.contactId } },
+    { operation: 'getDashboard', args: {} },
+  ]);
+  // The details fetched after the change show whether it was logged, if they arrived
+  const activity = await reconcile(pending, logged, async () =>
+    details.success
+      ? details.data?.activities.find((candidate) => isLoggedActivity(candidate, request, pending))
+      : findLoggedActivity(apiKey, request, pending)
+  );
+
+  if (activity.success) {
+    storeRefreshed(CACHE_KEYS.CONTACT_DETAIL(data.contactId), details, DEFAULT_TTL.contactDetails);
+    storeRefreshed(CACHE_KEYS.DASHBOARD, dashboard, DEFAULT_TTL.dashboard);
+  }
+
+  return { activity, details, dashboard };
+}
+
+/**
+ * Whether a contact is gone from the contact list. A missing contact is not
+ * reported the same way by every backend, so the list is read instead.
+ */
+async function isContactGone(
+  apiKey: string,
+  contactId: string,
+  options: Pick<RequestOptions, 'onExchange'> = {}
+): Promise<boolean> {
+  const list = await getBackend().listContacts(apiKey, options);
+  return list.success && !list.data?.some((contact) => contact.id === contactId);
+}
+
+/**
+ * Permanently delete a contact and its activities
+ * A delete is retried like a read, so an attempt whose reply was lost may
+ * already have deleted the contact, and the retry then finds nothing to
+ * delete. After such a failure the contact list is checked, and a contact
+ * that is gone counts as deleted (how many activities went with it is lost
+ * with the reply).
+ * On success the contact is removed from the cached contact list, and its
+ * cached details, the cached pages and searches and the dashboard (whose
+ * counts and recent activities included it) are dropped
+ */
+export async function deleteContact(apiKey: string, contactId: string): Promise<ApiResponse<ContactDeletion>> {
+  const trace = trafficInspector.begin('deleteContact', { contactId });
+  let retried = false;
+  const onExchange = (exchange: WorkflowExchange) => {
+    retried ||= exchange.attempt > 1;
+    trace.exchange(exchange);
+  };
+
+  let response = await getBackend().deleteContact(apiKey, contactId, { onExchange });
+  if (
+    !response.success &&
+    (mayHaveCompleted(response.error) || (retried && response.error?.kind === 'not_found')) &&
+    (await isContactGone(apiKey, contactId, { onExchange: trace.exchange }))
+  ) {
+    response = {
+      success: true,
+      data: { id: contactId, activitiesDeleted: 0 },
+      meta: { ...response.meta, reconciled: true },
+    };
+  }
+  response = trace.finish(response, 'network');
+
+  if (response.success) {
+    updateCache<ApiResponse<Contact[]>>(
+      CACHE_KEYS.CONTACTS_LIST,
+      (cached) => ({ ...cached, data: cached.data?.filter((contact) => contact.id !== contactId) }),
+      DEFAULT_TTL.contacts
+    );
+    invalidateCache(CACHE_KEYS.CONTACT_DETAIL(contactId));
+    invalidateCachePattern(CACHE_KEYS.CONTACTS_PAGE_PATTERN);
+    invalidateCachePattern(CACHE_KEYS.CONTACT_SEARCH_PATTERN);
+    invalidateCache(CACHE_KEYS.DASHBOARD);
+  }
+
+  return response;
+}
+
+/**
+ * Move a contact to another status, then log a note recording the move and
+ * fetch the contact's updated details in one round trip
+ * The note is only logged once the move succeeded, so a failed move leaves
+ * no record of a change that never happened. It carries an idempotency key
+ * like logActivity.
+ * Updates the caches like updateContactStatus, and refills the contact
+ * details once the note is logged
+ */
+export async function updateContactStatusAndLog(
+  apiKey: string,
+  contactId: string,
+  status: ContactStatus,
+  note: string,
+  lossReason?: string
+): Promise<{
+  update: ApiResponse<ContactStatusUpdate>;
+  activity: ApiResponse<Activity>;
+  details: ApiResponse<ContactWithActivities>;
+}> {
+  const update = await updateContactStatus(apiKey, contactId, status, lossReason);
+  if (!update.success) {
+    const skipped = { message: 'The note was not logged because the status could not be changed.', retryable: false };
+    return {
+      update,
+      activity: errorResponse('workflow_failed', 'Status change failed', skipped),
+      details: errorResponse('workflow_failed', 'Status change failed', skipped),
+    };
+  }
+
+  const data: LogActivityData = { contactId, type: 'note', description: note };
+  const pending = pendingMutations.begin('logActivity', data);
+  const request = { ...data, idempotencyKey: pending.key };
+  const [logged, details] = await batch(apiKey, [
+    { operation: 'logActivity', args: request },
+    { operation: 'getContactDetails', args: { contactId } },
+  ]);
+  const activity = await reconcile(pending, logged, async () =>
+    details.success
+      ? details.data?.activities.find((candidate) => isLoggedActivity(candidate, request, pending))
+      : findLoggedActivity(apiKey, request, pending)
+  );
+
+  if (activity.success) {
+    storeRefreshed(CACHE_KEYS.CONTACT_DETAIL(contactId), details, DEFAULT_TTL.contactDetails);
+  }
+
+  return { update, activity, details };
+}
+
 /**
  * Force refresh all cached data
- * Useful for manual refresh button
+ * Useful for manual refresh button. The refetches are scheduled in the
+ * background, so user actions are not kept waiting behind them.
  */
 export async function refreshAllData(apiKey: string): Promise<void> {
   // Invalidate all caches
@@ -374,10 +781,15 @@ export async function refreshAllData(apiKey: string): Promise<void> {
   
   // Pre-fetch the main data
   await Promise.all([
-    listContacts(apiKey, { forceRefresh: true }),
-    getDashboard(apiKey, { forceRefresh: true }),
+    listContactsPage(apiKey, undefined, { forceRefresh: true, priority: 'background' }),
+    getDashboard(apiKey, { forceRefresh: true, priority: 'background' }),
   ]);
 }
 
 // Re-export cache utilities for components
 export { invalidateCache, invalidateCachePattern, clearAllCaches } from '../cache';
+export { resolveBackendKind } from './backends';
+export { DEFAULT_WORKSPACE, validateWorkspace } from './workspace';
+export { requestScheduler } from './scheduler';
+export type { RequestPriority, SchedulerState } from './scheduler';
+export type { BackendKind, BatchRequest, BatchResponses, CrmBackend } from './backends';
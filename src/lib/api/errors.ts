@@ -0,0 +1,103 @@
+/**
+ * API error taxonomy shared by the transport and all backends
+ *
+ * Every failed ApiResponse carries an ApiError whose kind tells callers what
+ * went wrong (a bad key, a flaky network, an unparseable reply...) without
+ * inspecting message strings.
+ */
+
+import type { ApiError, ApiErrorKind, ApiResponse } from '../types';
+
+/**
+ * User-facing message for each kind of error
+ */
+export const API_ERROR_MESSAGES: Record<ApiErrorKind, string> = {
+  auth: 'Invalid API key. Please check your credentials.',
+  network: 'Unable to reach the CRM service. Check your connection.',
+  timeout: 'The CRM service took too long to respond.',
+  rate_limited: 'Too many requests. Please wait a moment.',
+  workflow_failed: 'The CRM workflow could not complete the request.',
+  parse_error: 'The CRM service sent a response that could not be read.',
+  validation_error: 'The CRM service returned incomplete or invalid data.',
+  not_found: 'The requested record could not be found.',
+  cancelled: 'Request cancelled',
+};
+
+/**
+ * Whether repeating the operation later may succeed.
+ * LLM-backed runs are non-deterministic, so parse and validation failures often clear up.
+ */
+const RETRYABLE_KINDS: Record<ApiErrorKind, boolean> = {
+  auth: false,
+  network: true,
+  timeout: true,
+  rate_limited: true,
+  workflow_failed: true,
+  parse_error: true,
+  validation_error: true,
+  not_found: false,
+  cancelled: false,
+};
+
+/**
+ * Build an error of the given kind with its default message and retryability
+ */
+export function createApiError(
+  kind: ApiErrorKind,
+  detail?: string,
+  overrides: Partial<Pick<ApiError, 'message' | 'retryable' | 'status'>> = {}
+): ApiError {
+  const error: ApiError = {
+    kind,
+    message: API_ERROR_MESSAGES[kind],
+    retryable: RETRYABLE_KINDS[kind],
+    ...overrides,
+  };
+  if (detail) error.detail = detail;
+  return error;
+}
+
+/**
+ * Build a failed response carrying an error of the given kind
+ */
+export function errorResponse<T>(
+  kind: ApiErrorKind,
+  detail?: string,
+  overrides?: Partial<Pick<ApiError, 'message' | 'retryable' | 'status'>>
+): ApiResponse<T> {
+  return { success: false, error: createApiError(kind, detail, overrides) };
+}
+
+/**
+ * Classify a failed HTTP status
+ */
+export function errorKindForStatus(status: number): ApiErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limited';
+  return 'workflow_failed';
+}
+
+/**
+ * Build an error for a non-2xx HTTP response.
+ * Only rate limiting and server-side failures are worth repeating.
+ */
+export function httpError(status: number, detail?: string): ApiError {
+  return createApiError(errorKindForStatus(status), detail, {
+    status,
+    retryable: status === 429 || status >= 500,
+  });
+}
+
+/**
+ * Build the response returned for a cancelled operation
+ */
+export function cancelledResponse<T>(): ApiResponse<T> {
+  return errorResponse<T>('cancelled');
+}
+
+/**
+ * Whether a response failed because its caller cancelled it
+ */
+export function isCancelled(response: ApiResponse<unknown>): boolean {
+  return response.error?.kind === 'cancelled';
+}
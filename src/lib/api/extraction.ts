@@ -0,0 +1,310 @@
+/**
+ * Tolerant JSON extraction from LLM output
+ *
+ * The workflow's agent is asked for a fenced JSON block but does not always
+ * comply: it adds prose, emits several blocks, leaves trailing commas or
+ * comments, uses single quotes, or gets cut off mid-array. This module finds
+ * the most plausible JSON value in the output, repairs common formatting
+ * mistakes and reports which repairs were needed.
+ */
+
+import type { JsonRepair } from '../types';
+
+/**
+ * A JSON value found in the output, with the repairs that made it parse
+ */
+export interface ExtractionResult<T> {
+  data: T;
+  repairs: JsonRepair[];
+}
+
+/** Where a candidate came from */
+type CandidateSource = 'fence' | 'span' | 'whole';
+
+interface Candidate {
+  text: string;
+  source: CandidateSource;
+}
+
+/** Upper bound on prose spans considered, to keep pathological output cheap */
+const MAX_SPAN_CANDIDATES = 10;
+
+/**
+ * Extract the best JSON object or array from the output
+ * @returns The parsed value and applied repairs, or null if nothing usable was found
+ */
+export function extractJson<T>(output: string): ExtractionResult<T> | null {
+  const fences = fencedBlocks(output);
+  const candidates: Candidate[] = [
+    ...fences.map((text) => ({ text, source: 'fence' as const })),
+    ...balancedSpans(output).map((text) => ({ text, source: 'span' as const })),
+    { text: output.trim(), source: 'whole' as const },
+  ];
+
+  let best: { candidate: Candidate; data: unknown; repairs: JsonRepair[] } | null = null;
+  const seen = new Set<string>();
+
+  for (const candidate of candidates) {
+    if (!candidate.text || seen.has(candidate.text)) continue;
+    seen.add(candidate.text);
+
+    const parsed = parseWithRepairs(candidate.text);
+    if (!parsed) continue;
+
+    // Prefer the largest value (an example snippet is usually smaller than
+    // the real answer), then the one that needed fewer repairs
+    if (
+      !best ||
+      candidate.text.length > best.candidate.text.length ||
+      (candidate.text.length === best.candidate.text.length && parsed.repairs.length < best.repairs.length)
+    ) {
+      best = { candidate, ...parsed };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  const repairs: JsonRepair[] = [];
+  if (best.candidate.source === 'fence' && fences.length > 1) {
+    repairs.push('selected_block');
+  }
+  if (best.candidate.source === 'span' && best.candidate.text !== output.trim()) {
+    repairs.push('extracted_from_prose');
+  }
+  repairs.push(...best.repairs);
+
+  return { data: best.data as T, repairs };
+}
+
+/**
+ * Contents of every markdown code block; an unterminated last block runs to the end
+ */
+function fencedBlocks(output: string): string[] {
+  const blocks: string[] = [];
+  const pattern = /```[\w-]*[^\S\n]*\n?([\s\S]*?)(?:```|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(output)) !== null) {
+    blocks.push(match[1].trim());
+    if (match[0].length === 0) pattern.lastIndex++;
+  }
+  return blocks;
+}
+
+/**
+ * Top-level bracketed spans in free text, e.g. `{...}` after "Here you go:".
+ * A span that never closes runs to the end of the text.
+ */
+function balancedSpans(output: string): string[] {
+  const spans: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < output.length && spans.length < MAX_SPAN_CANDIDATES; i++) {
+    const char = output[i];
+
+    if (depth === 0) {
+      if (char === '{' || char === '[') {
+        start = i;
+        depth = 1;
+      }
+      continue;
+    }
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') depth++;
+    else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) spans.push(output.slice(start, i + 1).trim());
+    }
+  }
+
+  if (depth > 0 && start >= 0 && spans.length < MAX_SPAN_CANDIDATES) {
+    spans.push(output.slice(start).trim());
+  }
+  return spans;
+}
+
+/**
+ * Parse a candidate, escalating from strict parsing to syntax repairs to
+ * salvaging a truncated value. Only objects and arrays are accepted.
+ */
+function parseWithRepairs(text: string): { data: unknown; repairs: JsonRepair[] } | null {
+  const strict = tryParse(text);
+  if (strict !== undefined) {
+    return { data: strict, repairs: [] };
+  }
+
+  const normalized = repairSyntax(text);
+  const repaired = tryParse(normalized.text);
+  if (repaired !== undefined) {
+    return { data: repaired, repairs: normalized.repairs };
+  }
+
+  const salvaged = closeTruncated(normalized.text);
+  if (salvaged !== null) {
+    // Closing the value can expose a trailing comma before the new bracket
+    const tidied = repairSyntax(salvaged);
+    const data = tryParse(tidied.text);
+    if (data !== undefined) {
+      const repairs = [...new Set([...normalized.repairs, ...tidied.repairs])];
+      return { data, repairs: [...repairs, 'salvaged_truncated'] };
+    }
+  }
+
+  return null;
+}
+
+function tryParse(text: string): unknown {
+  try {
+    const value = JSON.parse(text);
+    return typeof value === 'object' && value !== null ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fix common formatting mistakes outside of string literals:
+ * comments, single-quoted strings, unquoted keys and trailing commas
+ */
+function repairSyntax(text: string): { text: string; repairs: JsonRepair[] } {
+  const repairs = new Set<JsonRepair>();
+  let out = '';
+  let i = 0;
+
+  /** Index of the next character that is not whitespace or a comment */
+  const nextSignificant = (from: number): number => {
+    let j = from;
+    for (;;) {
+      while (j < text.length && /\s/.test(text[j])) j++;
+      if (text.startsWith('//', j)) {
+        while (j < text.length && text[j] !== '\n') j++;
+      } else if (text.startsWith('/*', j)) {
+        const end = text.indexOf('*/', j + 2);
+        j = end < 0 ? text.length : end + 2;
+      } else {
+        return j;
+      }
+    }
+  };
+
+  /** Last non-whitespace character already written */
+  const previousSignificant = (): string => out.trimEnd().slice(-1);
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"') {
+      // Copy a double-quoted string verbatim
+      let j = i + 1;
+      while (j < text.length && text[j] !== '"') {
+        j += text[j] === '\\' ? 2 : 1;
+      }
+      out += text.slice(i, j + 1);
+      i = j + 1;
+      continue;
+    }
+
+    if (char === "'") {
+      let j = i + 1;
+      let content = '';
+      while (j < text.length && text[j] !== "'") {
+        if (text[j] === '\\' && text[j + 1] === "'") {
+          content += "'";
+          j += 2;
+        } else if (text[j] === '\\') {
+          content += text.slice(j, j + 2);
+          j += 2;
+        } else {
+          content += text[j] === '"' ? '\\"' : text[j];
+          j++;
+        }
+      }
+      out += `"${content}"`;
+      repairs.add('converted_single_quotes');
+      i = j + 1;
+      continue;
+    }
+
+    if (text.startsWith('//', i) || text.startsWith('/*', i)) {
+      i = nextSignificant(i);
+      repairs.add('removed_comments');
+      continue;
+    }
+
+    if (char === ',') {
+      const next = text[nextSignificant(i + 1)];
+      if (next === '}' || next === ']' || next === undefined) {
+        repairs.add('removed_trailing_commas');
+        i++;
+        continue;
+      }
+    }
+
+    if (/[A-Za-z_$]/.test(char) && (previousSignificant() === '{' || previousSignificant() === ',')) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(text.slice(i));
+      const word = match ? match[0] : char;
+      if (text[nextSignificant(i + word.length)] === ':') {
+        out += `"${word}"`;
+        repairs.add('quoted_keys');
+        i += word.length;
+        continue;
+      }
+    }
+
+    out += char;
+    i++;
+  }
+
+  return { text: out, repairs: [...repairs] };
+}
+
+/**
+ * Cut a truncated value back to its last complete object or array and close
+ * everything still open. Returns null when the value is not truncated or
+ * nothing complete can be kept.
+ */
+function closeTruncated(text: string): string | null {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let cut: { index: number; open: string[] } | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      stack.push('}');
+    } else if (char === '[') {
+      stack.push(']');
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length > 0) cut = { index: i + 1, open: [...stack] };
+    }
+  }
+
+  if (stack.length === 0 || !cut) {
+    return null;
+  }
+  return text.slice(0, cut.index) + cut.open.reverse().join('');
+}
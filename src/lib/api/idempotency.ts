@@ -0,0 +1,186 @@
+/**
+ * Idempotency Keys
+ *
+ * A mutation that times out on our side may still complete in Scout, and
+ * sending it again would create a duplicate. Each contact creation and
+ * activity therefore carries a client-generated key, and the key is kept in a
+ * local record of pending mutations until the mutation is known to have
+ * succeeded. Sending the same input again reuses the pending key, so the
+ * workflow can recognise the repeat; after a failure the client first looks
+ * for the record the lost request may have written (see client.ts).
+ */
+
+import type { ApiError, CreateContactData, LogActivityData } from '../types';
+
+/** Operations that carry an idempotency key */
+export type IdempotentOperation = 'createContact' | 'logActivity';
+
+/**
+ * A mutation that has been sent but is not known to have succeeded
+ */
+export interface PendingMutation {
+  key: string;
+  operation: IdempotentOperation;
+  /** Identifies the input, so sending the same input again reuses the key */
+  fingerprint: string;
+  /** When the first attempt was sent (ms since epoch) */
+  startedAt: number;
+}
+
+export interface PendingMutationsOptions {
+  /** localStorage key for persistence (null disables persistence) */
+  storageKey?: string | null;
+  /** Forget pending mutations older than this, in milliseconds */
+  maxAgeMs?: number;
+}
+
+const DEFAULT_STORAGE_KEY = 'crm_pending_mutations';
+
+/** Pending mutations are kept for a day, well past any retry */
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Kinds of failure after which the workflow may still have written the record.
+ * Requests rejected up front (a bad key, rate limiting, a missing contact, any
+ * other 4xx status) or cancelled before they were sent cannot have.
+ */
+const MAY_HAVE_COMPLETED = new Set<ApiError['kind']>([
+  'network',
+  'timeout',
+  'workflow_failed',
+  'parse_error',
+  'validation_error',
+]);
+
+/**
+ * Whether a mutation that failed with this error may still have taken effect
+ */
+export function mayHaveCompleted(error: ApiError | undefined): boolean {
+  return !!error && MAY_HAVE_COMPLETED.has(error.kind) && (error.status === undefined || error.status >= 500);
+}
+
+/**
+ * Generate a unique idempotency key
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Identify a mutation by its input: the fields that are set, in a fixed order
+ */
+function fingerprintOf(operation: IdempotentOperation, input: object): string {
+  const fields = Object.entries(input)
+    .filter(([field, value]) => field !== 'idempotencyKey' && value !== undefined && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify([operation, fields]);
+}
+
+/**
+ * Local record of the mutations that have been sent but not confirmed
+ */
+export class PendingMutations {
+  private readonly storageKey: string | null;
+  private readonly maxAgeMs: number;
+  private entries: PendingMutation[];
+
+  constructor(options: PendingMutationsOptions = {}) {
+    this.storageKey = options.storageKey === undefined ? DEFAULT_STORAGE_KEY : options.storageKey;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.entries = this.load();
+  }
+
+  /**
+   * Record a mutation about to be sent.
+   * Returns the pending mutation for the same input if there is one, so a
+   * retry is sent with the key of the attempt it repeats. A key already set
+   * on the input is used as is.
+   */
+  begin(operation: IdempotentOperation, input: CreateContactData | LogActivityData): PendingMutation {
+    this.prune();
+    const fingerprint = fingerprintOf(operation, input);
+    const existing = this.entries.find((entry) =>
+      input.idempotencyKey ? entry.key === input.idempotencyKey : entry.fingerprint === fingerprint
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const entry: PendingMutation = {
+      key: input.idempotencyKey ?? generateIdempotencyKey(),
+      operation,
+      fingerprint,
+      startedAt: Date.now(),
+    };
+    this.entries.push(entry);
+    this.save();
+    return entry;
+  }
+
+  /**
+   * Forget a mutation once it is known to have succeeded
+   */
+  settle(key: string): void {
+    const remaining = this.entries.filter((entry) => entry.key !== key);
+    if (remaining.length !== this.entries.length) {
+      this.entries = remaining;
+      this.save();
+    }
+  }
+
+  /**
+   * Mutations still pending, oldest first
+   */
+  list(): PendingMutation[] {
+    this.prune();
+    return [...this.entries];
+  }
+
+  /**
+   * Forget every pending mutation
+   */
+  clear(): void {
+    this.entries = [];
+    this.save();
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.maxAgeMs;
+    const fresh = this.entries.filter((entry) => entry.startedAt >= cutoff);
+    if (fresh.length !== this.entries.length) {
+      this.entries = fresh;
+      this.save();
+    }
+  }
+
+  private load(): PendingMutation[] {
+    if (!this.storageKey || typeof localStorage === 'undefined') {
+      return [];
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(localStorage.getItem(this.storageKey) ?? '[]');
+      return Array.isArray(parsed) ? (parsed as PendingMutation[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private save(): void {
+    if (!this.storageKey || typeof localStorage === 'undefined') {
+      return;
+    }
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.entries));
+    } catch (error) {
+      console.warn('[Idempotency] Unable to persist pending mutations:', error);
+    }
+  }
+}
+
+// Singleton instance used by the client
+export const pendingMutations = new PendingMutations();
@@ -0,0 +1,190 @@
+/**
+ * Traffic Inspector
+ *
+ * Records every client call for the developer inspector panel: the
+ * operation, where the result came from (cache tier or network), its
+ * latency, each HTTP exchange with the workflow (prompt, raw response) and
+ * the parsed result. Recording is on in development builds only.
+ *
+ * The inspector follows the Svelte store contract, so components can
+ * subscribe to it with `$trafficInspector`.
+ */
+
+import type { ApiResponse } from '../types';
+import type { CrmOperation } from './backends/types';
+import type { WorkflowExchange } from './scout';
+
+// Only record in development mode
+const DEBUG = typeof import.meta !== 'undefined' && import.meta.env?.DEV;
+
+/** Where a call's result came from */
+export type TrafficSource = 'memory' | 'storage' | 'network';
+
+/**
+ * One client call and everything it sent and received
+ */
+export interface TrafficEntry {
+  id: number;
+  operation: CrmOperation | 'batch';
+  /** Arguments that identify the call, e.g. the contact ID */
+  args?: Record<string, unknown>;
+  startedAt: number;
+  /** Unset while the call is in flight */
+  durationMs?: number;
+  source?: TrafficSource;
+  /** HTTP exchanges made for this call (none for cache hits or the local backend) */
+  exchanges: WorkflowExchange[];
+  /** The parsed, validated result */
+  result?: ApiResponse<unknown>;
+}
+
+/**
+ * Handle for recording one call
+ */
+export interface TrafficRecorder {
+  /** Pass to the backend as `onExchange` */
+  exchange: (exchange: WorkflowExchange) => void;
+  /** Record the outcome; returns the response for chaining */
+  finish<T>(result: ApiResponse<T>, source?: TrafficSource): ApiResponse<T>;
+}
+
+const NOOP_RECORDER: TrafficRecorder = {
+  exchange: () => {},
+  finish: (result) => result,
+};
+
+export class TrafficInspector {
+  /** Record calls; when false, begin() returns a recorder that does nothing */
+  enabled: boolean;
+
+  private entries: TrafficEntry[] = [];
+  private listeners = new Set<(entries: TrafficEntry[]) => void>();
+  private nextId = 1;
+
+  /**
+   * @param limit - Number of calls kept; the oldest are dropped first
+   * @param enabled - Whether to record (defaults to development builds only)
+   */
+  constructor(
+    private readonly limit = 100,
+    enabled = Boolean(DEBUG)
+  ) {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Start recording a call
+   */
+  begin(operation: CrmOperation | 'batch', args?: Record<string, unknown>): TrafficRecorder {
+    if (!this.enabled) {
+      return NOOP_RECORDER;
+    }
+
+    const id = this.nextId++;
+    this.entries = [{ id, operation, args, startedAt: Date.now(), exchanges: [] }, ...this.entries].slice(
+      0,
+      this.limit
+    );
+    this.emit();
+
+    return {
+      exchange: (exchange) => {
+        this.update(id, (entry) => ({ ...entry, exchanges: [...entry.exchanges, exchange] }));
+      },
+      finish: (result, source) => {
+        this.update(id, (entry) => ({
+          ...entry,
+          durationMs: Date.now() - entry.startedAt,
+          source,
+          result,
+        }));
+        return result;
+      },
+    };
+  }
+
+  /**
+   * Recorded calls, newest first
+   */
+  getEntries(): TrafficEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Forget all recorded calls
+   */
+  clear(): void {
+    this.entries = [];
+    this.emit();
+  }
+
+  /**
+   * Svelte store contract: called immediately and on every change
+   */
+  subscribe(listener: (entries: TrafficEntry[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.entries);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(id: number, change: (entry: TrafficEntry) => TrafficEntry): void {
+    // Entries that were dropped or cleared meanwhile are not brought back
+    if (!this.entries.some((entry) => entry.id === id)) return;
+    this.entries = this.entries.map((entry) => (entry.id === id ? change(entry) : entry));
+    this.emit();
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener(this.entries));
+  }
+}
+
+// Singleton instance shared by the client and the inspector panel
+export const trafficInspector = new TrafficInspector();
+
+/**
+ * The natural language prompt sent in an exchange
+ */
+export function promptOf(exchange: WorkflowExchange): string {
+  try {
+    const message = JSON.parse(exchange.body)?.inputs?.message;
+    return typeof message === 'string' ? message : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * The prompt template an exchange was built from, e.g. "createContact v1"
+ */
+export function templateOf(exchange: WorkflowExchange): string {
+  try {
+    const prompt = JSON.parse(exchange.body)?.inputs?.intent?.prompt;
+    return prompt ? `${prompt.name} v${prompt.version}` : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Quote a value for a POSIX shell
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Reproduce an exchange as a cURL command.
+ * The API key is left as $SCOUT_API_KEY so it never ends up on the clipboard.
+ */
+export function toCurl(exchange: WorkflowExchange): string {
+  return [
+    `curl -X POST ${shellQuote(exchange.url)}`,
+    `  -H 'Content-Type: application/json'`,
+    ...(exchange.stream ? [`  -H 'Accept: text/event-stream'`] : []),
+    `  -H "Authorization: Bearer $SCOUT_API_KEY"`,
+    `  --data-raw ${shellQuote(exchange.body)}`,
+  ].join(' \\\n');
+}
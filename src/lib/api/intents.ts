@@ -0,0 +1,303 @@
+/**
+ * Structured command intents
+ *
+ * Every Scout command is sent as natural language, but the request also
+ * carries an intent envelope: the operation name, its typed arguments and the
+ * schema the response is expected to match. A workflow that understands the
+ * envelope can skip interpreting the prose; either way the client checks the
+ * reply against the declared schema.
+ */
+
+import type {
+  ApiResponse,
+  ContactStatus,
+  CountedStage,
+  CreateContactData,
+  LogActivityData,
+  PageRequest,
+  UpdateContactData,
+  ValidationIssue,
+} from '../types';
+import type { CrmOperation } from './backends/types';
+import type { PromptRef } from './prompts';
+import { createApiError } from './errors';
+import { stageIds } from './pipeline';
+import { ACTIVITY_TYPES } from './validation';
+import { getPipeline } from './workspace';
+
+/** Version of the envelope format, bumped on incompatible changes */
+export const INTENT_VERSION = 1;
+
+/**
+ * Arguments of each operation
+ */
+export interface IntentArgs {
+  listContacts: Record<string, never>;
+  listContactsPage: PageRequest;
+  getContactDetails: { contactId: string };
+  createContact: CreateContactData;
+  logActivity: LogActivityData;
+  getDashboard: { activityLimit: number; stages: CountedStage[] };
+  searchContacts: { query: string };
+  updateContact: { contactId: string; changes: UpdateContactData };
+  updateContactStatus: { contactId: string; status: ContactStatus; lossReason?: string };
+  deleteContact: { contactId: string };
+}
+
+/**
+ * A subset of JSON Schema, enough to describe CRM responses
+ */
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'boolean';
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  items?: ResponseSchema;
+  enum?: readonly string[];
+}
+
+/**
+ * The envelope sent alongside the natural language message
+ */
+export interface CommandIntent<O extends CrmOperation = CrmOperation> {
+  version: typeof INTENT_VERSION;
+  operation: O;
+  args: IntentArgs[O];
+  responseSchema: ResponseSchema;
+  /** Template the message was built from */
+  prompt?: PromptRef;
+}
+
+// The statuses depend on the active workspace's pipeline, so they are read
+// each time the schema is used rather than fixed when the module loads
+const STATUS_SCHEMA: ResponseSchema = {
+  type: 'string',
+  get enum() {
+    return stageIds(getPipeline());
+  },
+};
+
+const CONTACT_SCHEMA: ResponseSchema = {
+  type: 'object',
+  required: ['id', 'name', 'email', 'status'],
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    email: { type: 'string' },
+    phone: { type: 'string' },
+    company: { type: 'string' },
+    // Contacts may still hold the status of a stage that was removed or renamed
+    status: { type: 'string' },
+    lossReason: { type: 'string' },
+    archived: { type: 'boolean' },
+  },
+};
+
+const ACTIVITY_SCHEMA: ResponseSchema = {
+  type: 'object',
+  required: ['id', 'contactId', 'type', 'description', 'timestamp'],
+  properties: {
+    id: { type: 'string' },
+    contactId: { type: 'string' },
+    type: { type: 'string', enum: ACTIVITY_TYPES },
+    description: { type: 'string' },
+    outcome: { type: 'string' },
+    timestamp: { type: 'string' },
+  },
+};
+
+const CONTACT_LIST_SCHEMA: ResponseSchema = { type: 'array', items: CONTACT_SCHEMA };
+
+/**
+ * Expected response of each operation, in the canonical (normalized) shape
+ */
+export const RESPONSE_SCHEMAS: Record<CrmOperation, ResponseSchema> = {
+  listContacts: CONTACT_LIST_SCHEMA,
+  listContactsPage: {
+    type: 'object',
+    required: ['contacts', 'offset'],
+    properties: {
+      contacts: CONTACT_LIST_SCHEMA,
+      offset: { type: 'integer' },
+      nextOffset: { type: 'integer' },
+      total: { type: 'integer' },
+    },
+  },
+  getContactDetails: {
+    ...CONTACT_SCHEMA,
+    properties: { ...CONTACT_SCHEMA.properties, activities: { type: 'array', items: ACTIVITY_SCHEMA } },
+  },
+  createContact: CONTACT_SCHEMA,
+  logActivity: ACTIVITY_SCHEMA,
+  getDashboard: {
+    type: 'object',
+    required: ['contactCounts', 'activityCount'],
+    properties: {
+      contactCounts: {
+        type: 'object',
+        get properties() {
+          return Object.fromEntries([
+            ...stageIds(getPipeline()).map((status) => [status, { type: 'integer' } as ResponseSchema]),
+            ['total', { type: 'integer' }],
+          ]);
+        },
+      },
+      activityCount: { type: 'integer' },
+      recentActivities: { type: 'array', items: ACTIVITY_SCHEMA },
+    },
+  },
+  searchContacts: CONTACT_LIST_SCHEMA,
+  updateContact: CONTACT_SCHEMA,
+  updateContactStatus: {
+    type: 'object',
+    required: ['id', 'status'],
+    properties: {
+      id: { type: 'string' },
+      status: STATUS_SCHEMA,
+      lossReason: { type: 'string' },
+    },
+  },
+  deleteContact: {
+    type: 'object',
+    required: ['id', 'activitiesDeleted'],
+    properties: {
+      id: { type: 'string' },
+      activitiesDeleted: { type: 'integer' },
+    },
+  },
+};
+
+/**
+ * Envelope for several operations sent as one workflow run
+ */
+export interface BatchIntent {
+  version: typeof INTENT_VERSION;
+  operation: 'batch';
+  /** The operations in the order they must run; each declares its own response schema */
+  args: { operations: CommandIntent[] };
+  responseSchema: ResponseSchema;
+  prompt?: PromptRef;
+}
+
+/**
+ * Expected response of a batch: one result per operation, in order
+ */
+export const BATCH_RESPONSE_SCHEMA: ResponseSchema = {
+  type: 'object',
+  required: ['results'],
+  properties: { results: { type: 'array' } },
+};
+
+/**
+ * Build the intent for an operation
+ */
+export function createIntent<O extends CrmOperation>(
+  operation: O,
+  args: IntentArgs[O],
+  prompt?: PromptRef
+): CommandIntent<O> {
+  return {
+    version: INTENT_VERSION,
+    operation,
+    args,
+    responseSchema: RESPONSE_SCHEMAS[operation],
+    ...(prompt ? { prompt } : {}),
+  };
+}
+
+/**
+ * Build the intent for a batch of operations
+ */
+export function createBatchIntent(operations: CommandIntent[], prompt?: PromptRef): BatchIntent {
+  return {
+    version: INTENT_VERSION,
+    operation: 'batch',
+    args: { operations },
+    responseSchema: BATCH_RESPONSE_SCHEMA,
+    ...(prompt ? { prompt } : {}),
+  };
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Whether a value has the schema's type. Values the validators safely coerce
+ * (numbers as strings, numeric strings as integers) are accepted.
+ */
+function matchesType(value: unknown, type: ResponseSchema['type']): boolean {
+  switch (type) {
+    case 'object':
+      return typeOf(value) === 'object';
+    case 'array':
+      return Array.isArray(value);
+    case 'string':
+      return typeof value === 'string' || typeof value === 'number';
+    case 'integer':
+      return Number.isInteger(typeof value === 'string' && value.trim() !== '' ? Number(value) : value);
+    case 'boolean':
+      return typeof value === 'boolean';
+  }
+}
+
+/**
+ * Check a value against a schema.
+ * Array items are not checked: the validators drop bad items from a
+ * collection rather than failing the whole response.
+ */
+export function verifySchema(value: unknown, schema: ResponseSchema, path = ''): ValidationIssue[] {
+  const at = path || '(root)';
+
+  if (!matchesType(value, schema.type)) {
+    return [{ path: at, message: `expected ${schema.type}, got ${typeOf(value)}` }];
+  }
+  if (schema.enum && !schema.enum.includes(String(value))) {
+    return [{ path: at, message: `must be one of ${schema.enum.join(', ')} (got "${value}")` }];
+  }
+  if (schema.type !== 'object') {
+    return [];
+  }
+
+  const record = value as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+  for (const field of schema.required ?? []) {
+    if (record[field] === undefined || record[field] === null) {
+      issues.push({ path: path ? `${path}.${field}` : field, message: 'is required' });
+    }
+  }
+  for (const [field, fieldSchema] of Object.entries(schema.properties ?? {})) {
+    const fieldValue = record[field];
+    if (fieldValue !== undefined && fieldValue !== null) {
+      issues.push(...verifySchema(fieldValue, fieldSchema, path ? `${path}.${field}` : field));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Fail a successful response whose data does not match the intent's schema
+ */
+export function verifyResponse(response: ApiResponse<unknown>, intent: CommandIntent): ApiResponse<unknown> {
+  if (!response.success) {
+    return response;
+  }
+
+  const issues = verifySchema(response.data, intent.responseSchema);
+  if (issues.length === 0) {
+    return response;
+  }
+
+  console.warn(`[Intent] ${intent.operation} response does not match its schema:`, issues);
+  return {
+    success: false,
+    error: createApiError(
+      'validation_error',
+      `Response does not match the ${intent.operation} schema: ${issues.map((i) => `${i.path} ${i.message}`).join('; ')}`
+    ),
+    validationErrors: issues,
+    ...(response.meta ? { meta: response.meta } : {}),
+    rawResponse: response.rawResponse,
+  };
+}
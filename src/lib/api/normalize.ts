@@ -0,0 +1,326 @@
+/**
+ * Normalization of raw CRM records
+ *
+ * The workflow's agent is inconsistent about naming: IDs arrive as
+ * `document_id` or `_id`, statuses as "Qualified" or "client", timestamps as
+ * epoch seconds or local date strings, and the same record can appear twice.
+ * These functions map raw records onto the canonical shape before they are
+ * validated. They never reject anything; values they cannot interpret are
+ * passed through for validation to report.
+ */
+
+import type { ActivityType, ApiResponse, ContactStatus, PageRequest } from '../types';
+import { resolveStage, stageIdFor } from './pipeline';
+import { getPipeline } from './workspace';
+
+/**
+ * Maps raw data onto the canonical shape
+ */
+export type Normalizer = (input: unknown) => unknown;
+
+const CONTACT_ID_FIELDS = ['id', 'document_id', 'documentId', '_id', 'contact_id', 'contactId', 'uuid'];
+const ACTIVITY_ID_FIELDS = ['id', 'document_id', 'documentId', '_id', 'activity_id', 'activityId', 'uuid'];
+const ACTIVITY_CONTACT_FIELDS = ['contactId', 'contact_id', 'contact'];
+const LOSS_REASON_FIELDS = ['lossReason', 'loss_reason', 'lostReason', 'lost_reason'];
+const TIMESTAMP_FIELDS = ['timestamp', 'created_at', 'createdAt', 'date', 'time'];
+
+/** Synonyms of the default pipeline's statuses */
+const STATUS_SYNONYMS: Record<string, ContactStatus> = {
+  lead: 'lead',
+  leads: 'lead',
+  new: 'lead',
+  'new lead': 'lead',
+  cold: 'lead',
+  unqualified: 'lead',
+  prospect: 'prospect',
+  prospects: 'prospect',
+  qualified: 'prospect',
+  'qualified lead': 'prospect',
+  opportunity: 'prospect',
+  warm: 'prospect',
+  contacted: 'prospect',
+  negotiation: 'prospect',
+  'in progress': 'prospect',
+  customer: 'customer',
+  customers: 'customer',
+  client: 'customer',
+  clients: 'customer',
+  won: 'customer',
+  'closed won': 'customer',
+  converted: 'customer',
+  active: 'customer',
+  lost: 'lost',
+  'closed lost': 'lost',
+  'lost deal': 'lost',
+};
+
+const ACTIVITY_TYPE_SYNONYMS: Record<string, ActivityType> = {
+  call: 'call',
+  calls: 'call',
+  called: 'call',
+  phone: 'call',
+  'phone call': 'call',
+  email: 'email',
+  emails: 'email',
+  emailed: 'email',
+  'e mail': 'email',
+  mail: 'email',
+  meeting: 'meeting',
+  meetings: 'meeting',
+  meet: 'meeting',
+  met: 'meeting',
+  appointment: 'meeting',
+  demo: 'meeting',
+  note: 'note',
+  notes: 'note',
+  comment: 'note',
+  memo: 'note',
+};
+
+/** Date and time without an offset, e.g. "2024-01-15 10:30" */
+const ZONELESS_DATETIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/** Epoch values below this are taken to be seconds rather than milliseconds */
+const EPOCH_SECONDS_LIMIT = 1e11;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Lowercase and collapse separators so "Closed-Won" and "closed_won" match
+ */
+function synonymKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+/**
+ * Map a status onto a stage of the active pipeline: a stage's ID, label or
+ * alias, or a synonym of a default status that a stage claims (so "client"
+ * still finds the stage that replaced "customer").
+ * Unknown values are returned trimmed so validation can report them.
+ */
+export function normalizeStatus(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const pipeline = getPipeline();
+  const stage = resolveStage(pipeline, value) ?? resolveStage(pipeline, stageIdFor(value));
+  if (stage) return stage;
+
+  const synonym = STATUS_SYNONYMS[synonymKey(value)];
+  return synonym ? (resolveStage(pipeline, synonym) ?? synonym) : value.trim();
+}
+
+/**
+ * Map an activity type or one of its synonyms to an ActivityType.
+ * Unknown values are returned trimmed so validation can report them.
+ */
+export function normalizeActivityType(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  return ACTIVITY_TYPE_SYNONYMS[synonymKey(value)] ?? value.trim();
+}
+
+/**
+ * Convert a timestamp to ISO-8601 UTC.
+ * Accepts epoch seconds or milliseconds (as numbers or numeric strings) and
+ * date strings; a date and time without an offset is taken to be UTC.
+ * Unparseable values are returned unchanged.
+ */
+export function normalizeTimestamp(value: unknown): unknown {
+  let date: Date | null = null;
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    date = new Date(value < EPOCH_SECONDS_LIMIT ? value * 1000 : value);
+  } else if (typeof value === 'string' && value.trim() !== '') {
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+      return normalizeTimestamp(Number(trimmed));
+    }
+    date = new Date(ZONELESS_DATETIME.test(trimmed) ? `${trimmed.replace(' ', 'T')}Z` : trimmed);
+  }
+
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : value;
+}
+
+/**
+ * Normalize an ID: trimmed, numbers stringified
+ */
+function normalizeId(value: unknown): unknown {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return typeof value === 'string' ? value.trim() : value;
+}
+
+/**
+ * First of the given fields that holds a usable value
+ */
+function firstPresent(record: Record<string, unknown>, fields: string[]): unknown {
+  for (const field of fields) {
+    const value = record[field];
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+}
+
+/**
+ * Copy a record with every string value trimmed
+ */
+function trimmed(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value])
+  );
+}
+
+/**
+ * Set a field only when there is a value, so absent fields stay absent
+ */
+function assign(record: Record<string, unknown>, field: string, value: unknown): void {
+  if (value !== undefined) record[field] = value;
+}
+
+/**
+ * Drop later records that share an ID (or, for contacts without one, an email) with an earlier record
+ */
+function dedupe(records: unknown[]): unknown[] {
+  const seen = new Set<string>();
+  return records.filter((record) => {
+    if (!isRecord(record)) return true;
+    const key =
+      typeof record.id === 'string' && record.id
+        ? `id:${record.id}`
+        : typeof record.email === 'string' && record.email
+          ? `email:${record.email.toLowerCase()}`
+          : null;
+    if (key === null) return true;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Normalize a contact record
+ */
+export const normalizeContact: Normalizer = (input) => {
+  if (!isRecord(input)) return input;
+
+  const contact = trimmed(input);
+  assign(contact, 'id', normalizeId(firstPresent(input, CONTACT_ID_FIELDS)));
+  assign(contact, 'status', normalizeStatus(input.status));
+  assign(contact, 'lossReason', firstPresent(contact, LOSS_REASON_FIELDS));
+  return contact;
+};
+
+/**
+ * Normalize an activity record
+ */
+export const normalizeActivity: Normalizer = (input) => {
+  if (!isRecord(input)) return input;
+
+  const activity = trimmed(input);
+  assign(activity, 'id', normalizeId(firstPresent(input, ACTIVITY_ID_FIELDS)));
+  const contactId = firstPresent(input, ACTIVITY_CONTACT_FIELDS);
+  if (!isRecord(contactId)) {
+    assign(activity, 'contactId', normalizeId(contactId));
+  }
+  assign(activity, 'type', normalizeActivityType(input.type));
+  assign(activity, 'timestamp', normalizeTimestamp(firstPresent(input, TIMESTAMP_FIELDS)));
+  return activity;
+};
+
+/**
+ * Normalizer for activities of a known contact, filling in a missing contactId
+ */
+export function activityNormalizerFor(contactId: string): Normalizer {
+  return (input) => {
+    const activity = normalizeActivity(input);
+    return isRecord(activity) && activity.contactId == null ? { ...activity, contactId } : activity;
+  };
+}
+
+/**
+ * Normalize and de-duplicate a list of records
+ */
+function normalizeList(input: unknown, normalizeItem: Normalizer): unknown {
+  return Array.isArray(input) ? dedupe(input.map(normalizeItem)) : input;
+}
+
+/**
+ * Normalize a contact list, which may arrive as a bare array or as { contacts: [...] }
+ */
+export const normalizeContactList: Normalizer = (input) => {
+  const contacts = Array.isArray(input) ? input : isRecord(input) ? input.contacts ?? [] : [];
+  return normalizeList(contacts, normalizeContact);
+};
+
+/**
+ * Normalizer for a requested page of contacts. The reply holds the page's
+ * contacts (bare or as { contacts: [...] }) and ideally the total number of
+ * contacts; the page's position and the offset of the next page are filled in.
+ * Without a total, a full page is taken to mean there may be more.
+ */
+export function contactPageNormalizerFor({ offset, limit }: PageRequest): Normalizer {
+  return (input) => {
+    const contacts = Array.isArray(input) ? input : isRecord(input) ? input.contacts ?? [] : [];
+    const rawTotal = isRecord(input) ? input.total ?? input.totalCount ?? input.total_count : undefined;
+    const total = typeof rawTotal === 'string' && rawTotal.trim() !== '' ? Number(rawTotal) : rawTotal;
+
+    const received = Array.isArray(contacts) ? contacts.length : 0;
+    const end = offset + received;
+    const hasMore = received > 0 && (typeof total === 'number' ? end < total : received >= limit);
+
+    const page: Record<string, unknown> = {
+      contacts: normalizeList(contacts, normalizeContact),
+      offset,
+      nextOffset: hasMore ? end : null,
+    };
+    assign(page, 'total', total);
+    return page;
+  };
+}
+
+/**
+ * Normalize a list of activities
+ */
+export const normalizeActivityList: Normalizer = (input) => normalizeList(input, normalizeActivity);
+
+/**
+ * Normalize a contact together with its activities
+ */
+export const normalizeContactWithActivities: Normalizer = (input) => {
+  if (!isRecord(input)) return input;
+
+  const contact = normalizeContact(input) as Record<string, unknown>;
+  const normalizeItem = typeof contact.id === 'string' ? activityNormalizerFor(contact.id) : normalizeActivity;
+  assign(contact, 'activities', normalizeList(input.activities, normalizeItem));
+  return contact;
+};
+
+/**
+ * Normalize dashboard data: count keys may use status synonyms
+ * ("Leads", "clients"), which are folded into the canonical statuses
+ */
+export const normalizeDashboardData: Normalizer = (input) => {
+  if (!isRecord(input)) return input;
+
+  const dashboard = { ...input };
+  const rawCounts = input.contactCounts ?? input.contact_counts;
+  if (isRecord(rawCounts)) {
+    const counts: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(rawCounts)) {
+      const status = synonymKey(key) === 'total' ? 'total' : (normalizeStatus(key) as string);
+      const count = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      const existing = counts[status];
+      counts[status] = typeof existing === 'number' && typeof count === 'number' ? existing + count : count;
+    }
+    dashboard.contactCounts = counts;
+  }
+  assign(dashboard, 'activityCount', input.activityCount ?? input.activity_count);
+  assign(dashboard, 'recentActivities', normalizeActivityList(input.recentActivities ?? input.recent_activities));
+  return dashboard;
+};
+
+/**
+ * Apply a normalizer to the data of a successful response
+ */
+export function normalizeResponse(response: ApiResponse<unknown>, normalize: Normalizer): ApiResponse<unknown> {
+  return response.success ? { ...response, data: normalize(response.data) } : response;
+}
@@ -0,0 +1,171 @@
+/**
+ * Pipeline definitions
+ *
+ * The stages a contact moves through are configured per workspace rather
+ * than fixed in code: each stage has an ID (stored in the contact's status),
+ * a label, a badge color and optionally a terminal outcome. Workspaces that
+ * configure nothing use the original lead/prospect/customer/lost pipeline.
+ *
+ * Contacts saved under an earlier pipeline keep their old status values. A
+ * stage lists those values as aliases, and statuses are mapped onto the
+ * stage that claims them when records are read (see normalize.ts), so
+ * replacing "lead" with "MQL" does not strand the existing leads.
+ */
+
+import type { ContactStatus, CountedStage, PipelineDefinition, PipelineStage, StageColor } from '../types';
+
+export const STAGE_COLORS: readonly StageColor[] = [
+  'gray',
+  'silver',
+  'dark',
+  'outline',
+  'blue',
+  'green',
+  'amber',
+  'red',
+  'purple',
+];
+
+/**
+ * The pipeline used when a workspace does not configure one
+ */
+export const DEFAULT_PIPELINE: PipelineDefinition = {
+  stages: [
+    { id: 'lead', label: 'Lead', color: 'gray' },
+    { id: 'prospect', label: 'Prospect', color: 'silver' },
+    { id: 'customer', label: 'Customer', color: 'dark', terminal: 'won' },
+    { id: 'lost', label: 'Lost', color: 'outline', terminal: 'lost' },
+  ],
+};
+
+/** Reserved for the total in the dashboard counts */
+const RESERVED_STAGE_IDS = new Set(['total']);
+
+/**
+ * Stage ID derived from a label, e.g. "Closed Won" -> "closed_won"
+ */
+export function stageIdFor(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * IDs of the stages, in pipeline order
+ */
+export function stageIds(pipeline: PipelineDefinition): ContactStatus[] {
+  return pipeline.stages.map((stage) => stage.id);
+}
+
+/**
+ * Stages with the status values counted under them, for counts made by the
+ * workflow, which holds the contacts' statuses as they were saved
+ */
+export function countedStages(pipeline: PipelineDefinition): CountedStage[] {
+  return pipeline.stages.map((stage) => ({ id: stage.id, aliases: stage.aliases ?? [] }));
+}
+
+/**
+ * The stage with the given ID, if the pipeline has one
+ */
+export function findStage(pipeline: PipelineDefinition, id: ContactStatus): PipelineStage | undefined {
+  return pipeline.stages.find((stage) => stage.id === id);
+}
+
+/**
+ * Display name of a status; an unknown status is shown capitalized
+ */
+export function stageLabel(pipeline: PipelineDefinition, id: ContactStatus): string {
+  return findStage(pipeline, id)?.label ?? id.charAt(0).toUpperCase() + id.slice(1);
+}
+
+/**
+ * Whether a status is a stage where the deal was lost
+ */
+export function isLostStage(pipeline: PipelineDefinition, id: ContactStatus): boolean {
+  return findStage(pipeline, id)?.terminal === 'lost';
+}
+
+/**
+ * The stage a status value means: a stage ID, a stage label or an alias,
+ * ignoring case. Undefined when no stage claims it.
+ */
+export function resolveStage(pipeline: PipelineDefinition, value: string): ContactStatus | undefined {
+  const key = value.trim().toLowerCase();
+  const stage =
+    pipeline.stages.find((candidate) => candidate.id === key) ??
+    pipeline.stages.find(
+      (candidate) => candidate.label.toLowerCase() === key || candidate.aliases?.includes(key)
+    );
+  return stage?.id;
+}
+
+/**
+ * Trim labels, fill in missing IDs from the labels, drop unknown colors and
+ * keep the first of any stages that share an ID
+ */
+export function normalizePipeline(pipeline: PipelineDefinition): PipelineDefinition {
+  const seen = new Set<string>();
+  const stages: PipelineStage[] = [];
+  for (const stage of pipeline.stages) {
+    const label = stage.label.trim();
+    const id = stageIdFor(stage.id || label);
+    if (!label || !id || seen.has(id)) continue;
+    seen.add(id);
+
+    const normalized: PipelineStage = { id, label, color: STAGE_COLORS.includes(stage.color) ? stage.color : 'gray' };
+    if (stage.terminal === 'won' || stage.terminal === 'lost') normalized.terminal = stage.terminal;
+    const aliases = [...new Set((stage.aliases ?? []).map((alias) => alias.trim().toLowerCase()))].filter(
+      (alias) => alias && alias !== id
+    );
+    if (aliases.length > 0) normalized.aliases = aliases;
+    stages.push(normalized);
+  }
+  return { stages };
+}
+
+/**
+ * Check a pipeline before it is saved
+ * @returns Error message, or undefined when the pipeline is valid
+ */
+export function validatePipeline(pipeline: PipelineDefinition): string | undefined {
+  if (pipeline.stages.length === 0) {
+    return 'Add at least one stage';
+  }
+  if (pipeline.stages.some((stage) => !stage.label.trim())) {
+    return 'Every stage needs a name';
+  }
+
+  const seen = new Set<string>();
+  for (const stage of pipeline.stages) {
+    const id = stageIdFor(stage.id || stage.label);
+    if (!id) {
+      return `"${stage.label.trim()}" needs a letter or digit in its name`;
+    }
+    if (RESERVED_STAGE_IDS.has(id)) {
+      return `"${stage.label.trim()}" cannot be used as a stage name`;
+    }
+    if (seen.has(id)) {
+      return `There is more than one "${stage.label.trim()}" stage`;
+    }
+    seen.add(id);
+  }
+  return undefined;
+}
+
+/**
+ * Statuses of the default pipeline that no stage claims. Contacts still
+ * saved with these values will not match any stage.
+ */
+export function unmappedStatuses(pipeline: PipelineDefinition): ContactStatus[] {
+  return stageIds(DEFAULT_PIPELINE).filter((status) => resolveStage(pipeline, status) === undefined);
+}
+
+/**
+ * Whether two pipelines define the same stages
+ */
+export function isSamePipeline(a: PipelineDefinition, b: PipelineDefinition): boolean {
+  return JSON.stringify(normalizePipeline(a)) === JSON.stringify(normalizePipeline(b));
+}
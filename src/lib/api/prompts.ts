@@ -0,0 +1,408 @@
+/**
+ * Prompt Templates
+ *
+ * The instructions sent to the Scout workflow live here as named, versioned
+ * templates rather than inline in the command builders, so a prompt change is
+ * a reviewable diff of its own and can be compared against or rolled back to
+ * an earlier version without touching the code that sends it.
+ *
+ * A template declares its input variables and the schema of the reply it asks
+ * for; the reply format shown to the agent is generated from that schema, so
+ * the prompt cannot drift from the shape the client validates. Every request
+ * records the name and version of the template it was built from.
+ */
+
+import type { CrmOperation } from './backends/types';
+import { BATCH_RESPONSE_SCHEMA, RESPONSE_SCHEMAS, type ResponseSchema } from './intents';
+
+/**
+ * Names of the prompts the client sends
+ */
+export type PromptName = CrmOperation | 'getContactActivities' | 'batch';
+
+/**
+ * An input variable of a template.
+ * Values are sent as JSON in the command's guarded INPUT block, except inline
+ * variables, which are written into the instruction text in place of
+ * `{{name}}` and must be positive integers.
+ */
+export interface PromptVariable {
+  name: string;
+  required?: boolean;
+  inline?: boolean;
+}
+
+export interface PromptTemplate {
+  name: PromptName;
+  version: number;
+  /** What this version is for or changed, for reviewers */
+  description: string;
+  variables: readonly PromptVariable[];
+  /** Instruction text; `{{output}}` marks where the reply format goes */
+  text: string;
+  /** Schema of the reply the instruction asks for */
+  outputSchema: ResponseSchema;
+}
+
+/**
+ * Identifies the template a request was built from
+ */
+export interface PromptRef {
+  name: PromptName;
+  version: number;
+}
+
+/**
+ * Write an example value of a schema, as shown to the agent
+ */
+export function exampleOf(schema: ResponseSchema): string {
+  switch (schema.type) {
+    case 'object': {
+      const fields = Object.entries(schema.properties ?? {}).map(
+        ([field, fieldSchema]) => `${JSON.stringify(field)}: ${exampleOf(fieldSchema)}`
+      );
+      return `{${fields.join(', ')}}`;
+    }
+    case 'array':
+      return schema.items ? `[${exampleOf(schema.items)}]` : '[]';
+    case 'string':
+      return '"..."';
+    case 'integer':
+      return '0';
+    case 'boolean':
+      return 'true';
+  }
+}
+
+/**
+ * The reply format of a template: a JSON code block with an example value
+ */
+export function outputFormat(template: PromptTemplate): string {
+  return '```json\n' + exampleOf(template.outputSchema) + '\n```';
+}
+
+/** Reply that wraps a list of contacts, so the list can be streamed */
+const CONTACT_LIST_REPLY: ResponseSchema = {
+  type: 'object',
+  required: ['contacts'],
+  properties: { contacts: RESPONSE_SCHEMAS.listContacts },
+};
+
+/**
+ * The templates shipped with the client
+ */
+export const BUILT_IN_PROMPTS: readonly PromptTemplate[] = [
+  {
+    name: 'listContacts',
+    version: 1,
+    description: 'List every contact',
+    variables: [],
+    text: 'List all contacts from the Contacts table. Return ONLY a JSON code block with format: {{output}} No other text.',
+    outputSchema: CONTACT_LIST_REPLY,
+  },
+  {
+    name: 'listContactsPage',
+    version: 1,
+    description: 'One page of contacts in name order, with the total so the client knows when to stop',
+    variables: [
+      { name: 'offset', required: true },
+      { name: 'limit', required: true },
+    ],
+    text: 'List contacts from the Contacts table sorted by name, skipping the number of contacts given as "offset" in the INPUT block and returning at most "limit" contacts. Also give the total number of contacts in the table. Return ONLY a JSON code block with format: {{output}} No other text.',
+    outputSchema: {
+      type: 'object',
+      required: ['contacts', 'total'],
+      properties: { contacts: RESPONSE_SCHEMAS.listContacts, total: { type: 'integer' } },
+    },
+  },
+  {
+    name: 'getDashboard',
+    version: 1,
+    description: 'Contact counts by status and the most recent activities',
+    variables: [{ name: 'activityLimit', required: true, inline: true }],
+    text: 'Get a dashboard summary. Count contacts by status (lead, prospect, customer) and get the {{activityLimit}} most recent activities. Return ONLY a JSON code block with format: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.getDashboard,
+  },
+  {
+    name: 'getDashboard',
+    version: 2,
+    description: 'Also count lost contacts, for win/loss reporting',
+    variables: [{ name: 'activityLimit', required: true, inline: true }],
+    text: 'Get a dashboard summary. Count contacts by status (lead, prospect, customer, lost) and get the {{activityLimit}} most recent activities. Return ONLY a JSON code block with format: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.getDashboard,
+  },
+  {
+    name: 'getDashboard',
+    version: 3,
+    description: 'Count the stages of the workspace pipeline instead of fixed statuses',
+    variables: [
+      { name: 'activityLimit', required: true, inline: true },
+      { name: 'statuses', required: true },
+    ],
+    text: 'Get a dashboard summary. Count contacts for each status listed as "statuses" in the INPUT block and get the {{activityLimit}} most recent activities. Return ONLY a JSON code block with format: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.getDashboard,
+  },
+  {
+    name: 'getDashboard',
+    version: 4,
+    description: 'Count contacts still saved under a stage alias with that stage',
+    variables: [
+      { name: 'activityLimit', required: true, inline: true },
+      { name: 'stages', required: true },
+    ],
+    text: 'Get a dashboard summary. Count contacts for each stage listed as "stages" in the INPUT block: a contact belongs to a stage when its status is the stage\'s "id" or one of its "aliases" (status values from before the stage was set up), and is counted under the stage\'s "id". Also get the {{activityLimit}} most recent activities. Return ONLY a JSON code block with format: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.getDashboard,
+  },
+  {
+    name: 'getContactDetails',
+    version: 1,
+    description: 'A contact with all of its activities',
+    variables: [{ name: 'contactId', required: true }],
+    text: 'Get contact details for the document ID given as "contactId" in the INPUT block, including all activities. Return ONLY a JSON code block with format: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.getContactDetails,
+  },
+  {
+    name: 'getContactActivities',
+    version: 1,
+    description: 'The activities of a contact',
+    variables: [{ name: 'contactId', required: true }],
+    text: 'Get all activities for the contact whose ID is given as "contactId" in the INPUT block. Return ONLY a JSON code block with format: {{output}} No other text.',
+    outputSchema: {
+      type: 'object',
+      required: ['activities'],
+      properties: { activities: { type: 'array', items: RESPONSE_SCHEMAS.logActivity } },
+    },
+  },
+  {
+    name: 'createContact',
+    version: 1,
+    description: 'Create a contact',
+    variables: [
+      { name: 'name', required: true },
+      { name: 'email', required: true },
+      { name: 'company' },
+      { name: 'phone' },
+      { name: 'status', required: true },
+    ],
+    text: 'Create a new contact in the Contacts table with the fields given in the INPUT block. Return ONLY a JSON code block with the created contact: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.createContact,
+  },
+  {
+    name: 'logActivity',
+    version: 1,
+    description: 'Log an activity for a contact',
+    variables: [
+      { name: 'contactId', required: true },
+      { name: 'type', required: true },
+      { name: 'description', required: true },
+      { name: 'outcome' },
+    ],
+    text: 'Log an activity for a contact with the contact ID, type, description and optional outcome given in the INPUT block. Return ONLY a JSON code block with the created activity: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.logActivity,
+  },
+  {
+    name: 'createContact',
+    version: 2,
+    description: 'Create a contact at most once per idempotency key, so a retried request does not add a duplicate',
+    variables: [
+      { name: 'name', required: true },
+      { name: 'email', required: true },
+      { name: 'company' },
+      { name: 'phone' },
+      { name: 'status', required: true },
+      { name: 'idempotencyKey' },
+    ],
+    text: 'Create a new contact in the Contacts table with the fields given in the INPUT block. If a contact was already created with the "idempotencyKey" given there, return that contact instead of creating another; otherwise store the idempotencyKey with the new contact. Return ONLY a JSON code block with the created contact: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.createContact,
+  },
+  {
+    name: 'logActivity',
+    version: 2,
+    description: 'Log an activity at most once per idempotency key, so a retried request does not add a duplicate',
+    variables: [
+      { name: 'contactId', required: true },
+      { name: 'type', required: true },
+      { name: 'description', required: true },
+      { name: 'outcome' },
+      { name: 'idempotencyKey' },
+    ],
+    text: 'Log an activity for a contact with the contact ID, type, description and optional outcome given in the INPUT block. If an activity was already logged with the "idempotencyKey" given there, return that activity instead of logging another; otherwise store the idempotencyKey with the new activity. Return ONLY a JSON code block with the created activity: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.logActivity,
+  },
+  {
+    name: 'updateContact',
+    version: 1,
+    description: 'Change some fields of a contact, leaving the others as they are',
+    variables: [
+      { name: 'contactId', required: true },
+      { name: 'changes', required: true },
+    ],
+    text: 'Update the contact whose ID is given as "contactId" in the INPUT block. Set only the fields listed in "changes" there and leave every other field unchanged; an empty phone or company removes that field. Return ONLY a JSON code block with the updated contact: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.updateContact,
+  },
+  {
+    name: 'updateContact',
+    version: 2,
+    description: 'Clear the loss reason of a contact that is no longer lost',
+    variables: [
+      { name: 'contactId', required: true },
+      { name: 'changes', required: true },
+    ],
+    text: 'Update the contact whose ID is given as "contactId" in the INPUT block. Set only the fields listed in "changes" there and leave every other field unchanged; an empty phone, company or lossReason removes that field, and a status other than lost removes the loss reason. Return ONLY a JSON code block with the updated contact: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.updateContact,
+  },
+  {
+    name: 'updateContact',
+    version: 3,
+    description: 'Leave clearing the loss reason to the client, which knows which stages are lost',
+    variables: [
+      { name: 'contactId', required: true },
+      { name: 'changes', required: true },
+    ],
+    text: 'Update the contact whose ID is given as "contactId" in the INPUT block. Set only the fields listed in "changes" there and leave every other field unchanged; an empty phone, company or lossReason removes that field. Return ONLY a JSON code block with the updated contact: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.updateContact,
+  },
+  {
+    name: 'updateContactStatus',
+    version: 1,
+    description: 'Change the status of a contact',
+    variables: [
+      { name: 'contactId', required: true },
+      { name: 'status', required: true },
+    ],
+    text: 'Update the status of the contact whose ID is given as "contactId" in the INPUT block to the "status" given there. Return ONLY a JSON code block: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.updateContactStatus,
+  },
+  {
+    name: 'updateContactStatus',
+    version: 2,
+    description: 'Record why a deal was lost along with the lost status',
+    variables: [
+      { name: 'contactId', required: true },
+      { name: 'status', required: true },
+      { name: 'lossReason' },
+    ],
+    text: 'Update the status of the contact whose ID is given as "contactId" in the INPUT block to the "status" given there. If the status is lost and a "lossReason" is given there, store it as the contact\'s loss reason; any other status removes the loss reason. Return ONLY a JSON code block: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.updateContactStatus,
+  },
+  {
+    name: 'updateContactStatus',
+    version: 3,
+    description: 'Clear the loss reason when an empty one is sent, since only the client knows which stages are lost',
+    variables: [
+      { name: 'contactId', required: true },
+      { name: 'status', required: true },
+      { name: 'lossReason' },
+    ],
+    text: 'Update the status of the contact whose ID is given as "contactId" in the INPUT block to the "status" given there. If a "lossReason" is given there, store it as the contact\'s loss reason, or remove the loss reason when it is empty. Return ONLY a JSON code block: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.updateContactStatus,
+  },
+  {
+    name: 'deleteContact',
+    version: 1,
+    description: 'Permanently delete a contact together with its activities',
+    variables: [{ name: 'contactId', required: true }],
+    text: 'Permanently delete the contact whose ID is given as "contactId" in the INPUT block, and every activity logged for that contact. Return ONLY a JSON code block with the deleted contact\'s ID and the number of activities deleted: {{output}} No other text.',
+    outputSchema: RESPONSE_SCHEMAS.deleteContact,
+  },
+  {
+    name: 'searchContacts',
+    version: 1,
+    description: 'Find contacts matching a query',
+    variables: [{ name: 'query', required: true }],
+    text: 'Search contacts matching the "query" given in the INPUT block. Return ONLY a JSON code block: {{output}} No other text.',
+    outputSchema: CONTACT_LIST_REPLY,
+  },
+  {
+    name: 'batch',
+    version: 1,
+    description: 'Run several commands, each in its own section, as one workflow run',
+    variables: [{ name: 'count', required: true, inline: true }],
+    text: 'Perform the following {{count}} operations in order; each operation must see the changes made by the ones before it. Ignore the reply format each operation asks for and instead return ONLY one JSON code block with format: {{output}} where "results" holds one result per operation, in order: the JSON object its operation describes, or {"error": "..."} if that operation failed. No other text.',
+    outputSchema: BATCH_RESPONSE_SCHEMA,
+  },
+];
+
+/**
+ * Holds every version of every prompt and decides which one is sent.
+ *
+ * The newest version of a prompt is used unless another one is pinned
+ * (to roll back a change) or a caller asks for a specific version (to compare
+ * two versions side by side).
+ */
+export class PromptRegistry {
+  private templates = new Map<PromptName, PromptTemplate[]>();
+  private pinned = new Map<PromptName, number>();
+
+  constructor(templates: readonly PromptTemplate[] = BUILT_IN_PROMPTS) {
+    templates.forEach((template) => this.register(template));
+  }
+
+  /**
+   * Add a version of a prompt. A version that is already registered is kept.
+   * @returns Whether the template was added
+   */
+  register(template: PromptTemplate): boolean {
+    const versions = this.templates.get(template.name) ?? [];
+    if (versions.some((existing) => existing.version === template.version)) {
+      console.warn(`[Prompts] ${template.name} v${template.version} is already registered`);
+      return false;
+    }
+    this.templates.set(
+      template.name,
+      [...versions, template].sort((a, b) => a.version - b.version)
+    );
+    return true;
+  }
+
+  /**
+   * Registered versions of a prompt, oldest first
+   */
+  versions(name: PromptName): number[] {
+    return (this.templates.get(name) ?? []).map((template) => template.version);
+  }
+
+  /**
+   * Use a version of a prompt until it is unpinned
+   * @returns Whether the version exists
+   */
+  pin(name: PromptName, version: number): boolean {
+    if (!this.find(name, version)) {
+      return false;
+    }
+    this.pinned.set(name, version);
+    return true;
+  }
+
+  /**
+   * Go back to the newest version of a prompt
+   */
+  unpin(name: PromptName): void {
+    this.pinned.delete(name);
+  }
+
+  /**
+   * The template to send: the requested version if it exists, otherwise the
+   * pinned version, otherwise the newest one
+   */
+  resolve(name: PromptName, version?: number): PromptTemplate {
+    if (version !== undefined) {
+      const requested = this.find(name, version);
+      if (requested) {
+        return requested;
+      }
+      console.warn(`[Prompts] ${name} v${version} is not registered; using the active version`);
+    }
+
+    const pinned = this.pinned.get(name);
+    const versions = this.templates.get(name) ?? [];
+    return (pinned !== undefined && this.find(name, pinned)) || versions[versions.length - 1];
+  }
+
+  private find(name: PromptName, version: number): PromptTemplate | undefined {
+    return this.templates.get(name)?.find((template) => template.version === version);
+  }
+}
+
+// Singleton instance used by the command builders
+export const promptRegistry = new PromptRegistry();
@@ -0,0 +1,110 @@
+/**
+ * Retry and backoff helpers for workflow requests
+ *
+ * Scout workflow runs occasionally fail with transient gateway errors
+ * or rate limiting. These helpers decide when a failed attempt may be
+ * repeated and how long to wait before doing so.
+ */
+
+/**
+ * Retry policy for a single command
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one (1 disables retries) */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds */
+  baseDelayMs: number;
+  /** Upper bound for any single delay; a longer Retry-After stops retrying */
+  maxDelayMs: number;
+}
+
+/**
+ * Default policy: 3 attempts, 1s → 2s backoff, never wait more than 30s
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+};
+
+/**
+ * Default per-attempt timeout. Scout runs usually take 20-30 seconds.
+ */
+export const DEFAULT_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Merge user overrides with the default policy.
+ * `false` disables retries entirely.
+ */
+export function resolveRetryPolicy(retry?: Partial<RetryPolicy> | false): RetryPolicy {
+  if (retry === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...retry };
+}
+
+/**
+ * HTTP statuses worth retrying: rate limiting and server-side failures
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || (status >= 500 && status <= 599);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ * @returns Delay in ms, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with jitter.
+ * The delay doubles per attempt (capped at maxDelayMs) and the actual wait is
+ * randomised between half and the full delay so concurrent clients spread out.
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Wait for the given number of milliseconds.
+ * Resolves early if the signal is aborted, so callers can check it and stop.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
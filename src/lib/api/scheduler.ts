@@ -0,0 +1,170 @@
+/**
+ * Request Scheduler
+ *
+ * Workflow runs are slow and the Scout API rate limits bursts, so the
+ * transport only sends a limited number of them at once. Requests waiting for
+ * a slot start in priority order (a user's mutation before foreground reads,
+ * foreground reads before background prefetches) and first come, first
+ * served within a priority.
+ *
+ * The scheduler follows the Svelte store contract, so components can show
+ * the queue with `$requestScheduler`.
+ */
+
+/**
+ * Scheduling class of a request
+ * - mutation: a change the user just asked for
+ * - foreground: data the user is waiting to see
+ * - background: refreshes and prefetches nobody is waiting on
+ */
+export type RequestPriority = 'mutation' | 'foreground' | 'background';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  mutation: 0,
+  foreground: 1,
+  background: 2,
+};
+
+/**
+ * Default number of workflow runs in flight at once
+ * (overridable at build time with VITE_SCOUT_MAX_CONCURRENCY)
+ */
+export const DEFAULT_MAX_CONCURRENCY = Number(import.meta.env?.VITE_SCOUT_MAX_CONCURRENCY) || 3;
+
+/**
+ * Snapshot of the scheduler's load
+ */
+export interface SchedulerState {
+  /** Requests holding a slot */
+  active: number;
+  /** Requests waiting for a slot */
+  queued: number;
+}
+
+/**
+ * Gives a slot back; calling it more than once has no effect
+ */
+export type ReleaseSlot = () => void;
+
+interface Waiter {
+  priority: RequestPriority;
+  grant: (release: ReleaseSlot) => void;
+}
+
+export class RequestScheduler {
+  private active = 0;
+  private queue: Waiter[] = [];
+  private listeners = new Set<(state: SchedulerState) => void>();
+
+  /**
+   * @param maxConcurrency - Number of requests allowed to run at once
+   */
+  constructor(private maxConcurrency = DEFAULT_MAX_CONCURRENCY) {}
+
+  /**
+   * Change the number of requests allowed to run at once.
+   * Raising the limit starts waiting requests immediately; lowering it lets
+   * running requests finish.
+   */
+  setMaxConcurrency(limit: number): void {
+    this.maxConcurrency = Math.max(1, Math.floor(limit));
+    this.drain();
+  }
+
+  getMaxConcurrency(): number {
+    return this.maxConcurrency;
+  }
+
+  /**
+   * Wait for a slot. The caller must release the slot once its request has finished.
+   *
+   * @param priority - Scheduling class (default 'foreground')
+   * @param signal - Gives up the place in the queue when aborted
+   * @returns The release function, or null if the signal was aborted before a slot was free
+   */
+  acquire(priority: RequestPriority = 'foreground', signal?: AbortSignal): Promise<ReleaseSlot | null> {
+    if (signal?.aborted) {
+      return Promise.resolve(null);
+    }
+    const free = this.tryAcquire();
+    if (free) {
+      return Promise.resolve(free);
+    }
+
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        this.queue = this.queue.filter((waiter) => waiter !== queued);
+        this.emit();
+        resolve(null);
+      };
+      const queued: Waiter = {
+        priority,
+        grant: (release) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(release);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Queue behind every waiter of the same or a higher priority
+      const index = this.queue.findIndex((waiter) => PRIORITY_RANK[waiter.priority] > PRIORITY_RANK[priority]);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, queued);
+      this.emit();
+    });
+  }
+
+  /**
+   * Take a slot only if one is free and nobody is waiting, without yielding
+   * to the event loop
+   * @returns The release function, or null if the request would have to queue
+   */
+  tryAcquire(): ReleaseSlot | null {
+    return this.active < this.maxConcurrency && this.queue.length === 0 ? this.take() : null;
+  }
+
+  /**
+   * Current number of running and waiting requests
+   */
+  getState(): SchedulerState {
+    return { active: this.active, queued: this.queue.length };
+  }
+
+  /**
+   * Svelte store contract: called immediately and on every change
+   */
+  subscribe(listener: (state: SchedulerState) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private take(): ReleaseSlot {
+    this.active++;
+    this.emit();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.drain();
+      this.emit();
+    };
+  }
+
+  private drain(): void {
+    while (this.active < this.maxConcurrency && this.queue.length > 0) {
+      this.queue.shift()!.grant(this.take());
+    }
+  }
+
+  private emit(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+// Singleton instance shared by every workflow command
+export const requestScheduler = new RequestScheduler();
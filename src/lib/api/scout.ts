@@ -0,0 +1,560 @@
+/**
+ * Scout Workflow Transport
+ *
+ * Low-level request/response handling for the Scout workflow API.
+ * The Scout backend builds on this; nothing here knows about caching.
+ */
+
+import type { ApiResponse, WorkspaceSettings } from '../types';
+import type { RetryPolicy } from './retry';
+import { JsonArrayItemExtractor, readEventStream, textDelta } from './streaming';
+import { extractJson, type ExtractionResult } from './extraction';
+import type { BatchIntent, CommandIntent } from './intents';
+import { requestScheduler, type RequestPriority } from './scheduler';
+import { getWorkspace, workflowEndpoint } from './workspace';
+import { cancelledResponse, createApiError, errorResponse, httpError } from './errors';
+import { isRecord } from './validation';
+import {
+  DEFAULT_TIMEOUT_MS,
+  resolveRetryPolicy,
+  isRetryableStatus,
+  parseRetryAfter,
+  computeBackoffDelay,
+  sleep
+} from './retry';
+
+// Only log in development mode
+const DEBUG = typeof import.meta !== 'undefined' && import.meta.env?.DEV;
+
+/**
+ * Turn the body of a finished workflow run into an API response
+ */
+function completeResponse<T>(rawResponse: unknown): ApiResponse<T> {
+  // Check for API-level errors
+  const run = isRecord(rawResponse) && isRecord(rawResponse.run) ? rawResponse.run : undefined;
+  if (run?.stop_reason === 'workflow_run_failed') {
+    const errors = Array.isArray(run.errors) ? run.errors.map(String) : ['Unknown error'];
+    return {
+      success: false,
+      error: createApiError('workflow_failed', errors.join(', ')),
+      rawResponse
+    };
+  }
+
+  const extracted = parseScoutResponse<T>(rawResponse);
+
+  if (extracted === null) {
+    return {
+      success: false,
+      error: createApiError('parse_error', 'Failed to parse API response'),
+      rawResponse
+    };
+  }
+
+  return extractedResponse(extracted, rawResponse);
+}
+
+/**
+ * Successful response for extracted data, noting any repairs that were needed
+ * and whether the output was cut off
+ */
+function extractedResponse<T>(extracted: ExtractionResult<T>, rawResponse: unknown): ApiResponse<T> {
+  const response: ApiResponse<T> = { success: true, data: extracted.data, rawResponse };
+  if (extracted.repairs.length > 0) {
+    if (DEBUG) console.log('[Scout] Repaired agent output:', extracted.repairs);
+    response.meta = { repairs: extracted.repairs };
+    if (extracted.repairs.includes('salvaged_truncated')) {
+      response.meta.partial = true;
+    }
+  }
+  return response;
+}
+
+/**
+ * Parse the Scout API response to extract JSON data
+ * The API returns JSON embedded in the run.state.agent_message.output field
+ */
+function parseScoutResponse<T>(response: unknown): ExtractionResult<T> | null {
+  try {
+    if (typeof response === 'object' && response !== null) {
+      const resp = response as Record<string, unknown>;
+      
+      // Navigate to the output field in the Scout API response
+      // Structure: { run: { state: { agent_message: { output: "..." } } } }
+      let output: string | null = null;
+      
+      if (resp.run && typeof resp.run === 'object') {
+        const run = resp.run as Record<string, unknown>;
+        if (run.state && typeof run.state === 'object') {
+          const state = run.state as Record<string, unknown>;
+          if (state.agent_message && typeof state.agent_message === 'object') {
+            const agentMessage = state.agent_message as Record<string, unknown>;
+            if (typeof agentMessage.output === 'string') {
+              output = agentMessage.output;
+            }
+          }
+        }
+      }
+      
+      // Fallback: try other common response patterns
+      if (!output) {
+        if ('content' in resp && typeof resp.content === 'string') {
+          output = resp.content;
+        } else if ('message' in resp && typeof resp.message === 'string') {
+          output = resp.message;
+        } else if ('output' in resp && typeof resp.output === 'string') {
+          output = resp.output;
+        }
+      }
+      
+      if (output) {
+        return extractJson<T>(output);
+      }
+      
+      // If response itself looks like the data we want, return it
+      if ('contacts' in resp || 'id' in resp || 'contactCounts' in resp) {
+        return { data: resp as T, repairs: [] };
+      }
+    }
+    
+    return null;
+  } catch (error) {
+    console.error('Failed to parse Scout response:', error);
+    return null;
+  }
+}
+
+/**
+ * Options for a single workflow command
+ */
+export interface ExecuteCommandOptions {
+  /** Abort an attempt after this many milliseconds (default 60s) */
+  timeoutMs?: number;
+  /** Retry policy overrides, or false to send the command only once */
+  retry?: Partial<RetryPolicy> | false;
+  /**
+   * Whether repeating the command is harmless (default true).
+   * Non-idempotent commands (creates, logs) are only retried when the server
+   * definitely did not process them, i.e. on 429 rate limiting.
+   */
+  idempotent?: boolean;
+  /** Cancels the command, including any pending retry or wait for a slot */
+  signal?: AbortSignal;
+  /** Scheduling class used when requests are queued (default 'foreground') */
+  priority?: RequestPriority;
+  /** Workflow to run (defaults to the active workspace) */
+  workspace?: WorkspaceSettings;
+  /** Structured form of the command, sent alongside the message */
+  intent?: CommandIntent | BatchIntent;
+  /** Receives every HTTP exchange with the workflow, e.g. for the traffic inspector */
+  onExchange?: (exchange: WorkflowExchange) => void;
+}
+
+/**
+ * One HTTP round trip to the workflow, as seen by the client
+ */
+export interface WorkflowExchange {
+  url: string;
+  /** JSON body that was sent */
+  body: string;
+  stream: boolean;
+  /** 1 for the first attempt, higher for retries */
+  attempt: number;
+  /** HTTP status, when a response arrived */
+  status?: number;
+  durationMs: number;
+  /** Outcome of the exchange, including the raw Scout response */
+  response: ApiResponse<unknown>;
+}
+
+/**
+ * Build the JSON body of a workflow run, forwarding the intent and the
+ * workspace context if any
+ */
+function requestBody(
+  message: string,
+  stream: boolean,
+  workspace: WorkspaceSettings,
+  intent?: CommandIntent | BatchIntent
+): string {
+  const context = workspace.context ?? {};
+  return JSON.stringify({
+    inputs: { message, ...(intent ? { intent } : {}) },
+    stream,
+    ...(Object.keys(context).length > 0 ? { context } : {})
+  });
+}
+
+/**
+ * Outcome of one HTTP attempt, classified for the retry decision
+ */
+type AttemptResult<T> =
+  | { kind: 'completed'; response: ApiResponse<T>; status: number }
+  | { kind: 'http_error'; response: ApiResponse<T>; status: number; retryAfterMs: number | null }
+  | { kind: 'timeout'; response: ApiResponse<T> }
+  | { kind: 'network_error'; response: ApiResponse<T> }
+  | { kind: 'cancelled'; response: ApiResponse<T> };
+
+/**
+ * Classify a non-2xx response, with whatever details its body gives
+ */
+async function httpErrorResult<T>(response: Response): Promise<Extract<AttemptResult<T>, { kind: 'http_error' }>> {
+  // Try to get more details from the error response
+  let errorDetail = '';
+  try {
+    const errorBody = await response.json();
+    errorDetail = JSON.stringify(errorBody);
+    console.error('API Error Response:', errorBody);
+  } catch {
+    // Response might not be JSON
+    try {
+      errorDetail = await response.text();
+    } catch {
+      errorDetail = 'Could not read error response';
+    }
+  }
+  return {
+    kind: 'http_error',
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers?.get('Retry-After')),
+    response: {
+      success: false,
+      error: httpError(response.status, `API request failed: ${response.status} ${response.statusText}. ${errorDetail}`)
+    }
+  };
+}
+
+/**
+ * Send the command once, enforcing the timeout via AbortController.
+ * The caller's signal (if any) aborts the attempt as well.
+ */
+async function attemptCommand<T>(
+  apiKey: string,
+  message: string,
+  workspace: WorkspaceSettings,
+  timeoutMs: number,
+  signal?: AbortSignal,
+  intent?: CommandIntent | BatchIntent
+): Promise<AttemptResult<T>> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onCallerAbort = () => controller.abort();
+  signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+  try {
+    const response = await fetch(workflowEndpoint(workspace), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: requestBody(message, false, workspace, intent),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      return await httpErrorResult<T>(response);
+    }
+
+    let rawResponse;
+    try {
+      rawResponse = await response.json();
+    } catch (error) {
+      if (controller.signal.aborted) throw error;
+      return {
+        kind: 'completed',
+        status: response.status,
+        response: errorResponse(
+          'parse_error',
+          error instanceof Error ? error.message : 'Failed to read API response'
+        )
+      };
+    }
+
+
+    return { kind: 'completed', status: response.status, response: completeResponse<T>(rawResponse) };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { kind: 'cancelled', response: cancelledResponse() };
+    }
+    if (timedOut) {
+      return {
+        kind: 'timeout',
+        response: errorResponse('timeout', `Request timed out after ${Math.round(timeoutMs / 1000)}s`)
+      };
+    }
+    return {
+      kind: 'network_error',
+      response: errorResponse('network', error instanceof Error ? error.message : 'Unknown error occurred')
+    };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+/**
+ * Decide whether a failed attempt may be repeated
+ */
+function isRetryable(result: AttemptResult<unknown>, idempotent: boolean): boolean {
+  switch (result.kind) {
+    case 'completed':
+    case 'cancelled':
+      return false;
+    case 'http_error':
+      // A 429 means the run was never started, so even creates are safe to resend
+      return result.status === 429 || (idempotent && isRetryableStatus(result.status));
+    case 'timeout':
+    case 'network_error':
+      // The run may have completed server-side; only repeat if that is harmless
+      return idempotent;
+  }
+}
+
+/**
+ * Execute a command against the Scout API
+ * Each attempt waits for a slot from the request scheduler and is bounded by
+ * a timeout; transient failures are retried with exponential backoff
+ * (honouring Retry-After) according to the retry policy.
+ */
+export async function executeCommand<T>(
+  apiKey: string,
+  message: string,
+  options: ExecuteCommandOptions = {}
+): Promise<ApiResponse<T>> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    idempotent = true,
+    signal,
+    workspace = getWorkspace(),
+    intent,
+    onExchange,
+    priority
+  } = options;
+  const policy = resolveRetryPolicy(options.retry);
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      return cancelledResponse();
+    }
+
+    // Each attempt waits for its own slot, so backoff delays don't hold one
+    const release = requestScheduler.tryAcquire() ?? (await requestScheduler.acquire(priority, signal));
+    if (!release || signal?.aborted) {
+      release?.();
+      return cancelledResponse();
+    }
+
+    const startedAt = Date.now();
+    let result: AttemptResult<T>;
+    try {
+      result = await attemptCommand<T>(apiKey, message, workspace, timeoutMs, signal, intent);
+    } finally {
+      release();
+    }
+    onExchange?.({
+      url: workflowEndpoint(workspace),
+      body: requestBody(message, false, workspace, intent),
+      stream: false,
+      attempt,
+      status: result.kind === 'http_error' || result.kind === 'completed' ? result.status : undefined,
+      durationMs: Date.now() - startedAt,
+      response: result.response
+    });
+
+    if (attempt >= policy.maxAttempts || !isRetryable(result, idempotent)) {
+      return result.response;
+    }
+
+    const retryAfterMs = result.kind === 'http_error' ? result.retryAfterMs : null;
+    if (retryAfterMs !== null && retryAfterMs > policy.maxDelayMs) {
+      // Server asked us to back off longer than we are willing to wait
+      return result.response;
+    }
+
+    const delay = retryAfterMs ?? computeBackoffDelay(attempt, policy);
+    if (DEBUG) console.log(`[Scout] Attempt ${attempt} failed (${result.kind}), retrying in ${delay}ms`);
+    await sleep(delay, signal);
+  }
+}
+
+/**
+ * Options for a streamed command
+ */
+export interface StreamCommandOptions extends ExecuteCommandOptions {
+  /** Key of the array whose items are reported as they arrive (a bare top-level array always qualifies) */
+  arrayKey?: string;
+  /** Receives each complete array item as soon as it has streamed in */
+  onItem: (item: unknown) => void;
+}
+
+function isEventStream(response: Response): boolean {
+  return response.headers?.get('Content-Type')?.includes('text/event-stream') ?? false;
+}
+
+/**
+ * Execute a command with `stream: true`, reporting array items as they arrive.
+ *
+ * The stream holds one scheduler slot and is bounded by the timeout. If the
+ * server answers with a plain JSON body the run is handled as a regular
+ * response; if streaming fails before finishing, the command is re-sent
+ * through the non-streaming path (with its usual retries), so only use this
+ * for idempotent commands. An HTTP error counts as the first attempt: it is
+ * only repeated when the retry policy would repeat it.
+ */
+export async function streamCommand<T>(
+  apiKey: string,
+  message: string,
+  options: StreamCommandOptions
+): Promise<ApiResponse<T>> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    signal,
+    workspace = getWorkspace(),
+    intent,
+    onExchange,
+    priority,
+    arrayKey,
+    onItem,
+    ...fallbackOptions
+  } = options;
+
+  if (signal?.aborted) {
+    return cancelledResponse();
+  }
+  const release = requestScheduler.tryAcquire() ?? (await requestScheduler.acquire(priority, signal));
+  if (!release || signal?.aborted) {
+    release?.();
+    return cancelledResponse();
+  }
+
+  const fallback = (retry = fallbackOptions.retry) => {
+    if (DEBUG) console.log('[Scout] Streaming unavailable, falling back to a regular request');
+    // The regular request queues for a slot of its own
+    release();
+    return executeCommand<T>(apiKey, message, {
+      ...fallbackOptions,
+      retry,
+      timeoutMs,
+      signal,
+      workspace,
+      intent,
+      onExchange,
+      priority
+    });
+  };
+
+  const url = workflowEndpoint(workspace);
+  const body = requestBody(message, true, workspace, intent);
+  const startedAt = Date.now();
+  const report = (result: ApiResponse<T>, status?: number): ApiResponse<T> => {
+    onExchange?.({ url, body, stream: true, attempt: 1, status, durationMs: Date.now() - startedAt, response: result });
+    return result;
+  };
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onCallerAbort = () => controller.abort();
+  signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body,
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      // Handled like a failed attempt of a regular request: a rejected key is
+      // not sent again, and a retry waits for its backoff or Retry-After
+      const result = await httpErrorResult<T>(response);
+      report(result.response, result.status);
+      const policy = resolveRetryPolicy(fallbackOptions.retry);
+      if (
+        policy.maxAttempts <= 1 ||
+        !isRetryable(result, fallbackOptions.idempotent ?? true) ||
+        (result.retryAfterMs !== null && result.retryAfterMs > policy.maxDelayMs)
+      ) {
+        return result.response;
+      }
+      release();
+      await sleep(result.retryAfterMs ?? computeBackoffDelay(1, policy), signal);
+      return await fallback({ ...policy, maxAttempts: policy.maxAttempts - 1 });
+    }
+    if (!response.body) {
+      return await fallback();
+    }
+    if (!isEventStream(response)) {
+      // The server ignored the stream flag and sent the finished run
+      return report(completeResponse<T>(await response.json()), response.status);
+    }
+
+    const extractor = new JsonArrayItemExtractor(arrayKey);
+    let output = '';
+    let finishedRun: unknown = null;
+
+    await readEventStream(response.body, (data) => {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(data);
+      } catch {
+        // Keep-alives and end markers are not JSON
+        return;
+      }
+
+      if (typeof payload === 'object' && payload !== null && 'run' in payload) {
+        finishedRun = payload;
+        return;
+      }
+
+      const delta = textDelta(payload);
+      if (delta) {
+        output += delta;
+        extractor.push(delta).forEach(onItem);
+      }
+    });
+
+    if (finishedRun) {
+      return report(completeResponse<T>(finishedRun), response.status);
+    }
+
+    const extracted = output ? extractJson<T>(output) : null;
+    if (extracted === null) {
+      return report(
+        {
+          success: false,
+          error: createApiError('parse_error', 'Failed to parse streamed response'),
+          rawResponse: { output }
+        },
+        response.status
+      );
+    }
+    return report(extractedResponse(extracted, { output }), response.status);
+  } catch (error) {
+    if (signal?.aborted) {
+      return cancelledResponse();
+    }
+    if (timedOut) {
+      return report(errorResponse('timeout', `Request timed out after ${Math.round(timeoutMs / 1000)}s`));
+    }
+    if (DEBUG) console.log('[Scout] Stream interrupted:', error);
+    return fallback();
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onCallerAbort);
+    release();
+  }
+}
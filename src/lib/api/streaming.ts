@@ -0,0 +1,195 @@
+/**
+ * Streaming response helpers
+ *
+ * With `stream: true` the Scout API answers with server-sent events that
+ * carry the agent's output as it is generated. These helpers decode the
+ * event stream and pull complete JSON array items out of the partial output,
+ * so lists can render before the workflow run has finished.
+ */
+
+/**
+ * Incrementally extracts the items of one JSON array from partial text.
+ *
+ * The target array is either a bare top-level array or the value of
+ * `arrayKey` in an object. Text before the first `{` or `[` (such as a
+ * markdown fence) is skipped. Only object items are reported.
+ */
+export class JsonArrayItemExtractor {
+  private text = '';
+  private position = 0;
+  private started = false;
+  private finished = false;
+
+  /** Container types currently open */
+  private readonly stack: Array<'object' | 'array'> = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastString: string | null = null;
+  /** Key whose value is being read in the innermost object */
+  private currentKey: string | null = null;
+
+  /** Stack depth inside the target array, once it has been found */
+  private targetDepth: number | null = null;
+  private itemStart = -1;
+
+  constructor(private readonly arrayKey?: string) {}
+
+  /** Whether the target array has been closed */
+  get done(): boolean {
+    return this.finished;
+  }
+
+  /**
+   * Feed the next chunk of text
+   * @returns Items completed by this chunk, in order
+   */
+  push(chunk: string): unknown[] {
+    const items: unknown[] = [];
+    this.text += chunk;
+    if (this.finished) return items;
+
+    for (; this.position < this.text.length; this.position++) {
+      const i = this.position;
+      const char = this.text[i];
+
+      if (!this.started) {
+        if (char !== '{' && char !== '[') continue;
+        this.started = true;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.lastString = this.text.slice(this.stringStart + 1, i);
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = i;
+          break;
+        case ':':
+          this.currentKey = this.lastString;
+          break;
+        case ',':
+          this.currentKey = null;
+          break;
+        case '{':
+          if (this.targetDepth !== null && this.stack.length === this.targetDepth && this.itemStart < 0) {
+            this.itemStart = i;
+          }
+          this.stack.push('object');
+          this.currentKey = null;
+          break;
+        case '[':
+          if (this.targetDepth === null && this.isTargetArray()) {
+            this.targetDepth = this.stack.length + 1;
+          }
+          this.stack.push('array');
+          break;
+        case '}':
+          this.stack.pop();
+          if (this.itemStart >= 0 && this.stack.length === this.targetDepth) {
+            const item = parseItem(this.text.slice(this.itemStart, i + 1));
+            if (item !== undefined) items.push(item);
+            this.itemStart = -1;
+          }
+          break;
+        case ']':
+          this.stack.pop();
+          if (this.targetDepth !== null && this.stack.length === this.targetDepth - 1) {
+            this.finished = true;
+            this.position = i + 1;
+            return items;
+          }
+          break;
+      }
+    }
+
+    return items;
+  }
+
+  private isTargetArray(): boolean {
+    if (this.stack.length === 0) return true;
+    return (
+      this.arrayKey !== undefined &&
+      this.stack[this.stack.length - 1] === 'object' &&
+      this.currentKey === this.arrayKey
+    );
+  }
+}
+
+function parseItem(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read a server-sent event stream, calling `onData` with the data of each event.
+ * Multi-line data fields are joined with newlines; comments and other fields are ignored.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    const data = block
+      .split(/\r?\n/)
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).replace(/^ /, ''));
+    if (data.length > 0) {
+      onData(data.join('\n'));
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary >= 0) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) dispatch(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Extract the incremental output text from a stream event payload.
+ * Scout emits deltas as `delta`, `content` or `text`, either at the top
+ * level or nested under `data`.
+ */
+export function textDelta(payload: unknown): string | null {
+  if (typeof payload !== 'object' || payload === null) {
+    return null;
+  }
+  const record = payload as Record<string, unknown>;
+  for (const key of ['delta', 'content', 'text']) {
+    if (typeof record[key] === 'string') {
+      return record[key] as string;
+    }
+  }
+  return record.data !== undefined ? textDelta(record.data) : null;
+}
@@ -0,0 +1,402 @@
+/**
+ * Runtime validation of parsed Scout responses
+ *
+ * The workflow's JSON comes from an LLM, so nothing about its shape is
+ * guaranteed. These validators coerce values that are safely coercible
+ * (whitespace, letter case, numeric strings, epoch timestamps) and reject
+ * anything else with field-level issues, so malformed records never reach
+ * the UI.
+ */
+
+import type {
+  ApiResponse,
+  Activity,
+  ActivityType,
+  Contact,
+  ContactDeletion,
+  ContactStatusUpdate,
+  ContactWithActivities,
+  ContactPage,
+  DashboardData,
+  ValidationIssue
+} from '../types';
+import { stageIds } from './pipeline';
+import { getPipeline } from './workspace';
+import { createApiError } from './errors';
+
+/**
+ * Outcome of validating a value.
+ * Collections may succeed with issues when invalid items were dropped.
+ */
+export type ValidationResult<T> =
+  | { ok: true; value: T; issues: ValidationIssue[] }
+  | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * A validator receives raw data and the path used to prefix issue locations
+ */
+export type Validator<T> = (input: unknown, path?: string) => ValidationResult<T>;
+
+export const ACTIVITY_TYPES: readonly ActivityType[] = ['call', 'email', 'meeting', 'note'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+/**
+ * Collects issues while reading fields from a raw record
+ */
+class FieldReader {
+  readonly issues: ValidationIssue[] = [];
+
+  constructor(
+    private readonly record: Record<string, unknown>,
+    private readonly path: string
+  ) {}
+
+  private at(field: string): string {
+    return this.path ? `${this.path}.${field}` : field;
+  }
+
+  fail(field: string, message: string): void {
+    this.issues.push({ path: this.at(field), message });
+  }
+
+  /** Optional string: trimmed; numbers are stringified; empty/null become undefined */
+  optionalString(field: string): string | undefined {
+    const value = this.record[field];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    if (typeof value !== 'string') {
+      this.fail(field, `expected a string, got ${describe(value)}`);
+      return undefined;
+    }
+    const trimmed = value.trim();
+    return trimmed === '' ? undefined : trimmed;
+  }
+
+  /** Optional boolean; "true"/"false" strings are accepted */
+  optionalBoolean(field: string): boolean | undefined {
+    const value = this.record[field];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    this.fail(field, `expected a boolean, got ${describe(value)}`);
+    return undefined;
+  }
+
+  /** Required non-empty string */
+  string(field: string): string {
+    const before = this.issues.length;
+    const value = this.optionalString(field);
+    if (value === undefined && this.issues.length === before) {
+      this.fail(field, 'is required');
+    }
+    return value ?? '';
+  }
+
+  /** Required value from a fixed set, matched case-insensitively */
+  oneOf<T extends string>(field: string, allowed: readonly T[]): T {
+    const value = this.string(field);
+    if (!value) return '' as T;
+    const match = allowed.find((option) => option === value.toLowerCase());
+    if (!match) {
+      this.fail(field, `must be one of ${allowed.join(', ')} (got "${value}")`);
+      return '' as T;
+    }
+    return match;
+  }
+
+  /** Required non-negative integer; numeric strings are accepted */
+  count(field: string): number {
+    const value = this.record[field];
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isInteger(number) || number < 0) {
+      this.fail(field, value === undefined ? 'is required' : `expected a non-negative integer, got ${describe(value)}`);
+      return 0;
+    }
+    return number;
+  }
+
+  /** Required timestamp, returned as an ISO-8601 string; epoch milliseconds are accepted */
+  timestamp(field: string): string {
+    const value = this.record[field];
+    if (value === undefined || value === null || value === '') {
+      this.fail(field, 'is required');
+      return '';
+    }
+    const date =
+      typeof value === 'number' ? new Date(value) : typeof value === 'string' ? new Date(value.trim()) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      this.fail(field, `expected a date, got ${describe(value)}`);
+      return '';
+    }
+    return typeof value === 'string' ? value.trim() : date.toISOString();
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value}"`;
+  return typeof value;
+}
+
+/**
+ * Whether a value is a plain JSON object
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function notAnObject<T>(input: unknown, path: string): ValidationResult<T> {
+  return { ok: false, issues: [{ path: path || '(root)', message: `expected an object, got ${describe(input)}` }] };
+}
+
+/**
+ * Copy only the defined entries of an object (keeps optional fields absent)
+ */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+/**
+ * Status of a contact: a stage ID in any case, or else the status as it is.
+ * A status no stage claims (e.g. of a removed stage) is kept, so the contact
+ * stays listed and can be moved to a stage.
+ */
+function contactStatus(value: string): string {
+  return stageIds(getPipeline()).find((id) => id === value.toLowerCase()) ?? value;
+}
+
+/**
+ * Validate a contact record
+ */
+export const validateContact: Validator<Contact> = (input, path = '') => {
+  if (!isRecord(input)) return notAnObject(input, path);
+
+  const read = new FieldReader(input, path);
+  const contact = compact<Contact>({
+    id: read.string('id'),
+    name: read.string('name'),
+    email: read.string('email'),
+    phone: read.optionalString('phone'),
+    company: read.optionalString('company'),
+    status: contactStatus(read.string('status')),
+    lossReason: read.optionalString('lossReason'),
+    // Not archived is the same as absent
+    archived: read.optionalBoolean('archived') || undefined,
+  });
+
+  if (contact.email && !EMAIL_PATTERN.test(contact.email)) {
+    read.fail('email', `is not a valid email address (got "${contact.email}")`);
+  }
+
+  return read.issues.length > 0 ? { ok: false, issues: read.issues } : { ok: true, value: contact, issues: [] };
+};
+
+/**
+ * Validate an activity record.
+ * A missing contactId is filled from `contactId` when the activity is nested under a known contact.
+ */
+export function validateActivity(input: unknown, path = '', contactId?: string): ValidationResult<Activity> {
+  if (!isRecord(input)) return notAnObject(input, path);
+
+  const record = contactId && input.contactId == null ? { ...input, contactId } : input;
+  const read = new FieldReader(record, path);
+  const activity = compact<Activity>({
+    id: read.string('id'),
+    contactId: read.string('contactId'),
+    type: read.oneOf('type', ACTIVITY_TYPES),
+    description: read.string('description'),
+    outcome: read.optionalString('outcome'),
+    timestamp: read.timestamp('timestamp'),
+  });
+
+  return read.issues.length > 0 ? { ok: false, issues: read.issues } : { ok: true, value: activity, issues: [] };
+}
+
+/**
+ * Validate a list, dropping invalid items and reporting why
+ */
+export function validateList<T>(
+  input: unknown,
+  validateItem: Validator<T>,
+  path = ''
+): ValidationResult<T[]> {
+  if (!Array.isArray(input)) {
+    return { ok: false, issues: [{ path: path || '(root)', message: `expected an array, got ${describe(input)}` }] };
+  }
+
+  const items: T[] = [];
+  const issues: ValidationIssue[] = [];
+  input.forEach((item, index) => {
+    const result = validateItem(item, `${path}[${index}]`);
+    if (result.ok) {
+      items.push(result.value);
+    }
+    issues.push(...result.issues);
+  });
+
+  return { ok: true, value: items, issues };
+}
+
+/**
+ * Validate a list of contacts (invalid contacts are dropped)
+ */
+export const validateContactList: Validator<Contact[]> = (input, path = '') =>
+  validateList(input, validateContact, path);
+
+/**
+ * Validate a page of contacts (invalid contacts are dropped)
+ */
+export const validateContactPage: Validator<ContactPage> = (input, path = '') => {
+  if (!isRecord(input)) return notAnObject(input, path);
+
+  const contacts = validateContactList(input.contacts, path ? `${path}.contacts` : 'contacts');
+  if (!contacts.ok) return contacts;
+
+  const read = new FieldReader(input, path);
+  const offset = read.count('offset');
+  const nextOffset = input.nextOffset === null || input.nextOffset === undefined ? null : read.count('nextOffset');
+  const total = input.total === undefined ? undefined : read.count('total');
+  if (read.issues.length > 0) {
+    return { ok: false, issues: read.issues };
+  }
+
+  return {
+    ok: true,
+    value: compact({ contacts: contacts.value, offset, nextOffset, total }),
+    issues: contacts.issues,
+  };
+};
+
+/**
+ * Validate a contact with its activities.
+ * The contact itself must be valid; invalid activities are dropped.
+ */
+export const validateContactWithActivities: Validator<ContactWithActivities> = (input, path = '') => {
+  const contact = validateContact(input, path);
+  if (!contact.ok) return contact;
+
+  const raw = (input as Record<string, unknown>).activities;
+  const activitiesPath = path ? `${path}.activities` : 'activities';
+  const activities = validateList(
+    raw ?? [],
+    (item, itemPath) => validateActivity(item, itemPath, contact.value.id),
+    activitiesPath
+  );
+  if (!activities.ok) return activities;
+
+  return {
+    ok: true,
+    value: { ...contact.value, activities: activities.value },
+    issues: activities.issues,
+  };
+};
+
+/**
+ * Validate dashboard data.
+ * Counts are read for the stages of the active pipeline; a missing stage counts as 0.
+ * A missing total is derived from the per-status counts; invalid recent activities are dropped.
+ */
+export const validateDashboardData: Validator<DashboardData> = (input, path = '') => {
+  if (!isRecord(input)) return notAnObject(input, path);
+
+  const read = new FieldReader(input, path);
+  const countsPath = path ? `${path}.contactCounts` : 'contactCounts';
+  const rawCounts = input.contactCounts;
+  if (!isRecord(rawCounts)) {
+    return notAnObject(rawCounts, countsPath);
+  }
+
+  const countReader = new FieldReader(rawCounts, countsPath);
+  const contactCounts: DashboardData['contactCounts'] = { total: 0 };
+  let sum = 0;
+  for (const status of stageIds(getPipeline())) {
+    // Agents tend to leave out stages nobody is in, and older workflows do not know newer stages
+    contactCounts[status] = rawCounts[status] === undefined ? 0 : countReader.count(status);
+    sum += contactCounts[status];
+  }
+  contactCounts.total = rawCounts.total === undefined ? sum : countReader.count('total');
+
+  const activityCount = read.count('activityCount');
+  const recent = validateList(
+    input.recentActivities ?? [],
+    (item, itemPath) => validateActivity(item, itemPath),
+    path ? `${path}.recentActivities` : 'recentActivities'
+  );
+
+  const issues = [...countReader.issues, ...read.issues];
+  if (issues.length > 0 || !recent.ok) {
+    return { ok: false, issues: [...issues, ...recent.issues] };
+  }
+
+  return {
+    ok: true,
+    value: { contactCounts, activityCount, recentActivities: recent.value },
+    issues: recent.issues,
+  };
+};
+
+/**
+ * Validate the partial contact returned by a status update
+ */
+export const validateStatusUpdate: Validator<ContactStatusUpdate> = (input, path = '') => {
+  if (!isRecord(input)) return notAnObject(input, path);
+
+  const read = new FieldReader(input, path);
+  const value = compact<ContactStatusUpdate>({
+    id: read.string('id'),
+    status: read.oneOf('status', stageIds(getPipeline())),
+    lossReason: read.optionalString('lossReason'),
+  });
+  return read.issues.length > 0 ? { ok: false, issues: read.issues } : { ok: true, value, issues: [] };
+};
+
+/**
+ * Validate the result of deleting a contact
+ */
+export const validateContactDeletion: Validator<ContactDeletion> = (input, path = '') => {
+  if (!isRecord(input)) return notAnObject(input, path);
+
+  const read = new FieldReader(input, path);
+  const value = { id: read.string('id'), activitiesDeleted: read.count('activitiesDeleted') };
+  return read.issues.length > 0 ? { ok: false, issues: read.issues } : { ok: true, value, issues: [] };
+};
+
+/**
+ * Apply a validator to a successful response.
+ * Invalid data turns the response into a failure carrying the field-level issues;
+ * dropped collection items are reported on an otherwise successful response.
+ */
+export function applyValidation<T>(response: ApiResponse<unknown>, validate: Validator<T>): ApiResponse<T> {
+  if (!response.success) {
+    return response as ApiResponse<T>;
+  }
+
+  const result = validate(response.data);
+  if (!result.ok) {
+    console.warn('[Validation] Rejected response:', result.issues);
+    return {
+      success: false,
+      error: createApiError(
+        'validation_error',
+        `Response failed validation: ${result.issues.map((i) => `${i.path} ${i.message}`).join('; ')}`
+      ),
+      validationErrors: result.issues,
+      ...(response.meta ? { meta: response.meta } : {}),
+      rawResponse: response.rawResponse,
+    };
+  }
+
+  const validated: ApiResponse<T> = {
+    success: true,
+    data: result.value,
+    ...(response.meta ? { meta: response.meta } : {}),
+    rawResponse: response.rawResponse,
+  };
+  if (result.issues.length > 0) {
+    console.warn('[Validation] Dropped invalid records:', result.issues);
+    validated.validationErrors = result.issues;
+  }
+  return validated;
+}
@@ -0,0 +1,122 @@
+/**
+ * Workspace configuration
+ *
+ * A workspace identifies which Scout workflow the app talks to: the API
+ * base URL, the workflow ID and optional context forwarded with every run.
+ * Teams point the same build at their own workflow (or a staging copy) by
+ * changing these settings instead of rebuilding. A workspace can also
+ * define its own pipeline stages.
+ */
+
+import type { PipelineDefinition, WorkspaceSettings } from '../types';
+import { DEFAULT_PIPELINE, isSamePipeline, normalizePipeline, validatePipeline } from './pipeline';
+
+const PRODUCTION_BASE_URL = 'https://api-prod.scoutos.com';
+const PRODUCTION_WORKFLOW_ID = 'wf_cmj94h2ij00010hs6hqatcw6x';
+
+/**
+ * Defaults, overridable at build time (e.g. to point E2E runs at the local mock server)
+ */
+export const DEFAULT_WORKSPACE: WorkspaceSettings = {
+  baseUrl: import.meta.env?.VITE_SCOUT_BASE_URL || PRODUCTION_BASE_URL,
+  workflowId: import.meta.env?.VITE_SCOUT_WORKFLOW_ID || PRODUCTION_WORKFLOW_ID,
+  context: {},
+};
+
+let activeWorkspace: WorkspaceSettings = DEFAULT_WORKSPACE;
+
+/**
+ * Get the workspace used by workflow commands
+ */
+export function getWorkspace(): WorkspaceSettings {
+  return activeWorkspace;
+}
+
+/**
+ * Pipeline of the active workspace
+ */
+export function getPipeline(): PipelineDefinition {
+  return activeWorkspace.pipeline ?? DEFAULT_PIPELINE;
+}
+
+/**
+ * Set the workspace used by workflow commands
+ */
+export function setWorkspace(settings: WorkspaceSettings): void {
+  activeWorkspace = normalizeWorkspace(settings);
+}
+
+/**
+ * Trim values, drop a trailing slash from the base URL and remove empty context entries.
+ * A pipeline that is the same as the default one is left out.
+ */
+export function normalizeWorkspace(settings: WorkspaceSettings): WorkspaceSettings {
+  const context: WorkspaceSettings['context'] = {};
+  const userId = settings.context?.user_id?.trim();
+  const sessionId = settings.context?.session_id?.trim();
+  if (userId) context.user_id = userId;
+  if (sessionId) context.session_id = sessionId;
+
+  const normalized: WorkspaceSettings = {
+    baseUrl: settings.baseUrl.trim().replace(/\/+$/, ''),
+    workflowId: settings.workflowId.trim(),
+    context,
+  };
+  const pipeline = settings.pipeline && normalizePipeline(settings.pipeline);
+  if (pipeline && pipeline.stages.length > 0 && !isSamePipeline(pipeline, DEFAULT_PIPELINE)) {
+    normalized.pipeline = pipeline;
+  }
+  return normalized;
+}
+
+/**
+ * Check settings before they are saved
+ * @returns Error message per invalid field (empty when valid)
+ */
+export function validateWorkspace(
+  settings: WorkspaceSettings
+): Partial<Record<'baseUrl' | 'workflowId' | 'pipeline', string>> {
+  const errors: Partial<Record<'baseUrl' | 'workflowId' | 'pipeline', string>> = {};
+
+  const baseUrl = settings.baseUrl.trim();
+  if (!baseUrl) {
+    errors.baseUrl = 'Base URL is required';
+  } else {
+    try {
+      const url = new URL(baseUrl);
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        errors.baseUrl = 'Base URL must start with http:// or https://';
+      }
+    } catch {
+      errors.baseUrl = 'Base URL is not a valid URL';
+    }
+  }
+
+  const workflowId = settings.workflowId.trim();
+  if (!workflowId) {
+    errors.workflowId = 'Workflow ID is required';
+  } else if (!/^[\w-]+$/.test(workflowId)) {
+    errors.workflowId = 'Workflow ID may only contain letters, numbers, _ and -';
+  }
+
+  const pipelineError = settings.pipeline && validatePipeline(settings.pipeline);
+  if (pipelineError) {
+    errors.pipeline = pipelineError;
+  }
+
+  return errors;
+}
+
+/**
+ * Whether two workspaces address the same workflow with the same context
+ */
+export function isSameWorkspace(a: WorkspaceSettings, b: WorkspaceSettings): boolean {
+  return JSON.stringify(normalizeWorkspace(a)) === JSON.stringify(normalizeWorkspace(b));
+}
+
+/**
+ * Execute URL of the workspace's workflow
+ */
+export function workflowEndpoint(settings: WorkspaceSettings = activeWorkspace): string {
+  return `${settings.baseUrl}/v2/workflows/${encodeURIComponent(settings.workflowId)}/execute`;
+}
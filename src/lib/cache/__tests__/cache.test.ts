@@ -576,6 +576,110 @@ describe('RequestDeduplicator', () => {
       expect(deduplicator.getPendingCount()).toBe(0);
     });
   });
+
+  describe('cancellation', () => {
+    /** Fetcher that only settles when aborted or resolved manually */
+    function controllableFetcher() {
+      let resolveFn: (value: string) => void = () => {};
+      let receivedSignal: AbortSignal | undefined;
+      const fetcher = vi.fn((signal: AbortSignal) => {
+        receivedSignal = signal;
+        return new Promise<string>((resolve) => {
+          resolveFn = resolve;
+        });
+      });
+      return {
+        fetcher,
+        resolve: (value: string) => resolveFn(value),
+        signal: () => receivedSignal,
+      };
+    }
+
+    it('rejects with AbortError when the caller aborts', async () => {
+      const { fetcher, signal } = controllableFetcher();
+      const controller = new AbortController();
+
+      const promise = deduplicator.dedupe('key', fetcher, controller.signal);
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+      expect(signal()?.aborted).toBe(true);
+      expect(deduplicator.isPending('key')).toBe(false);
+    });
+
+    it('rejects immediately if the signal is already aborted', async () => {
+      const fetcher = vi.fn().mockResolvedValue('data');
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(deduplicator.dedupe('key', fetcher, controller.signal)).rejects.toMatchObject({
+        name: 'AbortError',
+      });
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+
+    it('keeps a shared request alive until every caller has aborted', async () => {
+      const { fetcher, signal } = controllableFetcher();
+      const first = new AbortController();
+      const second = new AbortController();
+
+      const promise1 = deduplicator.dedupe('key', fetcher, first.signal);
+      const promise2 = deduplicator.dedupe('key', fetcher, second.signal);
+      expect(deduplicator.getSubscriberCount('key')).toBe(2);
+
+      first.abort();
+      await expect(promise1).rejects.toMatchObject({ name: 'AbortError' });
+      expect(signal()?.aborted).toBe(false);
+      expect(deduplicator.getSubscriberCount('key')).toBe(1);
+
+      second.abort();
+      await expect(promise2).rejects.toMatchObject({ name: 'AbortError' });
+      expect(signal()?.aborted).toBe(true);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('delivers the result to remaining callers after one aborts', async () => {
+      const { fetcher, resolve } = controllableFetcher();
+      const dropped = new AbortController();
+      const kept = new AbortController();
+
+      const droppedPromise = deduplicator.dedupe('key', fetcher, dropped.signal);
+      const keptPromise = deduplicator.dedupe('key', fetcher, kept.signal);
+
+      dropped.abort();
+      resolve('data');
+
+      await expect(droppedPromise).rejects.toMatchObject({ name: 'AbortError' });
+      await expect(keptPromise).resolves.toBe('data');
+    });
+
+    it('never aborts a request that has a caller without a signal', async () => {
+      const { fetcher, resolve, signal } = controllableFetcher();
+      const controller = new AbortController();
+
+      const unsignalled = deduplicator.dedupe('key', fetcher);
+      const signalled = deduplicator.dedupe('key', fetcher, controller.signal);
+
+      controller.abort();
+      await expect(signalled).rejects.toMatchObject({ name: 'AbortError' });
+      expect(signal()?.aborted).toBe(false);
+
+      resolve('data');
+      await expect(unsignalled).resolves.toBe('data');
+    });
+
+    it('starts a fresh request after the previous one was aborted', async () => {
+      const { fetcher } = controllableFetcher();
+      const controller = new AbortController();
+
+      const aborted = deduplicator.dedupe('key', fetcher, controller.signal);
+      controller.abort();
+      await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+
+      deduplicator.dedupe('key', fetcher);
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+  });
 });
 
 describe('cachedFetch', () => {
@@ -832,5 +936,60 @@ describe('cachedFetch', () => {
       clearAllCaches();
       vi.useRealTimers();
     });
+
+    it('does not cache results for an aborted caller', async () => {
+      const { cachedFetch, clearAllCaches, getCacheStatus } = await import('../index');
+
+      Object.defineProperty(globalThis, 'localStorage', {
+        value: localStorageMock,
+        writable: true,
+        configurable: true,
+      });
+      localStorageMock.store = {};
+      clearAllCaches();
+
+      const controller = new AbortController();
+      const fetcher = vi.fn(
+        (signal: AbortSignal) =>
+          new Promise<string>((resolve) => {
+            signal.addEventListener('abort', () => resolve('partial'));
+          })
+      );
+      const config = { memoryTtl: 60000, storageTtl: 300000 };
+
+      const promise = cachedFetch('slow', fetcher, config, { signal: controller.signal });
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+      expect(getCacheStatus('slow')).toMatchObject({ inMemory: false, inStorage: false, isPending: false });
+
+      clearAllCaches();
+    });
+
+    it('does not cache data that shouldCache rejects', async () => {
+      const { cachedFetch, clearAllCaches, getCacheStatus } = await import('../index');
+
+      Object.defineProperty(globalThis, 'localStorage', {
+        value: localStorageMock,
+        writable: true,
+        configurable: true,
+      });
+      localStorageMock.store = {};
+      clearAllCaches();
+
+      const fetcher = vi.fn().mockResolvedValue({ success: false });
+      const config = { memoryTtl: 60000, storageTtl: 300000 };
+      const shouldCache = (data: { success: boolean }) => data.success;
+
+      const result1 = await cachedFetch('failing', fetcher, config, { shouldCache });
+      expect(result1.source).toBe('network');
+      expect(getCacheStatus('failing')).toMatchObject({ inMemory: false, inStorage: false });
+
+      const result2 = await cachedFetch('failing', fetcher, config, { shouldCache });
+      expect(result2.source).toBe('network');
+      expect(fetcher).toHaveBeenCalledTimes(2);
+
+      clearAllCaches();
+    });
   });
 });
@@ -5,12 +5,43 @@
  * receive the same result.
  */
 
+/**
+ * Create the error used to reject cancelled requests
+ * (mirrors what fetch throws when its signal is aborted)
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * Checks whether an error came from an aborted request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Book-keeping for one shared in-flight request
+ */
+interface PendingRequest {
+  /** The shared promise all callers wait on */
+  promise: Promise<unknown>;
+  /** Aborts the underlying fetch once nobody is waiting any more */
+  controller: AbortController;
+  /** Number of callers still interested in the result */
+  subscribers: number;
+}
+
 /**
  * Manages deduplication of in-flight requests.
  * Multiple callers requesting the same key will share a single Promise.
+ *
+ * Callers may pass an AbortSignal to drop out. The shared request is
+ * reference-counted and only aborted once every caller has dropped it;
+ * callers without a signal keep it alive until it settles.
  */
 export class RequestDeduplicator {
-  private pending: Map<string, Promise<unknown>> = new Map();
+  private pending: Map<string, PendingRequest> = new Map();
 
   /**
    * Executes a fetch operation with deduplication.
@@ -18,8 +49,11 @@ export class RequestDeduplicator {
    * Otherwise, executes the fetcher and stores the Promise until it settles.
    *
    * @param key - Unique identifier for this request (e.g., 'contacts', 'contact:123')
-   * @param fetcher - Function that returns a Promise with the data
-   * @returns Promise that resolves to the fetched data
+   * @param fetcher - Function that returns a Promise with the data; receives a signal
+   *   that is aborted when all callers have cancelled
+   * @param signal - Optional signal to cancel this caller's interest in the request
+   * @returns Promise that resolves to the fetched data, or rejects with an
+   *   AbortError when this caller's signal is aborted
    *
    * @example
    * // First call starts the fetch
@@ -28,28 +62,97 @@ export class RequestDeduplicator {
    * const result2 = deduplicator.dedupe('contacts', () => fetchContacts());
    * // result1 === result2 (same Promise instance)
    */
-  dedupe<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
-    // Check if there's already a pending request for this key
-    const existingRequest = this.pending.get(key);
-    if (existingRequest) {
-      return existingRequest as Promise<T>;
+  dedupe<T>(
+    key: string,
+    fetcher: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
     }
 
-    // Execute the fetcher and store the promise
-    const request = fetcher()
-      .then((result) => {
-        // Clean up on success
-        this.pending.delete(key);
-        return result;
-      })
-      .catch((error) => {
-        // Clean up on failure
-        this.pending.delete(key);
-        throw error;
-      });
-
-    this.pending.set(key, request);
-    return request;
+    // Reuse the pending request for this key, or start a new one
+    let entry = this.pending.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: PendingRequest = {
+        controller,
+        subscribers: 0,
+        promise: Promise.resolve(),
+      };
+      // Only clean up if this entry is still the current one for the key
+      const cleanup = () => {
+        if (this.pending.get(key) === created) {
+          this.pending.delete(key);
+        }
+      };
+      created.promise = fetcher(controller.signal)
+        .then((result) => {
+          // Clean up on success
+          cleanup();
+          return result;
+        })
+        .catch((error) => {
+          // Clean up on failure
+          cleanup();
+          throw error;
+        });
+      this.pending.set(key, created);
+      entry = created;
+    }
+
+    entry.subscribers += 1;
+    const shared = entry.promise as Promise<T>;
+
+    if (!signal) {
+      return shared;
+    }
+
+    const current = entry;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.release(key, current);
+        reject(createAbortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      shared.then(
+        (result) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Drops one caller's interest in a request, aborting it when none remain
+   */
+  private release(key: string, entry: PendingRequest): void {
+    entry.subscribers -= 1;
+    if (entry.subscribers > 0) {
+      return;
+    }
+
+    entry.controller.abort();
+    // Let the next caller start a fresh request instead of joining an aborted one
+    if (this.pending.get(key) === entry) {
+      this.pending.delete(key);
+    }
+  }
+
+  /**
+   * Gets the number of callers currently waiting on a request.
+   *
+   * @param key - The request key to check
+   * @returns Subscriber count (0 if nothing is pending)
+   */
+  getSubscriberCount(key: string): number {
+    return this.pending.get(key)?.subscribers ?? 0;
   }
 
   /**
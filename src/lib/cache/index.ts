@@ -12,6 +12,7 @@ import { StorageCache } from './storageCache';
 import { RequestDeduplicator } from './deduplication';
 import type { CacheConfig, CachedFetchOptions } from './types';
 import { DEFAULT_TTL, CACHE_KEYS } from './types';
+import { metrics } from '../metrics';
 
 // Only log in development mode
 const DEBUG = typeof import.meta !== 'undefined' && import.meta.env?.DEV;
@@ -23,7 +24,7 @@ export type { CacheConfig, CachedFetchOptions, CacheLookupResult, CacheEntry } f
 // Export individual cache classes for direct use if needed
 export { MemoryCache } from './memoryCache';
 export { StorageCache } from './storageCache';
-export { RequestDeduplicator, requestDeduplicator } from './deduplication';
+export { RequestDeduplicator, requestDeduplicator, createAbortError, isAbortError } from './deduplication';
 
 // Singleton instances for the application
 const memoryCache = new MemoryCache();
@@ -89,6 +90,42 @@ export function invalidateCachePattern(pattern: string): void {
   if (DEBUG) console.log(`[Cache] Invalidated pattern: ${pattern}`);
 }
 
+/**
+ * Stores data fetched outside cachedFetch (e.g. as part of a batch) in both
+ * cache tiers, as if cachedFetch had just fetched it from the network
+ * @param key - Cache key for this data
+ * @param data - The fresh data
+ * @param config - Cache TTL configuration
+ */
+export function primeCache<T>(key: string, data: T, config: CacheConfig): void {
+  memoryCache.set(key, data, config.memoryTtl);
+  storageCache.set(key, data, config.storageTtl);
+  lastFetchTimestamps.set(key, Date.now());
+  if (DEBUG) console.log(`[Cache] Primed: ${key}`);
+}
+
+/**
+ * Rewrites cached data in place (e.g. after a mutation whose result is known),
+ * keeping its fetch timestamp. Keys that are not cached are left alone.
+ * @param key - Cache key for this data
+ * @param update - Returns the new data given the cached data
+ * @param config - Cache TTL configuration
+ * @returns Whether a cached entry was updated
+ */
+export function updateCache<T>(key: string, update: (data: T) => T, config: CacheConfig): boolean {
+  const cached = memoryCache.get<T>(key);
+  const entry = cached.hit && cached.data !== undefined ? cached : storageCache.get<T>(key);
+  if (!entry.hit || entry.data === undefined) {
+    return false;
+  }
+
+  const data = update(entry.data);
+  memoryCache.set(key, data, config.memoryTtl);
+  storageCache.set(key, data, config.storageTtl);
+  if (DEBUG) console.log(`[Cache] Updated: ${key}`);
+  return true;
+}
+
 /**
  * Fetches data with the hybrid caching strategy.
  * 
@@ -98,19 +135,23 @@ export function invalidateCachePattern(pattern: string): void {
  * 3. Check localStorage cache (fast)
  * 4. Fetch from network (slow, 30+ seconds)
  * 
+ * If options.signal is aborted the returned promise rejects with an
+ * AbortError and nothing is written to the caches.
+ * 
  * @param key - Cache key for this data
- * @param fetcher - Async function that fetches the data
+ * @param fetcher - Async function that fetches the data; receives an AbortSignal
+ *   that fires once every caller sharing the request has cancelled
  * @param config - Cache TTL configuration
- * @param options - Additional options (forceRefresh, etc.)
+ * @param options - Additional options (forceRefresh, signal, shouldCache, etc.)
  * @returns The cached or fetched data
  */
 export async function cachedFetch<T>(
   key: string,
-  fetcher: () => Promise<T>,
+  fetcher: (signal: AbortSignal) => Promise<T>,
   config: CacheConfig,
-  options: CachedFetchOptions = {}
+  options: CachedFetchOptions<T> = {}
 ): Promise<{ data: T; source: 'memory' | 'storage' | 'network'; timestamp: number }> {
-  const { forceRefresh = false } = options;
+  const { forceRefresh = false, signal, shouldCache } = options;
 
   // If not forcing refresh, check caches first
   if (!forceRefresh) {
@@ -118,6 +159,7 @@ export async function cachedFetch<T>(
     const memoryResult = memoryCache.get<T>(key);
     if (memoryResult.hit && memoryResult.data !== undefined) {
       if (DEBUG) console.log(`[Cache] Memory hit: ${key}`);
+      metrics.recordCacheLookup(key, 'memory');
       return {
         data: memoryResult.data,
         source: 'memory',
@@ -129,6 +171,7 @@ export async function cachedFetch<T>(
     const storageResult = storageCache.get<T>(key);
     if (storageResult.hit && storageResult.data !== undefined) {
       if (DEBUG) console.log(`[Cache] Storage hit: ${key}`);
+      metrics.recordCacheLookup(key, 'storage');
       // Promote to memory cache for faster subsequent access
       memoryCache.set(key, storageResult.data, config.memoryTtl);
       return {
@@ -137,6 +180,8 @@ export async function cachedFetch<T>(
         timestamp: storageResult.timestamp!,
       };
     }
+
+    metrics.recordCacheLookup(key, 'network');
   } else {
     if (DEBUG) console.log(`[Cache] Force refresh: ${key}`);
   }
@@ -144,13 +189,17 @@ export async function cachedFetch<T>(
   // Cache miss - fetch from network with deduplication
   if (DEBUG) console.log(`[Cache] Network fetch: ${key}`);
   
-  const data = await deduplicator.dedupe(key, fetcher);
+  const data = await deduplicator.dedupe(key, fetcher, signal);
   const timestamp = Date.now();
 
-  // Store in both caches
-  memoryCache.set(key, data, config.memoryTtl);
-  storageCache.set(key, data, config.storageTtl);
-  lastFetchTimestamps.set(key, timestamp);
+  // Store in both caches, unless the data must not be served again (e.g. a failure)
+  if (shouldCache && !shouldCache(data)) {
+    if (DEBUG) console.log(`[Cache] Not cached: ${key}`);
+  } else {
+    memoryCache.set(key, data, config.memoryTtl);
+    storageCache.set(key, data, config.storageTtl);
+    lastFetchTimestamps.set(key, timestamp);
+  }
 
   return {
     data,
@@ -52,6 +52,11 @@ export const DEFAULT_TTL = {
     memoryTtl: 1 * 60 * 1000,
     storageTtl: 10 * 60 * 1000,
   },
+  /** Contact search results: 1 min memory, 5 min storage */
+  search: {
+    memoryTtl: 1 * 60 * 1000,
+    storageTtl: 5 * 60 * 1000,
+  },
 } as const;
 
 /**
@@ -59,6 +64,12 @@ export const DEFAULT_TTL = {
  */
 export const CACHE_KEYS = {
   CONTACTS_LIST: 'contacts',
+  CONTACTS_PAGE: (offset: number, limit: number) => `contacts:page:${offset}:${limit}`,
+  /** Matches every cached page of the contact list */
+  CONTACTS_PAGE_PATTERN: 'contacts:page:*',
+  CONTACT_SEARCH: (query: string) => `contacts:search:${query}`,
+  /** Matches every cached contact search */
+  CONTACT_SEARCH_PATTERN: 'contacts:search:*',
   DASHBOARD: 'dashboard',
   CONTACT_DETAIL: (id: string) => `contact:${id}`,
 } as const;
@@ -82,13 +93,17 @@ export interface CacheLookupResult<T> {
 /**
  * Options for cachedFetch function
  */
-export interface CachedFetchOptions {
+export interface CachedFetchOptions<T = unknown> {
   /** Force bypass cache and fetch from network */
   forceRefresh?: boolean;
   /** Use stale-while-revalidate pattern */
   staleWhileRevalidate?: boolean;
   /** Custom cache config override */
   config?: Partial<CacheConfig>;
+  /** Cancel this caller's interest; the network request is aborted once no caller remains */
+  signal?: AbortSignal;
+  /** Whether fetched data may be cached, e.g. only successful responses (default: always) */
+  shouldCache?: (data: T) => boolean;
 }
 
 /**
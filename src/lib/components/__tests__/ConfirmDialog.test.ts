@@ -0,0 +1,37 @@
+import { render, screen, fireEvent } from '@testing-library/svelte';
+import { describe, it, expect, vi } from 'vitest';
+import ConfirmDialog from '../ConfirmDialog.svelte';
+
+describe('ConfirmDialog', () => {
+	const props = {
+		title: 'Delete contact',
+		message: 'Delete Ann Lee?',
+		confirmLabel: 'Delete',
+		onconfirm: vi.fn(),
+		oncancel: vi.fn()
+	};
+
+	it('shows the title and message', () => {
+		render(ConfirmDialog, { props });
+
+		expect(screen.getByRole('heading', { name: 'Delete contact' })).toBeInTheDocument();
+		expect(screen.getByText('Delete Ann Lee?')).toBeInTheDocument();
+	});
+
+	it('calls onconfirm when confirmed', async () => {
+		const onconfirm = vi.fn();
+		render(ConfirmDialog, { props: { ...props, onconfirm } });
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+		expect(onconfirm).toHaveBeenCalledTimes(1);
+	});
+
+	it('calls oncancel when cancelled or dismissed with Escape', async () => {
+		const oncancel = vi.fn();
+		render(ConfirmDialog, { props: { ...props, oncancel } });
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+		await fireEvent.keyDown(document, { key: 'Escape' });
+		expect(oncancel).toHaveBeenCalledTimes(2);
+	});
+});
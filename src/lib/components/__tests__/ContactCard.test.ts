@@ -61,4 +61,16 @@ describe('ContactCard', () => {
     await fireEvent.click(button);
     expect(handleClick).toHaveBeenCalledTimes(1);
   });
+
+  it('marks search terms in the name and company', () => {
+    const { container } = render(ContactCard, { props: { contact: mockContact, highlight: ['doe', 'acme'] } });
+    const marks = [...container.querySelectorAll('mark')].map((mark) => mark.textContent);
+    expect(marks).toEqual(['Doe', 'Acme']);
+    expect(screen.getByRole('heading').textContent).toBe('John Doe');
+  });
+
+  it('marks nothing without search terms', () => {
+    const { container } = render(ContactCard, { props: { contact: mockContact } });
+    expect(container.querySelector('mark')).toBeNull();
+  });
 });
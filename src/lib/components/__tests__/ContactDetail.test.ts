@@ -1,6 +1,7 @@
 import { render, screen, fireEvent } from '@testing-library/svelte';
 import { describe, it, expect, vi } from 'vitest';
 import ContactDetail from '../ContactDetail.svelte';
+import { DEFAULT_STATUS_TRANSITIONS } from '$lib/stores/pipeline';
 import type { Contact, Activity } from '$lib/types';
 
 const mockContact: Contact = {
@@ -56,7 +57,16 @@ describe('ContactDetail', () => {
 		render(ContactDetail, {
 			props: { contact: mockContact, activities: mockActivities, loading: false }
 		});
-		expect(screen.getByText('lead')).toBeInTheDocument();
+		expect(screen.getByText('Lead')).toHaveClass('badge-gray');
+	});
+
+	it('shows a lost badge and the loss reason', () => {
+		const lost: Contact = { ...mockContact, status: 'lost', lossReason: 'Went with a competitor' };
+		render(ContactDetail, {
+			props: { contact: lost, activities: mockActivities, loading: false }
+		});
+		expect(screen.getByText('Lost')).toHaveClass('badge-outline');
+		expect(screen.getByText('Went with a competitor')).toBeInTheDocument();
 	});
 
 	it('renders all 4 action buttons (Call, Email, Meeting, Note)', () => {
@@ -139,6 +149,65 @@ describe('ContactDetail', () => {
 		expect(onClose).toHaveBeenCalled();
 	});
 
+	it('calls onEdit when the edit button is clicked', async () => {
+		const onEdit = vi.fn();
+		render(ContactDetail, {
+			props: {
+				contact: mockContact,
+				activities: mockActivities,
+				loading: false,
+				onEdit
+			}
+		});
+		await fireEvent.click(screen.getByRole('button', { name: /Edit/i }));
+		expect(onEdit).toHaveBeenCalled();
+	});
+
+	it('archives an active contact and restores an archived one', async () => {
+		const onArchive = vi.fn();
+		const { rerender } = render(ContactDetail, {
+			props: { contact: mockContact, activities: mockActivities, loading: false, onArchive }
+		});
+		await fireEvent.click(screen.getByRole('button', { name: /Archive/i }));
+		expect(onArchive).toHaveBeenLastCalledWith(true);
+
+		await rerender({ contact: { ...mockContact, archived: true }, activities: mockActivities, loading: false, onArchive });
+		await fireEvent.click(screen.getByRole('button', { name: /Restore/i }));
+		expect(onArchive).toHaveBeenLastCalledWith(false);
+	});
+
+	it('calls onDelete when the delete button is clicked', async () => {
+		const onDelete = vi.fn();
+		render(ContactDetail, {
+			props: { contact: mockContact, activities: mockActivities, loading: false, onDelete }
+		});
+		await fireEvent.click(screen.getByRole('button', { name: /Delete/i }));
+		expect(onDelete).toHaveBeenCalled();
+	});
+
+	it('offers status moves when it can change the status', async () => {
+		const onStatusChange = vi.fn();
+		render(ContactDetail, {
+			props: {
+				contact: mockContact,
+				activities: mockActivities,
+				loading: false,
+				transitions: DEFAULT_STATUS_TRANSITIONS,
+				onStatusChange
+			}
+		});
+		await fireEvent.click(screen.getByRole('button', { name: 'Prospect' }));
+		await fireEvent.click(screen.getByRole('button', { name: 'Move to Prospect' }));
+		expect(onStatusChange).toHaveBeenCalledWith({ status: 'prospect', reason: undefined, logNote: true });
+	});
+
+	it('shows the status read-only without a status change handler', () => {
+		render(ContactDetail, {
+			props: { contact: mockContact, activities: mockActivities, loading: false }
+		});
+		expect(screen.queryByText('Move to:')).not.toBeInTheDocument();
+	});
+
 	it('renders activity timeline', () => {
 		render(ContactDetail, {
 			props: { contact: mockContact, activities: mockActivities, loading: false }
@@ -157,6 +226,22 @@ describe('ContactDetail', () => {
 		expect(screen.getByRole('button', { name: /Back/i })).toBeInTheDocument();
 	});
 
+	it('renders streamed activities while more are loading', () => {
+		const { container } = render(ContactDetail, {
+			props: { contact: mockContact, activities: mockActivities.slice(0, 1), loading: true }
+		});
+		expect(screen.getByText('John Doe')).toBeInTheDocument();
+		expect(screen.getByText(mockActivities[0].description)).toBeInTheDocument();
+		expect(container.querySelectorAll('.skeleton').length).toBeGreaterThan(0);
+	});
+
+	it('renders skeletons when loading before any activity arrived', () => {
+		render(ContactDetail, {
+			props: { contact: mockContact, activities: [], loading: true }
+		});
+		expect(screen.queryByText('John Doe')).not.toBeInTheDocument();
+	});
+
 	it('does not render phone when not provided', () => {
 		const contactWithoutPhone: Contact = {
 			...mockContact,
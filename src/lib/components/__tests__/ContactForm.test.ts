@@ -1,6 +1,8 @@
 import { render, screen, fireEvent } from '@testing-library/svelte';
 import { describe, it, expect, vi } from 'vitest';
 import ContactForm from '../ContactForm.svelte';
+import { DEFAULT_WORKSPACE } from '$lib/api/workspace';
+import { workspace } from '$lib/stores/workspace';
 
 describe('ContactForm', () => {
 	const defaultProps = {
@@ -133,4 +135,129 @@ describe('ContactForm', () => {
 			status: 'lead'
 		});
 	});
+
+	describe('edit mode', () => {
+		const contact = {
+			id: 'c1',
+			name: 'Ann Lee',
+			email: 'ann@acme.com',
+			phone: '555-0100',
+			company: 'Acme',
+			status: 'lead' as const
+		};
+
+		it('is pre-filled from the contact', () => {
+			render(ContactForm, { props: { contact, onsave: vi.fn(), oncancel: vi.fn() } });
+
+			expect(screen.getByRole('heading', { name: 'Edit Contact' })).toBeInTheDocument();
+			expect(screen.getByLabelText(/name/i)).toHaveValue('Ann Lee');
+			expect(screen.getByLabelText(/email/i)).toHaveValue('ann@acme.com');
+			expect(screen.getByLabelText(/phone/i)).toHaveValue('555-0100');
+			expect(screen.getByLabelText(/company/i)).toHaveValue('Acme');
+			expect(screen.getByLabelText(/status/i)).toHaveValue('lead');
+		});
+
+		it('cannot be saved until something changes', async () => {
+			render(ContactForm, { props: { contact, onsave: vi.fn(), oncancel: vi.fn() } });
+
+			const saveButton = screen.getByRole('button', { name: /save changes/i });
+			expect(saveButton).toBeDisabled();
+
+			await fireEvent.input(screen.getByLabelText(/name/i), { target: { value: 'Ann Smith' } });
+			expect(saveButton).not.toBeDisabled();
+		});
+
+		it('sends only the changed fields', async () => {
+			const onsave = vi.fn();
+			render(ContactForm, { props: { contact, onsave, oncancel: vi.fn() } });
+
+			await fireEvent.input(screen.getByLabelText(/email/i), { target: { value: 'ann@lee.dev' } });
+			await fireEvent.change(screen.getByLabelText(/status/i), { target: { value: 'customer' } });
+			await fireEvent.submit(document.querySelector('form')!);
+
+			expect(onsave).toHaveBeenCalledWith({ email: 'ann@lee.dev', status: 'customer' });
+		});
+
+		it('sends an emptied optional field as a blank to clear it', async () => {
+			const onsave = vi.fn();
+			render(ContactForm, { props: { contact, onsave, oncancel: vi.fn() } });
+
+			await fireEvent.input(screen.getByLabelText(/company/i), { target: { value: '  ' } });
+			await fireEvent.submit(document.querySelector('form')!);
+
+			expect(onsave).toHaveBeenCalledWith({ company: '' });
+		});
+
+		it('asks for a loss reason when the contact is marked lost', async () => {
+			const onsave = vi.fn();
+			render(ContactForm, { props: { contact, onsave, oncancel: vi.fn() } });
+
+			expect(screen.queryByLabelText(/loss reason/i)).not.toBeInTheDocument();
+			await fireEvent.change(screen.getByLabelText(/status/i), { target: { value: 'lost' } });
+			await fireEvent.input(screen.getByLabelText(/loss reason/i), { target: { value: 'Chose a competitor' } });
+			await fireEvent.submit(document.querySelector('form')!);
+
+			expect(onsave).toHaveBeenCalledWith({ status: 'lost', lossReason: 'Chose a competitor' });
+		});
+
+		it('edits the loss reason of a lost contact', async () => {
+			const onsave = vi.fn();
+			const lost = { ...contact, status: 'lost' as const, lossReason: 'Budget' };
+			render(ContactForm, { props: { contact: lost, onsave, oncancel: vi.fn() } });
+
+			expect(screen.getByLabelText(/loss reason/i)).toHaveValue('Budget');
+			await fireEvent.input(screen.getByLabelText(/loss reason/i), { target: { value: '' } });
+			await fireEvent.submit(document.querySelector('form')!);
+
+			expect(onsave).toHaveBeenCalledWith({ lossReason: '' });
+		});
+
+		it('does not offer moves the transition rules block', () => {
+			render(ContactForm, {
+				props: { contact: { ...contact, status: 'lost' }, onsave: vi.fn(), oncancel: vi.fn() }
+			});
+
+			expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual(['Lost', 'Lead', 'Prospect']);
+		});
+
+		it('asks for confirmation before moving a customer back to lead', async () => {
+			const onsave = vi.fn();
+			render(ContactForm, { props: { contact: { ...contact, status: 'customer' }, onsave, oncancel: vi.fn() } });
+
+			await fireEvent.change(screen.getByLabelText(/status/i), { target: { value: 'lead' } });
+
+			expect(screen.getByRole('alert')).toHaveTextContent('Moving a customer back to lead needs confirmation.');
+			expect(screen.getByRole('button', { name: /save changes/i })).toBeDisabled();
+
+			await fireEvent.click(screen.getByLabelText(/confirm the move to lead/i));
+			await fireEvent.submit(document.querySelector('form')!);
+
+			expect(onsave).toHaveBeenCalledWith({ status: 'lead' });
+		});
+
+		it('offers the stages of the workspace pipeline', async () => {
+			workspace.set({
+				...DEFAULT_WORKSPACE,
+				pipeline: {
+					stages: [
+						{ id: 'mql', label: 'MQL', color: 'blue' },
+						{ id: 'churned', label: 'Churned', color: 'red', terminal: 'lost' }
+					]
+				}
+			});
+			try {
+				const onsave = vi.fn();
+				render(ContactForm, { props: { contact: { ...contact, status: 'mql' }, onsave, oncancel: vi.fn() } });
+
+				expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual(['MQL', 'Churned']);
+				await fireEvent.change(screen.getByLabelText(/status/i), { target: { value: 'churned' } });
+				await fireEvent.input(screen.getByLabelText(/loss reason/i), { target: { value: 'No budget' } });
+				await fireEvent.submit(document.querySelector('form')!);
+
+				expect(onsave).toHaveBeenCalledWith({ status: 'churned', lossReason: 'No budget' });
+			} finally {
+				workspace.set(DEFAULT_WORKSPACE);
+			}
+		});
+	});
 });
@@ -1,5 +1,5 @@
 import { render, screen, fireEvent } from '@testing-library/svelte';
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import ContactList from '../ContactList.svelte';
 import type { Contact } from '$lib/types';
 
@@ -68,6 +68,27 @@ describe('ContactList', () => {
     expect(screen.getByText('No contacts yet')).toBeInTheDocument();
   });
 
+  it('hides archived contacts unless asked to show them', () => {
+    const contacts = [mockContacts[0], { ...mockContacts[1], archived: true }];
+    const { rerender } = render(ContactList, { props: { contacts } });
+
+    expect(screen.getByText('John Doe')).toBeInTheDocument();
+    expect(screen.queryByText('Jane Smith')).not.toBeInTheDocument();
+
+    rerender({ contacts, showArchived: true });
+    expect(screen.getByText('Jane Smith')).toBeInTheDocument();
+    expect(screen.getByText('Archived')).toBeInTheDocument();
+  });
+
+  it('lists only contacts with the chosen status', () => {
+    const contacts = [...mockContacts, { id: 'contact-4', name: 'Liz Lost', email: 'liz@example.com', status: 'lost' as const }];
+    render(ContactList, { props: { contacts, status: 'lost' } });
+
+    expect(screen.getByText('Liz Lost')).toBeInTheDocument();
+    expect(screen.queryByText('John Doe')).not.toBeInTheDocument();
+    expect(screen.queryByText('Bob Wilson')).not.toBeInTheDocument();
+  });
+
   it('highlights the selected contact', () => {
     render(ContactList, { props: { contacts: mockContacts, selectedId: 'contact-2' } });
     
@@ -88,4 +109,89 @@ describe('ContactList', () => {
     expect(contact1Button.className).toContain('border-gray-200');
     expect(contact3Button.className).toContain('border-gray-200');
   });
+
+  it('keeps streamed contacts visible while more are loading', () => {
+    const { container } = render(ContactList, { props: { contacts: mockContacts.slice(0, 1), loading: true } });
+
+    expect(screen.getByText('John Doe')).toBeInTheDocument();
+    expect(container.querySelectorAll('.skeleton').length).toBeGreaterThan(0);
+  });
+
+  describe('more pages', () => {
+    // jsdom has no IntersectionObserver; this stand-in reports its targets on demand
+    const observed: Element[] = [];
+    let report: ((entries: Partial<IntersectionObserverEntry>[]) => void) | null = null;
+
+    class FakeIntersectionObserver {
+      constructor(callback: (entries: Partial<IntersectionObserverEntry>[]) => void) {
+        report = callback;
+      }
+      observe(target: Element) {
+        observed.push(target);
+      }
+      disconnect() {
+        observed.length = 0;
+      }
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      observed.length = 0;
+      report = null;
+    });
+
+    it('offers to load more when there are more pages', async () => {
+      const onloadmore = vi.fn();
+      render(ContactList, { props: { contacts: mockContacts, hasMore: true, onloadmore } });
+
+      await fireEvent.click(screen.getByRole('button', { name: 'Load more' }));
+
+      expect(onloadmore).toHaveBeenCalledTimes(1);
+    });
+
+    it('shows a placeholder instead while the next page loads', () => {
+      const { container } = render(ContactList, { props: { contacts: mockContacts, hasMore: true, loadingMore: true } });
+
+      expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument();
+      expect(container.querySelectorAll('.skeleton').length).toBeGreaterThan(0);
+    });
+
+    it('has nothing to load after the last page', () => {
+      render(ContactList, { props: { contacts: mockContacts } });
+
+      expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument();
+    });
+
+    it('loads the next page when the end of the list scrolls into view', () => {
+      vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+      const onloadmore = vi.fn();
+      render(ContactList, { props: { contacts: mockContacts, hasMore: true, onloadmore } });
+
+      expect(observed).toEqual([screen.getByRole('button', { name: 'Load more' })]);
+      report?.([{ isIntersecting: false }]);
+      expect(onloadmore).not.toHaveBeenCalled();
+      report?.([{ isIntersecting: true }]);
+      expect(onloadmore).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps loading when no loaded contact has the chosen status', () => {
+      vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+      const onloadmore = vi.fn();
+      render(ContactList, {
+        props: { contacts: mockContacts, status: 'lost', emptyText: 'No lost contacts', hasMore: true, onloadmore },
+      });
+
+      expect(screen.getByText('No lost contacts')).toBeInTheDocument();
+      expect(observed).toEqual([screen.getByRole('button', { name: 'Load more' })]);
+      report?.([{ isIntersecting: true }]);
+      expect(onloadmore).toHaveBeenCalledTimes(1);
+    });
+
+    it('only loads on click when autoload is off', () => {
+      vi.stubGlobal('IntersectionObserver', FakeIntersectionObserver);
+      render(ContactList, { props: { contacts: mockContacts, hasMore: true, autoload: false } });
+
+      expect(observed).toEqual([]);
+    });
+  });
 });
@@ -1,10 +1,12 @@
 import { render, screen } from '@testing-library/svelte';
-import { describe, it, expect } from 'vitest';
+import { afterEach, describe, it, expect } from 'vitest';
 import Dashboard from '../Dashboard.svelte';
 import type { DashboardData } from '$lib/types';
+import { DEFAULT_WORKSPACE } from '$lib/api/workspace';
+import { workspace } from '$lib/stores/workspace';
 
 const mockDashboardData: DashboardData = {
-	contactCounts: { lead: 5, prospect: 3, customer: 2, total: 10 },
+	contactCounts: { lead: 5, prospect: 3, customer: 2, lost: 1, total: 11 },
 	activityCount: 25,
 	recentActivities: [
 		{
@@ -18,6 +20,10 @@ const mockDashboardData: DashboardData = {
 };
 
 describe('Dashboard', () => {
+	afterEach(() => {
+		workspace.set(DEFAULT_WORKSPACE);
+	});
+
 	it('renders loading state when loading=true', () => {
 		const { container } = render(Dashboard, { props: { data: null, loading: true } });
 		// Should render skeleton elements instead of text
@@ -33,10 +39,10 @@ describe('Dashboard', () => {
 
 	it('shows total contacts count', () => {
 		render(Dashboard, { props: { data: mockDashboardData, loading: false } });
-		expect(screen.getByText('10')).toBeInTheDocument();
+		expect(screen.getByText('11')).toBeInTheDocument();
 	});
 
-	it('shows status breakdown (lead, prospect, customer counts)', () => {
+	it('shows status breakdown (lead, prospect, customer, lost counts)', () => {
 		render(Dashboard, { props: { data: mockDashboardData, loading: false } });
 		expect(screen.getByText('Lead')).toBeInTheDocument();
 		expect(screen.getByText('5')).toBeInTheDocument();
@@ -44,6 +50,24 @@ describe('Dashboard', () => {
 		expect(screen.getByText('3')).toBeInTheDocument();
 		expect(screen.getByText('Customer')).toBeInTheDocument();
 		expect(screen.getByText('2')).toBeInTheDocument();
+		expect(screen.getByText('Lost')).toBeInTheDocument();
+		expect(screen.getByText('1')).toBeInTheDocument();
+	});
+
+	it('reports wins against losses', () => {
+		render(Dashboard, { props: { data: mockDashboardData, loading: false } });
+		expect(screen.getByText('Win Rate')).toBeInTheDocument();
+		expect(screen.getByText('67%')).toBeInTheDocument();
+		expect(screen.getByText('2 won · 1 lost')).toBeInTheDocument();
+	});
+
+	it('shows no win rate before any deal is closed', () => {
+		const openData: DashboardData = {
+			...mockDashboardData,
+			contactCounts: { lead: 5, prospect: 3, customer: 0, lost: 0, total: 8 }
+		};
+		render(Dashboard, { props: { data: openData, loading: false } });
+		expect(screen.getByText('—')).toBeInTheDocument();
 	});
 
 	it('shows activities count', () => {
@@ -62,6 +86,41 @@ describe('Dashboard', () => {
 		expect(screen.getByText('Select a contact to view details')).toBeInTheDocument();
 	});
 
+	it('counts the stages of the workspace pipeline', () => {
+		workspace.set({
+			...DEFAULT_WORKSPACE,
+			pipeline: {
+				stages: [
+					{ id: 'mql', label: 'MQL', color: 'blue' },
+					{ id: 'sql', label: 'SQL', color: 'purple' },
+					{ id: 'trial', label: 'Trial', color: 'amber' },
+					{ id: 'customer', label: 'Customer', color: 'green', terminal: 'won' },
+					{ id: 'churned', label: 'Churned', color: 'red', terminal: 'lost' }
+				]
+			}
+		});
+		const data: DashboardData = {
+			...mockDashboardData,
+			contactCounts: { mql: 4, sql: 6, trial: 7, customer: 3, churned: 1, total: 21 }
+		};
+		render(Dashboard, { props: { data, loading: false } });
+		expect(screen.getByText('MQL')).toHaveClass('badge-blue');
+		expect(screen.getByText('Trial')).toBeInTheDocument();
+		expect(screen.getByText('Churned')).toHaveClass('badge-red');
+		expect(screen.queryByText('Lead')).not.toBeInTheDocument();
+		expect(screen.getByText('75%')).toBeInTheDocument();
+		expect(screen.getByText('3 won · 1 lost')).toBeInTheDocument();
+	});
+
+	it('leaves out the win rate when no stage is won or lost', () => {
+		workspace.set({
+			...DEFAULT_WORKSPACE,
+			pipeline: { stages: [{ id: 'open', label: 'Open', color: 'gray' }] }
+		});
+		render(Dashboard, { props: { data: mockDashboardData, loading: false } });
+		expect(screen.queryByText('Win Rate')).not.toBeInTheDocument();
+	});
+
 	it('handles null data gracefully', () => {
 		render(Dashboard, { props: { data: null, loading: false } });
 		expect(screen.getByText('No dashboard data available')).toBeInTheDocument();
@@ -0,0 +1,68 @@
+import { render, screen, fireEvent, within } from '@testing-library/svelte';
+import { describe, it, expect, vi } from 'vitest';
+import DiagnosticsPanel from '../DiagnosticsPanel.svelte';
+import { MetricsCollector } from '$lib/metrics';
+import { createApiError } from '$lib/api/errors';
+
+function snapshotWithData() {
+	const collector = new MetricsCollector();
+	collector.recordCommand('listContacts', 1200, { success: true });
+	collector.recordCommand('listContacts', 2400, { success: false, error: createApiError('timeout') });
+	collector.recordCommand('listContacts', 10, { success: true, meta: { repairs: ['removed_trailing_commas'] } });
+	collector.recordCacheLookup('contacts', 'memory');
+	collector.recordCacheLookup('contacts', 'network');
+	collector.recordCacheLookup('dashboard', 'storage');
+	return collector.snapshot();
+}
+
+describe('DiagnosticsPanel', () => {
+	it('shows latency, failures and repairs per operation', () => {
+		render(DiagnosticsPanel, { props: { snapshot: snapshotWithData(), onreset: vi.fn(), onclose: vi.fn() } });
+
+		const row = within(screen.getByRole('table', { name: 'Workflow commands' })).getByText('listContacts').closest('tr')!;
+		const cells = [...row.querySelectorAll('td')].map((cell) => cell.textContent);
+		expect(cells).toEqual(['listContacts', '3', '1200 ms', '2400 ms', '2400 ms', 'timeout ×1', '1']);
+	});
+
+	it('shows cache hit ratios per kind of data and overall', () => {
+		render(DiagnosticsPanel, { props: { snapshot: snapshotWithData(), onreset: vi.fn(), onclose: vi.fn() } });
+
+		const table = screen.getByRole('table', { name: 'Cache lookups' });
+		expect(within(table).getByText('contacts').closest('tr')?.lastElementChild?.textContent).toBe('50%');
+		expect(within(table).getByText('dashboard').closest('tr')?.lastElementChild?.textContent).toBe('100%');
+		expect(within(table).getByText('All').closest('tr')?.lastElementChild?.textContent).toBe('67%');
+	});
+
+	it('says when nothing was recorded yet', () => {
+		render(DiagnosticsPanel, {
+			props: { snapshot: new MetricsCollector().snapshot(), onreset: vi.fn(), onclose: vi.fn() }
+		});
+
+		expect(screen.getByText('No commands sent yet.')).toBeInTheDocument();
+		expect(screen.getByText('No cache lookups yet.')).toBeInTheDocument();
+	});
+
+	it('copies the snapshot as JSON', async () => {
+		const snapshot = snapshotWithData();
+		const writeText = vi.fn().mockResolvedValue(undefined);
+		Object.assign(navigator, { clipboard: { writeText } });
+		render(DiagnosticsPanel, { props: { snapshot, onreset: vi.fn(), onclose: vi.fn() } });
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Copy JSON' }));
+
+		expect(JSON.parse(writeText.mock.calls[0][0])).toEqual(snapshot);
+		expect(await screen.findByRole('button', { name: 'Copied' })).toBeInTheDocument();
+	});
+
+	it('resets and closes through its callbacks', async () => {
+		const onreset = vi.fn();
+		const onclose = vi.fn();
+		render(DiagnosticsPanel, { props: { snapshot: snapshotWithData(), onreset, onclose } });
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Reset' }));
+		await fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+
+		expect(onreset).toHaveBeenCalledTimes(1);
+		expect(onclose).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,83 @@
+import { render, screen, fireEvent } from '@testing-library/svelte';
+import { describe, it, expect, vi } from 'vitest';
+import InspectorPanel from '../InspectorPanel.svelte';
+import type { TrafficEntry } from '$lib/api/inspector';
+import { createApiError } from '$lib/api/errors';
+
+const exchange = {
+	url: 'https://api.scout.test/v2/workflows/wf_1/execute',
+	body: JSON.stringify({ inputs: { message: 'Get contact details for c1' }, stream: false }),
+	stream: false,
+	attempt: 1,
+	status: 200,
+	durationMs: 40,
+	response: { success: true, data: {}, rawResponse: { run: { id: 'run_42' } } }
+};
+
+const entries: TrafficEntry[] = [
+	{
+		id: 2,
+		operation: 'getContactDetails',
+		args: { contactId: 'c1' },
+		startedAt: 0,
+		durationMs: 42,
+		source: 'network',
+		exchanges: [exchange],
+		result: { success: true, data: { id: 'c1', name: 'Ann' } }
+	},
+	{
+		id: 1,
+		operation: 'listContacts',
+		startedAt: 0,
+		durationMs: 3,
+		exchanges: [],
+		result: { success: false, error: createApiError('network', 'Network error') }
+	}
+];
+
+function renderPanel() {
+	render(InspectorPanel, { props: { entries, onclear: vi.fn(), onclose: vi.fn() } });
+}
+
+describe('InspectorPanel', () => {
+	it('lists recorded calls', () => {
+		renderPanel();
+
+		expect(screen.getByText('getContactDetails')).toBeInTheDocument();
+		expect(screen.getByText('listContacts')).toBeInTheDocument();
+	});
+
+	it('filters by text and by errors', async () => {
+		renderPanel();
+
+		await fireEvent.input(screen.getByLabelText('Filter'), { target: { value: 'c1' } });
+		expect(screen.queryByText('listContacts')).not.toBeInTheDocument();
+
+		await fireEvent.input(screen.getByLabelText('Filter'), { target: { value: '' } });
+		await fireEvent.click(screen.getByLabelText('Errors only'));
+		expect(screen.queryByText('getContactDetails')).not.toBeInTheDocument();
+		expect(screen.getByText('listContacts')).toBeInTheDocument();
+	});
+
+	it('shows the prompt, latency and raw response of a selected call', async () => {
+		renderPanel();
+
+		await fireEvent.click(screen.getByText('getContactDetails'));
+
+		expect(screen.getByText('Get contact details for c1')).toBeInTheDocument();
+		expect(screen.getByText('42 ms')).toBeInTheDocument();
+		expect(screen.getByText(/run_42/)).toBeInTheDocument();
+	});
+
+	it('copies an exchange as cURL', async () => {
+		const writeText = vi.fn().mockResolvedValue(undefined);
+		Object.assign(navigator, { clipboard: { writeText } });
+		renderPanel();
+
+		await fireEvent.click(screen.getByText('getContactDetails'));
+		await fireEvent.click(screen.getByRole('button', { name: 'Copy as cURL' }));
+
+		expect(writeText).toHaveBeenCalledWith(expect.stringContaining('curl -X POST'));
+		expect(await screen.findByRole('button', { name: 'Copied' })).toBeInTheDocument();
+	});
+});
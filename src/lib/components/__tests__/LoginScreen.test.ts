@@ -64,4 +64,13 @@ describe('LoginScreen', () => {
 			apiKey: 'testapikey123'
 		});
 	});
+
+	it('opens workspace settings when the link is clicked', async () => {
+		const onsettings = vi.fn();
+		render(LoginScreen, { props: { onsettings } });
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Workspace settings' }));
+
+		expect(onsettings).toHaveBeenCalledOnce();
+	});
 });
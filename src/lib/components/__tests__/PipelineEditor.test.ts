@@ -0,0 +1,74 @@
+import { render, screen, fireEvent } from '@testing-library/svelte';
+import { describe, it, expect, vi } from 'vitest';
+import PipelineEditor from '../PipelineEditor.svelte';
+import { DEFAULT_PIPELINE } from '$lib/api/pipeline';
+import type { PipelineStage } from '$lib/types';
+
+const stages: PipelineStage[] = [
+	{ id: 'mql', label: 'MQL', color: 'blue', aliases: ['lead'] },
+	{ id: 'customer', label: 'Customer', color: 'green', terminal: 'won' }
+];
+
+describe('PipelineEditor', () => {
+	it('shows every stage in order', () => {
+		render(PipelineEditor, { props: { stages, onchange: vi.fn() } });
+
+		expect(screen.getByLabelText('Stage 1 name')).toHaveValue('MQL');
+		expect(screen.getByLabelText('Stage 1 replaces')).toHaveValue('lead');
+		expect(screen.getByLabelText('Stage 2 outcome')).toHaveValue('won');
+	});
+
+	it('renames a stage', async () => {
+		const onchange = vi.fn();
+		render(PipelineEditor, { props: { stages, onchange } });
+
+		await fireEvent.input(screen.getByLabelText('Stage 1 name'), { target: { value: 'Marketing qualified' } });
+
+		expect(onchange).toHaveBeenCalledWith([{ ...stages[0], label: 'Marketing qualified' }, stages[1]]);
+	});
+
+	it('sets the statuses a stage replaces', async () => {
+		const onchange = vi.fn();
+		render(PipelineEditor, { props: { stages, onchange } });
+
+		await fireEvent.change(screen.getByLabelText('Stage 2 replaces'), { target: { value: 'customer, client, ' } });
+
+		expect(onchange).toHaveBeenCalledWith([stages[0], { ...stages[1], aliases: ['customer', 'client'] }]);
+	});
+
+	it('marks a stage as lost and back to open', async () => {
+		const onchange = vi.fn();
+		render(PipelineEditor, { props: { stages, onchange } });
+
+		await fireEvent.change(screen.getByLabelText('Stage 1 outcome'), { target: { value: 'lost' } });
+		expect(onchange).toHaveBeenLastCalledWith([{ ...stages[0], terminal: 'lost' }, stages[1]]);
+
+		await fireEvent.change(screen.getByLabelText('Stage 2 outcome'), { target: { value: '' } });
+		expect(onchange).toHaveBeenLastCalledWith([stages[0], { id: 'customer', label: 'Customer', color: 'green' }]);
+	});
+
+	it('reorders, removes and adds stages', async () => {
+		const onchange = vi.fn();
+		render(PipelineEditor, { props: { stages, onchange } });
+
+		expect(screen.getByRole('button', { name: 'Move stage 1 up' })).toBeDisabled();
+		await fireEvent.click(screen.getByRole('button', { name: 'Move stage 1 down' }));
+		expect(onchange).toHaveBeenLastCalledWith([stages[1], stages[0]]);
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Remove stage 2' }));
+		expect(onchange).toHaveBeenLastCalledWith([stages[0]]);
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Add stage' }));
+		expect(onchange).toHaveBeenLastCalledWith([...stages, { id: '', label: '', color: 'gray' }]);
+	});
+
+	it('warns about default statuses that no stage replaces', () => {
+		render(PipelineEditor, { props: { stages, onchange: vi.fn() } });
+		expect(screen.getByText(/No stage replaces prospect, lost\./)).toBeInTheDocument();
+	});
+
+	it('has nothing to warn about for the default pipeline', () => {
+		render(PipelineEditor, { props: { stages: DEFAULT_PIPELINE.stages, onchange: vi.fn() } });
+		expect(screen.queryByText(/No stage replaces/)).not.toBeInTheDocument();
+	});
+});
@@ -0,0 +1,106 @@
+import { render, screen, fireEvent } from '@testing-library/svelte';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Sidebar from '../Sidebar.svelte';
+import type { Contact } from '$lib/types';
+
+const loaded: Contact[] = [
+  { id: 'contact-1', name: 'John Doe', email: 'john@example.com', company: 'Acme Corp', status: 'lead' },
+  { id: 'contact-2', name: 'Jane Smith', email: 'jane@example.com', company: 'Tech Inc', status: 'prospect' }
+];
+
+const notLoaded: Contact = { id: 'contact-3', name: 'Johnny Appleseed', email: 'johnny@example.com', status: 'customer' };
+
+function names(): string[] {
+  return screen.queryAllByRole('heading', { level: 3 }).map((heading) => heading.textContent ?? '');
+}
+
+async function typeQuery(query: string) {
+  await fireEvent.input(screen.getByLabelText('Search contacts'), { target: { value: query } });
+}
+
+describe('Sidebar', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('filters the loaded contacts as the user types', async () => {
+    render(Sidebar, { props: { contacts: loaded } });
+
+    await typeQuery('acme');
+
+    expect(names()).toEqual(['John Doe']);
+  });
+
+  it('filters the list by status', async () => {
+    render(Sidebar, { props: { contacts: loaded } });
+
+    await fireEvent.change(screen.getByLabelText('Filter by status'), { target: { value: 'prospect' } });
+    expect(names()).toEqual(['Jane Smith']);
+
+    await fireEvent.change(screen.getByLabelText('Filter by status'), { target: { value: 'lost' } });
+    expect(screen.getByText('No lost contacts')).toBeInTheDocument();
+  });
+
+  it('shows a message when nothing matches', async () => {
+    render(Sidebar, { props: { contacts: loaded } });
+
+    await typeQuery('nobody');
+
+    expect(screen.getByText('No matching contacts')).toBeInTheDocument();
+  });
+
+  it('searches the server once typing pauses and adds its matches', async () => {
+    const search = vi.fn().mockResolvedValue([loaded[0], notLoaded]);
+    render(Sidebar, { props: { contacts: loaded, search } });
+
+    await typeQuery('jo');
+    await typeQuery('john');
+    expect(search).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(search).toHaveBeenCalledWith('john', expect.any(AbortSignal));
+    expect(names()).toEqual(['John Doe', 'Johnny Appleseed']);
+  });
+
+  it('cancels a search that a newer query replaces', async () => {
+    let resolve: (contacts: Contact[]) => void = () => {};
+    const search = vi.fn(
+      (_query: string, _signal: AbortSignal) => new Promise<Contact[]>((r) => (resolve = r))
+    );
+    render(Sidebar, { props: { contacts: loaded, search } });
+
+    await typeQuery('john');
+    await vi.advanceTimersByTimeAsync(300);
+    const signal = search.mock.calls[0][1];
+
+    await typeQuery('jane');
+    resolve([notLoaded]);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(signal.aborted).toBe(true);
+    expect(names()).toEqual(['Jane Smith']);
+  });
+
+  it('hides the load more button while searching', async () => {
+    render(Sidebar, { props: { contacts: loaded, hasMore: true } });
+    expect(screen.getByRole('button', { name: 'Load more' })).toBeInTheDocument();
+
+    await typeQuery('jane');
+
+    expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument();
+  });
+
+  it('highlights the search terms', async () => {
+    const { container } = render(Sidebar, { props: { contacts: loaded } });
+
+    await typeQuery('smith');
+
+    expect(container.querySelector('mark')?.textContent).toBe('Smith');
+  });
+});
@@ -1,27 +1,40 @@
 import { render, screen } from '@testing-library/svelte';
-import { describe, it, expect } from 'vitest';
+import { afterEach, describe, it, expect } from 'vitest';
 import StatusBadge from '../StatusBadge.svelte';
+import { DEFAULT_WORKSPACE } from '$lib/api/workspace';
+import { workspace } from '$lib/stores/workspace';
 
 describe('StatusBadge', () => {
-	it('renders "lead" badge with correct class (badge-lead)', () => {
+	afterEach(() => {
+		workspace.set(DEFAULT_WORKSPACE);
+	});
+
+	it('renders "lead" badge with correct class (badge-gray)', () => {
 		render(StatusBadge, { props: { status: 'lead' } });
 		const badge = screen.getByText('Lead');
 		expect(badge).toBeInTheDocument();
-		expect(badge).toHaveClass('badge-lead');
+		expect(badge).toHaveClass('badge-gray');
 	});
 
-	it('renders "prospect" badge with correct class (badge-prospect)', () => {
+	it('renders "prospect" badge with correct class (badge-silver)', () => {
 		render(StatusBadge, { props: { status: 'prospect' } });
 		const badge = screen.getByText('Prospect');
 		expect(badge).toBeInTheDocument();
-		expect(badge).toHaveClass('badge-prospect');
+		expect(badge).toHaveClass('badge-silver');
 	});
 
-	it('renders "customer" badge with correct class (badge-customer)', () => {
+	it('renders "customer" badge with correct class (badge-dark)', () => {
 		render(StatusBadge, { props: { status: 'customer' } });
 		const badge = screen.getByText('Customer');
 		expect(badge).toBeInTheDocument();
-		expect(badge).toHaveClass('badge-customer');
+		expect(badge).toHaveClass('badge-dark');
+	});
+
+	it('renders "lost" badge with correct class (badge-outline)', () => {
+		render(StatusBadge, { props: { status: 'lost' } });
+		const badge = screen.getByText('Lost');
+		expect(badge).toBeInTheDocument();
+		expect(badge).toHaveClass('badge-outline');
 	});
 
 	it('displays the status text (capitalized)', () => {
@@ -35,4 +48,18 @@ describe('StatusBadge', () => {
 		render(StatusBadge, { props: { status: 'customer' } });
 		expect(screen.getByText('Customer')).toBeInTheDocument();
 	});
+
+	it('uses the label and color of a stage of the workspace pipeline', () => {
+		workspace.set({
+			...DEFAULT_WORKSPACE,
+			pipeline: { stages: [{ id: 'mql', label: 'MQL', color: 'blue' }] }
+		});
+		render(StatusBadge, { props: { status: 'mql' } });
+		expect(screen.getByText('MQL')).toHaveClass('badge-blue');
+	});
+
+	it('shows a status that is not a stage in gray', () => {
+		render(StatusBadge, { props: { status: 'archived_deal' } });
+		expect(screen.getByText('Archived_deal')).toHaveClass('badge-gray');
+	});
 });
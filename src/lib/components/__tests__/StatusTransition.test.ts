@@ -0,0 +1,102 @@
+import { render, screen, fireEvent } from '@testing-library/svelte';
+import { describe, it, expect, vi } from 'vitest';
+import StatusTransition from '../StatusTransition.svelte';
+import { DEFAULT_STATUS_TRANSITIONS } from '$lib/stores/pipeline';
+import type { StatusTransitions } from '$lib/types';
+
+describe('StatusTransition', () => {
+	it('offers the moves allowed from the current status', () => {
+		render(StatusTransition, {
+			props: { status: 'lead', transitions: DEFAULT_STATUS_TRANSITIONS, onchange: vi.fn() }
+		});
+
+		expect(screen.getByRole('button', { name: 'Prospect' })).toBeInTheDocument();
+		expect(screen.getByRole('button', { name: 'Customer' })).toBeInTheDocument();
+		expect(screen.queryByRole('button', { name: 'Lead' })).not.toBeInTheDocument();
+	});
+
+	it('leaves out blocked moves', () => {
+		const transitions: StatusTransitions = { lead: { prospect: 'allowed' }, prospect: {}, customer: {}, lost: {} };
+		render(StatusTransition, { props: { status: 'lead', transitions, onchange: vi.fn() } });
+
+		expect(screen.getByRole('button', { name: 'Prospect' })).toBeInTheDocument();
+		expect(screen.queryByRole('button', { name: 'Customer' })).not.toBeInTheDocument();
+	});
+
+	it('renders nothing when no move is allowed', () => {
+		const transitions: StatusTransitions = { lead: {}, prospect: {}, customer: {}, lost: {} };
+		render(StatusTransition, { props: { status: 'lead', transitions, onchange: vi.fn() } });
+
+		expect(screen.queryByText('Move to:')).not.toBeInTheDocument();
+	});
+
+	it('sends the chosen status, reason and whether to log a note', async () => {
+		const onchange = vi.fn();
+		render(StatusTransition, {
+			props: { status: 'lead', transitions: DEFAULT_STATUS_TRANSITIONS, onchange }
+		});
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Prospect' }));
+		await fireEvent.input(screen.getByLabelText('Reason'), { target: { value: ' Asked for a demo ' } });
+		await fireEvent.click(screen.getByRole('button', { name: 'Move to Prospect' }));
+
+		expect(onchange).toHaveBeenCalledWith({ status: 'prospect', reason: 'Asked for a demo', logNote: true });
+	});
+
+	it('can skip the note', async () => {
+		const onchange = vi.fn();
+		render(StatusTransition, {
+			props: { status: 'lead', transitions: DEFAULT_STATUS_TRANSITIONS, onchange }
+		});
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Customer' }));
+		await fireEvent.click(screen.getByLabelText(/log a note/i));
+		await fireEvent.click(screen.getByRole('button', { name: 'Move to Customer' }));
+
+		expect(onchange).toHaveBeenCalledWith({ status: 'customer', reason: undefined, logNote: false });
+	});
+
+	it('asks for confirmation before moving a customer back to lead', async () => {
+		const onchange = vi.fn();
+		render(StatusTransition, {
+			props: { status: 'customer', transitions: DEFAULT_STATUS_TRANSITIONS, onchange }
+		});
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Lead' }));
+
+		expect(screen.getByRole('alert')).toHaveTextContent('Moving a customer back to lead needs confirmation.');
+		await fireEvent.click(screen.getByRole('button', { name: 'Confirm move to Lead' }));
+		expect(onchange).toHaveBeenCalledWith(expect.objectContaining({ status: 'lead' }));
+	});
+
+	it('asks why a contact was lost', async () => {
+		const onchange = vi.fn();
+		render(StatusTransition, {
+			props: { status: 'prospect', transitions: DEFAULT_STATUS_TRANSITIONS, onchange }
+		});
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Lost' }));
+		await fireEvent.input(screen.getByLabelText('Loss reason'), { target: { value: 'No budget' } });
+		await fireEvent.click(screen.getByRole('button', { name: 'Move to Lost' }));
+
+		expect(onchange).toHaveBeenCalledWith({ status: 'lost', reason: 'No budget', logNote: true });
+	});
+
+	it('asks for confirmation before losing a customer', async () => {
+		render(StatusTransition, {
+			props: { status: 'customer', transitions: DEFAULT_STATUS_TRANSITIONS, onchange: vi.fn() }
+		});
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Lost' }));
+
+		expect(screen.getByRole('alert')).toHaveTextContent('Marking a customer as lost needs confirmation.');
+	});
+
+	it('disables the moves while one is being saved', () => {
+		render(StatusTransition, {
+			props: { status: 'lead', transitions: DEFAULT_STATUS_TRANSITIONS, busy: true, onchange: vi.fn() }
+		});
+
+		expect(screen.getByRole('button', { name: 'Prospect' })).toBeDisabled();
+	});
+});
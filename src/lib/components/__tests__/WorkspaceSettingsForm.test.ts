@@ -0,0 +1,74 @@
+import { render, screen, fireEvent } from '@testing-library/svelte';
+import { describe, it, expect, vi } from 'vitest';
+import WorkspaceSettingsForm from '../WorkspaceSettingsForm.svelte';
+import { DEFAULT_WORKSPACE } from '$lib/api/workspace';
+
+const settings = {
+	baseUrl: 'https://staging.scout.test',
+	workflowId: 'wf_staging',
+	context: { user_id: 'team-a' }
+};
+
+describe('WorkspaceSettingsForm', () => {
+	it('shows the current settings', () => {
+		render(WorkspaceSettingsForm, { props: { settings, onsave: vi.fn(), oncancel: vi.fn() } });
+
+		expect(screen.getByLabelText(/API Base URL/)).toHaveValue('https://staging.scout.test');
+		expect(screen.getByLabelText(/Workflow ID/)).toHaveValue('wf_staging');
+		expect(screen.getByLabelText('Context user ID')).toHaveValue('team-a');
+	});
+
+	it('saves normalised settings', async () => {
+		const onsave = vi.fn();
+		render(WorkspaceSettingsForm, { props: { settings, onsave, oncancel: vi.fn() } });
+
+		await fireEvent.input(screen.getByLabelText(/Workflow ID/), { target: { value: ' wf_other ' } });
+		await fireEvent.input(screen.getByLabelText('Context session ID'), { target: { value: 's-1' } });
+		await fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+		expect(onsave).toHaveBeenCalledWith({
+			baseUrl: 'https://staging.scout.test',
+			workflowId: 'wf_other',
+			context: { user_id: 'team-a', session_id: 's-1' }
+		});
+	});
+
+	it('saves a custom pipeline', async () => {
+		const onsave = vi.fn();
+		render(WorkspaceSettingsForm, { props: { settings, onsave, oncancel: vi.fn() } });
+
+		await fireEvent.input(screen.getByLabelText('Stage 1 name'), { target: { value: 'MQL' } });
+		await fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+		// The renamed stage keeps its ID, so existing leads stay in it
+		expect(onsave.mock.calls[0][0].pipeline.stages[0]).toEqual({ id: 'lead', label: 'MQL', color: 'gray' });
+	});
+
+	it('blocks saving a pipeline with a stage without a name', async () => {
+		render(WorkspaceSettingsForm, { props: { settings, onsave: vi.fn(), oncancel: vi.fn() } });
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Add stage' }));
+
+		expect(screen.getByText('Every stage needs a name')).toBeInTheDocument();
+		expect(screen.getByRole('button', { name: 'Save' })).toBeDisabled();
+	});
+
+	it('blocks saving invalid settings', async () => {
+		render(WorkspaceSettingsForm, { props: { settings, onsave: vi.fn(), oncancel: vi.fn() } });
+
+		await fireEvent.input(screen.getByLabelText(/API Base URL/), { target: { value: 'not a url' } });
+
+		expect(screen.getByText('Base URL is not a valid URL')).toBeInTheDocument();
+		expect(screen.getByRole('button', { name: 'Save' })).toBeDisabled();
+	});
+
+	it('resets to the default workspace', async () => {
+		render(WorkspaceSettingsForm, { props: { settings, onsave: vi.fn(), oncancel: vi.fn() } });
+
+		await fireEvent.click(screen.getByRole('button', { name: 'Reset to defaults' }));
+
+		expect(screen.getByLabelText(/Workflow ID/)).toHaveValue(DEFAULT_WORKSPACE.workflowId);
+		expect(screen.getByLabelText('Context user ID')).toHaveValue('');
+		expect(screen.getByLabelText('Stage 1 name')).toHaveValue('Lead');
+	});
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MetricsCollector, cacheKindOf, metrics, type MetricEvent } from '../index';
+import { cachedFetch, clearAllCaches, DEFAULT_TTL } from '../../cache';
+import { ScoutBackend } from '../../api/backends';
+import { createApiError } from '../../api/errors';
+import type { ApiResponse } from '../../types';
+
+const ok = { success: true };
+const failed = (kind: Parameters<typeof createApiError>[0]) => ({ success: false, error: createApiError(kind) });
+
+describe('MetricsCollector', () => {
+  let collector: MetricsCollector;
+
+  beforeEach(() => {
+    collector = new MetricsCollector();
+  });
+
+  it('summarizes the latency of each operation', () => {
+    [100, 300, 200, 400, 1000].forEach((ms) => collector.recordCommand('listContacts', ms, ok));
+
+    expect(collector.snapshot().commands.listContacts.latency).toEqual({
+      min: 100,
+      max: 1000,
+      mean: 400,
+      p50: 300,
+      p95: 1000,
+    });
+  });
+
+  it('counts outcomes by error kind and leaves cancelled commands out of failures and latency', () => {
+    collector.recordCommand('getDashboard', 10, ok);
+    collector.recordCommand('getDashboard', 20, failed('timeout'));
+    collector.recordCommand('getDashboard', 30, failed('timeout'));
+    collector.recordCommand('getDashboard', 5000, failed('cancelled'));
+
+    const stats = collector.snapshot().commands.getDashboard;
+    expect(stats.count).toBe(4);
+    expect(stats.failures).toBe(2);
+    expect(stats.outcomes).toEqual({ success: 1, timeout: 2, cancelled: 1 });
+    expect(stats.latency?.max).toBe(30);
+  });
+
+  it('counts the repairs replies needed', () => {
+    const repaired: ApiResponse<unknown> = { success: true, meta: { repairs: ['removed_comments', 'extracted_from_prose'] } };
+    collector.recordCommand('listContacts', 10, repaired);
+    collector.recordCommand('listContacts', 10, ok);
+
+    expect(collector.snapshot().commands.listContacts).toMatchObject({ repairedReplies: 1, repairs: 2 });
+  });
+
+  it('keeps only the most recent latencies', () => {
+    const small = new MetricsCollector(2);
+    [1000, 10, 20].forEach((ms) => small.recordCommand('listContacts', ms, ok));
+
+    expect(small.snapshot().commands.listContacts.latency?.max).toBe(20);
+    expect(small.snapshot().commands.listContacts.count).toBe(3);
+  });
+
+  it('computes cache hit ratios by tier, overall and per kind of data', () => {
+    collector.recordCacheLookup('contacts', 'memory');
+    collector.recordCacheLookup('contacts:page:0:25', 'storage');
+    collector.recordCacheLookup('contacts', 'network');
+    collector.recordCacheLookup('contact:c1', 'network');
+
+    const { cache } = collector.snapshot();
+    expect(cache.lookups).toBe(4);
+    expect(cache.tiers).toEqual({ memory: 1, storage: 1, network: 2 });
+    expect(cache.hitRatio).toBe(0.5);
+    expect(cache.byKind.contacts.hitRatio).toBeCloseTo(2 / 3);
+    expect(cache.byKind.contact.hitRatio).toBe(0);
+  });
+
+  it('has no ratios before anything is recorded', () => {
+    expect(collector.snapshot()).toMatchObject({ commands: {}, cache: { lookups: 0, hitRatio: null, byKind: {} } });
+  });
+
+  it('sends every metric to the sinks until they are removed', () => {
+    const events: MetricEvent[] = [];
+    const remove = collector.addSink({ record: (event) => events.push(event) });
+
+    collector.recordCommand('createContact', 12, failed('parse_error'));
+    collector.recordCacheLookup('dashboard', 'memory');
+    remove();
+    collector.recordCacheLookup('dashboard', 'memory');
+
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'command', operation: 'createContact', durationMs: 12, outcome: 'parse_error', repairs: 0 }),
+      expect.objectContaining({ type: 'cache', kind: 'dashboard', tier: 'memory' }),
+    ]);
+  });
+
+  it('keeps recording when a sink throws', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    collector.addSink({ record: () => { throw new Error('collector down'); } });
+
+    collector.recordCommand('listContacts', 10, ok);
+
+    expect(collector.snapshot().commands.listContacts.count).toBe(1);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('notifies subscribers and starts over on reset', () => {
+    const listener = vi.fn();
+    collector.subscribe(listener);
+    collector.recordCommand('listContacts', 10, ok);
+    collector.reset();
+
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(listener.mock.calls[1][0].commands.listContacts.count).toBe(1);
+    expect(listener.mock.calls[2][0].commands).toEqual({});
+  });
+
+  it('exports the snapshot as JSON', () => {
+    collector.recordCommand('listContacts', 10, ok);
+
+    expect(JSON.parse(collector.exportJson())).toEqual(collector.snapshot());
+  });
+});
+
+describe('cacheKindOf', () => {
+  it('uses the first segment of the key', () => {
+    expect(cacheKindOf('contact:abc')).toBe('contact');
+    expect(cacheKindOf('dashboard')).toBe('dashboard');
+  });
+});
+
+describe('recording', () => {
+  const mockFetch = vi.fn();
+  (globalThis as typeof globalThis & { fetch: typeof fetch }).fetch = mockFetch;
+
+  beforeEach(() => {
+    clearAllCaches();
+    metrics.reset();
+    mockFetch.mockReset();
+  });
+
+  it('records which tier served each cachedFetch lookup', async () => {
+    const fetcher = vi.fn().mockResolvedValue('data');
+
+    await cachedFetch('dashboard', fetcher, DEFAULT_TTL.dashboard);
+    await cachedFetch('dashboard', fetcher, DEFAULT_TTL.dashboard);
+    await cachedFetch('dashboard', fetcher, DEFAULT_TTL.dashboard, { forceRefresh: true });
+
+    expect(metrics.snapshot().cache.tiers).toEqual({ memory: 1, storage: 0, network: 1 });
+  });
+
+  it('records each workflow command sent by the Scout backend', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: () =>
+        Promise.resolve({
+          run: { state: { agent_message: { output: "```json\n{'contacts': [],}\n```" } } },
+        }),
+    });
+
+    await new ScoutBackend({ retry: false, streaming: false }).listContacts('api-key');
+
+    expect(metrics.snapshot().commands.listContacts).toMatchObject({
+      count: 1,
+      failures: 0,
+      outcomes: { success: 1 },
+    });
+    expect(metrics.snapshot().commands.listContacts.repairs).toBeGreaterThan(0);
+  });
+});
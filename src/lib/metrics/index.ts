@@ -0,0 +1,221 @@
+/**
+ * Performance Telemetry
+ *
+ * Aggregates how long each workflow command takes, how it ended (success or
+ * the kind of error), how many repairs its reply needed, and which cache tier
+ * served each cached lookup. The figures are shown on the diagnostics screen
+ * and can be exported as JSON; sinks receive every metric as it is recorded,
+ * so they can be forwarded to a collector of our own.
+ *
+ * The collector follows the Svelte store contract, so components can
+ * subscribe to its snapshot with `$metrics`.
+ */
+
+import type { ApiResponse } from '../types';
+import type {
+  CacheMetric,
+  CacheStats,
+  CacheTier,
+  CommandMetric,
+  CommandOutcome,
+  CommandStats,
+  LatencySummary,
+  MetricEvent,
+  MetricsSink,
+  MetricsSnapshot,
+} from './types';
+
+export type {
+  CacheMetric,
+  CacheStats,
+  CacheTier,
+  CommandMetric,
+  CommandOutcome,
+  CommandStats,
+  LatencySummary,
+  MetricEvent,
+  MetricsSink,
+  MetricsSnapshot,
+} from './types';
+
+/** Running totals of one operation */
+interface CommandTotals {
+  outcomes: Partial<Record<CommandOutcome, number>>;
+  /** Most recent latencies, oldest first */
+  latencies: number[];
+  repairedReplies: number;
+  repairs: number;
+}
+
+/**
+ * Value at a percentile of sorted samples (nearest rank)
+ */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function summarize(latencies: number[]): LatencySummary | null {
+  if (latencies.length === 0) return null;
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+  };
+}
+
+function cacheStats(tiers: Record<CacheTier, number>): CacheStats {
+  const lookups = tiers.memory + tiers.storage + tiers.network;
+  return {
+    lookups,
+    tiers: { ...tiers },
+    hitRatio: lookups === 0 ? null : (tiers.memory + tiers.storage) / lookups,
+  };
+}
+
+/**
+ * Kind of data a cache key holds: its first segment, e.g. "contact" for "contact:c1"
+ */
+export function cacheKindOf(key: string): string {
+  return key.split(':')[0];
+}
+
+export class MetricsCollector {
+  private since = Date.now();
+  private commands = new Map<string, CommandTotals>();
+  private cacheTiers = new Map<string, Record<CacheTier, number>>();
+  private sinks = new Set<MetricsSink>();
+  private listeners = new Set<(snapshot: MetricsSnapshot) => void>();
+
+  /**
+   * @param sampleLimit - Latencies kept per operation for the percentiles; the oldest are dropped first
+   */
+  constructor(private readonly sampleLimit = 500) {}
+
+  /**
+   * Record a workflow command and its final (validated) response
+   */
+  recordCommand(operation: string, durationMs: number, response: ApiResponse<unknown>): void {
+    const outcome: CommandOutcome = response.success ? 'success' : (response.error?.kind ?? 'workflow_failed');
+    const repairs = response.meta?.repairs?.length ?? 0;
+
+    const totals = this.commands.get(operation) ?? { outcomes: {}, latencies: [], repairedReplies: 0, repairs: 0 };
+    totals.outcomes[outcome] = (totals.outcomes[outcome] ?? 0) + 1;
+    // A cancelled command says nothing about how long the workflow takes
+    if (outcome !== 'cancelled') {
+      totals.latencies = [...totals.latencies, durationMs].slice(-this.sampleLimit);
+    }
+    totals.repairs += repairs;
+    if (repairs > 0) totals.repairedReplies += 1;
+    this.commands.set(operation, totals);
+
+    this.publish({ type: 'command', operation, durationMs, outcome, repairs, timestamp: Date.now() });
+  }
+
+  /**
+   * Record which tier served a cache lookup
+   */
+  recordCacheLookup(key: string, tier: CacheTier): void {
+    const kind = cacheKindOf(key);
+    const tiers = this.cacheTiers.get(kind) ?? { memory: 0, storage: 0, network: 0 };
+    tiers[tier] += 1;
+    this.cacheTiers.set(kind, tiers);
+
+    this.publish({ type: 'cache', kind, tier, timestamp: Date.now() });
+  }
+
+  /**
+   * Aggregated figures since the collector started or was last reset
+   */
+  snapshot(): MetricsSnapshot {
+    const commands: Record<string, CommandStats> = {};
+    for (const [operation, totals] of this.commands) {
+      const count = Object.values(totals.outcomes).reduce((sum, n) => sum + (n ?? 0), 0);
+      commands[operation] = {
+        count,
+        failures: count - (totals.outcomes.success ?? 0) - (totals.outcomes.cancelled ?? 0),
+        outcomes: { ...totals.outcomes },
+        latency: summarize(totals.latencies),
+        repairedReplies: totals.repairedReplies,
+        repairs: totals.repairs,
+      };
+    }
+
+    const overall: Record<CacheTier, number> = { memory: 0, storage: 0, network: 0 };
+    const byKind: Record<string, CacheStats> = {};
+    for (const [kind, tiers] of this.cacheTiers) {
+      byKind[kind] = cacheStats(tiers);
+      overall.memory += tiers.memory;
+      overall.storage += tiers.storage;
+      overall.network += tiers.network;
+    }
+
+    return {
+      since: new Date(this.since).toISOString(),
+      commands,
+      cache: { ...cacheStats(overall), byKind },
+    };
+  }
+
+  /**
+   * The snapshot as pretty-printed JSON, for export
+   */
+  exportJson(): string {
+    return JSON.stringify(this.snapshot(), null, 2);
+  }
+
+  /**
+   * Forget everything recorded and start a new recording period
+   */
+  reset(): void {
+    this.since = Date.now();
+    this.commands.clear();
+    this.cacheTiers.clear();
+    this.emit();
+  }
+
+  /**
+   * Send every metric recorded from now on to a sink
+   * @returns A function that removes the sink
+   */
+  addSink(sink: MetricsSink): () => void {
+    this.sinks.add(sink);
+    return () => {
+      this.sinks.delete(sink);
+    };
+  }
+
+  /**
+   * Svelte store contract: called immediately and on every change
+   */
+  subscribe(listener: (snapshot: MetricsSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.snapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private publish(event: MetricEvent): void {
+    for (const sink of this.sinks) {
+      try {
+        sink.record(event);
+      } catch (error) {
+        // A failing sink must not break the request that is being measured
+        console.warn('[Metrics] Sink failed:', error);
+      }
+    }
+    this.emit();
+  }
+
+  private emit(): void {
+    if (this.listeners.size === 0) return;
+    const snapshot = this.snapshot();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
+
+// Singleton instance shared by the cache, the backends and the diagnostics screen
+export const metrics = new MetricsCollector();
@@ -0,0 +1,97 @@
+/**
+ * Metric types for client-side performance telemetry
+ */
+
+import type { ApiErrorKind } from '../types';
+
+/** Where a cached call's data came from; 'network' is a cache miss */
+export type CacheTier = 'memory' | 'storage' | 'network';
+
+/** How a workflow command ended */
+export type CommandOutcome = 'success' | ApiErrorKind;
+
+/**
+ * One workflow command sent to the backend
+ */
+export interface CommandMetric {
+  type: 'command';
+  /** Operation name, or 'batch' for several operations sent as one run */
+  operation: string;
+  /** Time from sending the command to its validated result, including time queued and retries */
+  durationMs: number;
+  outcome: CommandOutcome;
+  /** Number of repairs needed to read the reply as JSON */
+  repairs: number;
+  /** When the command finished (ms since epoch) */
+  timestamp: number;
+}
+
+/**
+ * One cache lookup made by cachedFetch
+ */
+export interface CacheMetric {
+  type: 'cache';
+  /** Kind of data looked up: the first segment of the cache key, e.g. "contacts" */
+  kind: string;
+  tier: CacheTier;
+  timestamp: number;
+}
+
+export type MetricEvent = CommandMetric | CacheMetric;
+
+/**
+ * Receives every metric as it is recorded, e.g. to forward it to a collector
+ */
+export interface MetricsSink {
+  record(event: MetricEvent): void;
+}
+
+/**
+ * Latency distribution in milliseconds
+ */
+export interface LatencySummary {
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p95: number;
+}
+
+/**
+ * Aggregated metrics of one operation
+ */
+export interface CommandStats {
+  count: number;
+  failures: number;
+  /** Number of commands per outcome */
+  outcomes: Partial<Record<CommandOutcome, number>>;
+  /** Latency of the commands that were not cancelled; null before the first one */
+  latency: LatencySummary | null;
+  /** Replies that needed at least one repair */
+  repairedReplies: number;
+  /** Repairs over all replies */
+  repairs: number;
+}
+
+/**
+ * Lookups per cache tier and the share served from a cache
+ */
+export interface CacheStats {
+  lookups: number;
+  tiers: Record<CacheTier, number>;
+  /** Share of lookups served from memory or storage, 0-1; null before the first lookup */
+  hitRatio: number | null;
+}
+
+/**
+ * Everything recorded since the collector started or was last reset
+ */
+export interface MetricsSnapshot {
+  /** ISO-8601 start of the recording period */
+  since: string;
+  commands: Record<string, CommandStats>;
+  cache: CacheStats & {
+    /** The same figures per kind of data */
+    byKind: Record<string, CacheStats>;
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { get } from 'svelte/store';
+import {
+  DEFAULT_STATUS_TRANSITIONS,
+  availableTransitions,
+  configureStatusTransitions,
+  moveStatusCount,
+  statusTransitions,
+  transitionNote,
+  transitionsFor,
+  winLossSummary,
+} from '../pipeline';
+import { workspace } from '../workspace';
+import { DEFAULT_PIPELINE } from '../../api/pipeline';
+import { DEFAULT_WORKSPACE } from '../../api/workspace';
+import type { PipelineDefinition } from '../../types';
+
+const saas: PipelineDefinition = {
+  stages: [
+    { id: 'mql', label: 'MQL', color: 'blue' },
+    { id: 'trial', label: 'Trial', color: 'amber' },
+    { id: 'customer', label: 'Customer', color: 'green', terminal: 'won' },
+    { id: 'churned', label: 'Churned', color: 'red', terminal: 'lost' },
+  ],
+};
+
+describe('transitionsFor', () => {
+  it('reproduces the original rules for the default pipeline', () => {
+    expect(DEFAULT_STATUS_TRANSITIONS).toEqual({
+      lead: { prospect: 'allowed', customer: 'allowed', lost: 'allowed' },
+      prospect: { lead: 'allowed', customer: 'allowed', lost: 'allowed' },
+      customer: { lead: 'confirm', prospect: 'confirm', lost: 'confirm' },
+      lost: { lead: 'confirm', prospect: 'confirm' },
+    });
+  });
+
+  it('offers the moves of a custom pipeline in stage order', () => {
+    const rules = transitionsFor(saas);
+    expect(availableTransitions(rules, 'trial', saas)).toEqual([
+      { status: 'mql', policy: 'allowed' },
+      { status: 'customer', policy: 'allowed' },
+      { status: 'churned', policy: 'allowed' },
+    ]);
+    expect(availableTransitions(rules, 'churned', saas).map((move) => move.status)).toEqual(['mql', 'trial']);
+  });
+
+  it('lets a contact whose status is not a stage move to any stage', () => {
+    expect(availableTransitions(transitionsFor(saas), 'prospect', saas).map((move) => move.status)).toEqual([
+      'mql',
+      'trial',
+      'customer',
+      'churned',
+    ]);
+  });
+});
+
+describe('statusTransitions', () => {
+  afterEach(() => {
+    configureStatusTransitions(null);
+    workspace.set(DEFAULT_WORKSPACE);
+  });
+
+  it('follows the workspace pipeline until rules are configured', () => {
+    workspace.set({ ...DEFAULT_WORKSPACE, pipeline: saas });
+    expect(get(statusTransitions)).toEqual(transitionsFor(saas));
+
+    configureStatusTransitions({ mql: { trial: 'confirm' } });
+    expect(get(statusTransitions)).toEqual({ mql: { trial: 'confirm' } });
+
+    configureStatusTransitions(null);
+    expect(get(statusTransitions)).toEqual(transitionsFor(saas));
+  });
+});
+
+describe('dashboard figures', () => {
+  it('moves a contact between stage counts, including stages without a count yet', () => {
+    const data = { contactCounts: { mql: 2, total: 2 }, activityCount: 0, recentActivities: [] };
+    expect(moveStatusCount(data, 'mql', 'trial').contactCounts).toEqual({ mql: 1, trial: 1, total: 2 });
+  });
+
+  it('counts won and lost stages', () => {
+    expect(winLossSummary(saas, { mql: 4, customer: 3, churned: 1, total: 8 })).toEqual({ won: 3, lost: 1, winRate: 0.75 });
+    expect(winLossSummary(DEFAULT_PIPELINE, { lead: 1, total: 1 })).toEqual({ won: 0, lost: 0, winRate: null });
+  });
+
+  it('names stages by their labels in the move note', () => {
+    expect(transitionNote(saas, 'mql', 'churned', ' No budget ')).toBe('Status changed from MQL to Churned: No budget');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { get } from 'svelte/store';
+import { deferWithUndo, flushDeferredAction, undoDeferredAction, undoNotice } from '../ui';
+
+describe('deferWithUndo', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    flushDeferredAction();
+    vi.useRealTimers();
+  });
+
+  it('runs the action once the grace period is over', () => {
+    const commit = vi.fn();
+    deferWithUndo('Ann deleted', { commit, undo: vi.fn() }, 5000);
+
+    expect(get(undoNotice)).toBe('Ann deleted');
+    vi.advanceTimersByTime(4999);
+    expect(commit).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(commit).toHaveBeenCalledTimes(1);
+    expect(get(undoNotice)).toBeNull();
+  });
+
+  it('never runs an undone action', () => {
+    const commit = vi.fn();
+    const undo = vi.fn();
+    deferWithUndo('Ann deleted', { commit, undo }, 5000);
+
+    undoDeferredAction();
+    vi.advanceTimersByTime(5000);
+
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(commit).not.toHaveBeenCalled();
+    expect(get(undoNotice)).toBeNull();
+  });
+
+  it('runs the waiting action when another one is deferred', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    deferWithUndo('Ann deleted', { commit: first, undo: vi.fn() });
+    deferWithUndo('Bo deleted', { commit: second, undo: vi.fn() });
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).not.toHaveBeenCalled();
+    expect(get(undoNotice)).toBe('Bo deleted');
+  });
+
+  it('undoes an action whose commit fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const undo = vi.fn();
+    deferWithUndo('Ann deleted', { commit: () => Promise.reject(new Error('Backend down')), undo });
+    deferWithUndo('Bo deleted', { commit: () => { throw new Error('Backend down'); }, undo });
+
+    flushDeferredAction();
+    await vi.runAllTimersAsync();
+
+    expect(undo).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('can run the waiting action early', () => {
+    const commit = vi.fn();
+    deferWithUndo('Ann deleted', { commit, undo: vi.fn() });
+
+    flushDeferredAction();
+    vi.advanceTimersByTime(5000);
+
+    expect(commit).toHaveBeenCalledTimes(1);
+  });
+});
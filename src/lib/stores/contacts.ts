@@ -5,13 +5,26 @@
  */
 
 import { writable, derived } from 'svelte/store';
-import type { Contact, ContactWithActivities, DashboardData } from '../types';
+import type {
+  Contact,
+  ContactWithActivities,
+  CreateContactData,
+  DashboardData,
+  PipelineDefinition,
+  UpdateContactData,
+} from '../types';
+import { isLostStage } from '../api/pipeline';
 
 /**
  * List of all contacts
  */
 export const contacts = writable<Contact[]>([]);
 
+/**
+ * Offset of the next page of contacts to load, or null once every page is loaded
+ */
+export const contactsNextOffset = writable<number | null>(null);
+
 /**
  * Currently selected contact ID
  */
@@ -55,6 +68,31 @@ export function updateContact(contactId: string, updates: Partial<Contact>): voi
   );
 }
 
+/**
+ * Fields of an edited contact that differ from the original.
+ * A phone, company or loss reason that was removed is sent as '' so the
+ * backend clears it. The loss reason only counts while the contact is in a
+ * lost stage of the pipeline; moving it to another status clears the reason anyway.
+ */
+export function contactChanges(
+  original: Contact,
+  edited: CreateContactData & Pick<Contact, 'lossReason'>,
+  pipeline: PipelineDefinition
+): UpdateContactData {
+  const changes: UpdateContactData = {};
+  if (edited.name !== original.name) changes.name = edited.name;
+  if (edited.email !== original.email) changes.email = edited.email;
+  if (edited.status !== undefined && edited.status !== original.status) changes.status = edited.status;
+  for (const field of ['phone', 'company'] as const) {
+    if ((edited[field] ?? '') !== (original[field] ?? '')) changes[field] = edited[field] ?? '';
+  }
+  const lost = isLostStage(pipeline, edited.status ?? original.status);
+  if (lost && (edited.lossReason ?? '') !== (original.lossReason ?? '')) {
+    changes.lossReason = edited.lossReason ?? '';
+  }
+  return changes;
+}
+
 /**
  * Helper to add a new contact to the list
  */
@@ -62,6 +100,45 @@ export function addContact(contact: Contact): void {
   contacts.update((list) => [...list, contact]);
 }
 
+/**
+ * Helper to add a page of contacts to the list.
+ * Contacts already in the list are skipped: a contact created since the
+ * earlier pages were loaded shifts later pages by one.
+ */
+export function appendContacts(page: Contact[]): void {
+  contacts.update((list) => {
+    const known = new Set(list.map((contact) => contact.id));
+    return [...list, ...page.filter((contact) => !known.has(contact.id))];
+  });
+}
+
+/**
+ * Split a search query into lowercase terms
+ */
+export function searchTerms(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Whether every term appears in the contact's name, email, company or phone
+ */
+export function matchesSearch(contact: Contact, terms: string[]): boolean {
+  const fields = [contact.name, contact.email, contact.company, contact.phone]
+    .filter((field): field is string => !!field)
+    .map((field) => field.toLowerCase());
+  return terms.every((term) => fields.some((field) => field.includes(term)));
+}
+
+/**
+ * Contacts to show for a search: the loaded contacts that match, followed by
+ * the server's matches that are not loaded yet
+ */
+export function mergeSearchResults(loaded: Contact[], terms: string[], found: Contact[]): Contact[] {
+  const matches = loaded.filter((contact) => matchesSearch(contact, terms));
+  const known = new Set(matches.map((contact) => contact.id));
+  return [...matches, ...found.filter((contact) => !known.has(contact.id))];
+}
+
 /**
  * Helper to remove a contact from the list
  */
@@ -77,6 +154,7 @@ export function removeContact(contactId: string): void {
  */
 export function clearContacts(): void {
   contacts.set([]);
+  contactsNextOffset.set(null);
   selectedContactId.set(null);
   selectedContactDetails.set(null);
   dashboardData.set(null);
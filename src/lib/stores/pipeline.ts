@@ -0,0 +1,179 @@
+/**
+ * Pipeline Store
+ *
+ * Holds the pipeline of the current workspace and the rules for moving a
+ * contact from one stage to another. A move is allowed, needs confirmation
+ * (e.g. a customer going back to lead), or is not offered at all. The rules
+ * follow from the pipeline unless they are replaced with
+ * configureStatusTransitions().
+ */
+
+import { derived, writable } from 'svelte/store';
+import type {
+  ContactStatus,
+  DashboardData,
+  PipelineDefinition,
+  StageColor,
+  StatusTransitions,
+  TransitionPolicy,
+} from '../types';
+import { DEFAULT_PIPELINE, findStage, isLostStage, stageIds, stageLabel } from '../api/pipeline';
+import { workspace } from './workspace';
+
+/**
+ * Pipeline of the current workspace
+ */
+export const pipeline = derived(workspace, ($workspace) => $workspace.pipeline ?? DEFAULT_PIPELINE);
+
+/**
+ * Rules that follow from a pipeline's stages: moves out of an open stage are
+ * allowed; moves out of a won or lost stage need confirmation, and a lost
+ * contact cannot go straight to a won stage
+ */
+export function transitionsFor(pipeline: PipelineDefinition): StatusTransitions {
+  const rules: StatusTransitions = {};
+  for (const from of pipeline.stages) {
+    const moves: Partial<Record<ContactStatus, TransitionPolicy>> = {};
+    for (const to of pipeline.stages) {
+      if (to.id === from.id) continue;
+      if (!from.terminal) moves[to.id] = 'allowed';
+      else if (!(from.terminal === 'lost' && to.terminal === 'won')) moves[to.id] = 'confirm';
+    }
+    rules[from.id] = moves;
+  }
+  return rules;
+}
+
+/**
+ * Forward moves and losing a deal are allowed; moving a customer back, losing
+ * a customer or reopening a lost contact needs confirmation
+ */
+export const DEFAULT_STATUS_TRANSITIONS: StatusTransitions = transitionsFor(DEFAULT_PIPELINE);
+
+/** Rules set with configureStatusTransitions(), if any */
+const configuredTransitions = writable<StatusTransitions | null>(null);
+
+/**
+ * Transition rules in effect
+ */
+export const statusTransitions = derived(
+  [pipeline, configuredTransitions],
+  ([$pipeline, $configured]) => $configured ?? transitionsFor($pipeline)
+);
+
+/**
+ * Replace the transition rules; null goes back to the rules of the pipeline
+ */
+export function configureStatusTransitions(rules: StatusTransitions | null): void {
+  configuredTransitions.set(rules);
+}
+
+/**
+ * Whether a contact may move between two statuses under the given rules
+ */
+export function transitionPolicy(rules: StatusTransitions, from: ContactStatus, to: ContactStatus): TransitionPolicy {
+  if (from === to) return 'blocked';
+  return rules[from]?.[to] ?? 'blocked';
+}
+
+/**
+ * Statuses a contact can move to from the given one, in pipeline order.
+ * A contact whose status is not a stage of the pipeline (e.g. of a removed
+ * stage) may move to any stage.
+ */
+export function availableTransitions(
+  rules: StatusTransitions,
+  from: ContactStatus,
+  pipeline: PipelineDefinition
+): Array<{ status: ContactStatus; policy: TransitionPolicy }> {
+  const ids = stageIds(pipeline);
+  const unassigned = !ids.includes(from);
+  return ids
+    .map((status) => ({ status, policy: unassigned ? 'allowed' : transitionPolicy(rules, from, status) }))
+    .filter(({ policy }) => policy !== 'blocked');
+}
+
+/**
+ * Why a move that needs confirmation does
+ */
+export function confirmationMessage(pipeline: PipelineDefinition, from: ContactStatus, to: ContactStatus): string {
+  const label = (status: ContactStatus) => stageLabel(pipeline, status).toLowerCase();
+  if (isLostStage(pipeline, to)) {
+    return `Marking a ${label(from)} as ${label(to)} needs confirmation.`;
+  }
+  if (isLostStage(pipeline, from)) {
+    return `Reopening a ${label(from)} contact as ${label(to)} needs confirmation.`;
+  }
+  if (findStage(pipeline, from)?.terminal === 'won') {
+    return `Moving a ${label(from)} back to ${label(to)} needs confirmation.`;
+  }
+  return `Moving a ${label(from)} to ${label(to)} needs confirmation.`;
+}
+
+/**
+ * Description of the note that records a status move
+ */
+export function transitionNote(
+  pipeline: PipelineDefinition,
+  from: ContactStatus,
+  to: ContactStatus,
+  reason?: string
+): string {
+  const note = `Status changed from ${stageLabel(pipeline, from)} to ${stageLabel(pipeline, to)}`;
+  return reason?.trim() ? `${note}: ${reason.trim()}` : note;
+}
+
+/**
+ * Dashboard counts with one contact moved from one status to another
+ */
+export function moveStatusCount(data: DashboardData, from: ContactStatus, to: ContactStatus): DashboardData {
+  const counts = { ...data.contactCounts };
+  counts[from] = Math.max(0, (counts[from] ?? 0) - 1);
+  counts[to] = (counts[to] ?? 0) + 1;
+  return { ...data, contactCounts: counts };
+}
+
+/**
+ * Closed deals: contacts in won stages count as won, those in lost stages as
+ * lost. The win rate is the share of closed deals that were won, null while
+ * none are closed.
+ */
+export function winLossSummary(
+  pipeline: PipelineDefinition,
+  counts: DashboardData['contactCounts']
+): {
+  won: number;
+  lost: number;
+  winRate: number | null;
+} {
+  const countOf = (terminal: 'won' | 'lost') =>
+    pipeline.stages
+      .filter((stage) => stage.terminal === terminal)
+      .reduce((sum, stage) => sum + (counts[stage.id] ?? 0), 0);
+  const won = countOf('won');
+  const lost = countOf('lost');
+  const closed = won + lost;
+  return { won, lost, winRate: closed === 0 ? null : won / closed };
+}
+
+// Written out in full so Tailwind keeps the classes
+const BADGE_CLASSES: Record<StageColor, string> = {
+  gray: 'badge-gray',
+  silver: 'badge-silver',
+  dark: 'badge-dark',
+  outline: 'badge-outline',
+  blue: 'badge-blue',
+  green: 'badge-green',
+  amber: 'badge-amber',
+  red: 'badge-red',
+  purple: 'badge-purple',
+};
+
+/**
+ * Badge class of a status, from the color of its stage; a status that is not
+ * a stage of the pipeline is shown in gray
+ */
+export function stageBadgeClass(pipeline: PipelineDefinition, status: ContactStatus): string {
+  const stage = pipeline.stages.find((candidate) => candidate.id === status);
+  return BADGE_CLASSES[stage?.color ?? 'gray'];
+}
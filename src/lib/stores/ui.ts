@@ -5,27 +5,56 @@
  */
 
 import { writable } from 'svelte/store';
-import type { ActivityType } from '../types';
+import type { ActivityType, ApiError, Contact } from '../types';
+
+/**
+ * Error shown in the toast
+ */
+export interface ErrorNotice {
+  message: string;
+  /** Whether trying again later may succeed */
+  retryable: boolean;
+}
 
 /**
  * Whether the contact creation/edit form is visible
  */
 export const showContactForm = writable<boolean>(false);
 
+/**
+ * The contact being edited in the contact form, or null when creating one
+ */
+export const editingContact = writable<Contact | null>(null);
+
 /**
  * Whether the activity logging form is visible
  */
 export const showActivityForm = writable<boolean>(false);
 
+/**
+ * Whether the workspace settings screen is visible
+ */
+export const showWorkspaceSettings = writable<boolean>(false);
+
+/**
+ * Whether the developer traffic inspector is visible (development builds only)
+ */
+export const showInspector = writable<boolean>(false);
+
+/**
+ * Whether the performance diagnostics screen is visible
+ */
+export const showDiagnostics = writable<boolean>(false);
+
 /**
  * The type of activity being logged (if activity form is open)
  */
 export const activityFormType = writable<ActivityType | null>(null);
 
 /**
- * Global error message to display
+ * Global error to display
  */
-export const error = writable<string | null>(null);
+export const error = writable<ErrorNotice | null>(null);
 
 /**
  * Success message to display
@@ -33,9 +62,76 @@ export const error = writable<string | null>(null);
 export const successMessage = writable<string | null>(null);
 
 /**
- * Open the contact form
+ * Notice of an action waiting out its grace period, shown with an Undo button
+ */
+export const undoNotice = writable<string | null>(null);
+
+/** An action that has not run yet, and how to take back its visible effects */
+interface DeferredAction {
+  commit: () => void | Promise<void>;
+  undo: () => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+let deferredAction: DeferredAction | null = null;
+
+/**
+ * Run an action after a grace period during which the user can undo it.
+ * The caller shows the action's effect right away; `undo` takes it back.
+ * Deferring another action runs the waiting one at once. A commit that
+ * throws or rejects is undone.
  */
-export function openContactForm(): void {
+export function deferWithUndo(
+  message: string,
+  action: Pick<DeferredAction, 'commit' | 'undo'>,
+  graceMs: number = 5000
+): void {
+  flushDeferredAction();
+
+  const timer = setTimeout(flushDeferredAction, graceMs);
+  deferredAction = { ...action, timer };
+  undoNotice.set(message);
+}
+
+/**
+ * Cancel the action waiting out its grace period
+ */
+export function undoDeferredAction(): void {
+  const action = deferredAction;
+  if (!action) return;
+
+  clearTimeout(action.timer);
+  deferredAction = null;
+  undoNotice.set(null);
+  action.undo();
+}
+
+/**
+ * Run the action waiting out its grace period now (e.g. before logging out)
+ */
+export function flushDeferredAction(): void {
+  const action = deferredAction;
+  if (!action) return;
+
+  clearTimeout(action.timer);
+  deferredAction = null;
+  undoNotice.set(null);
+  const fail = (err: unknown) => {
+    console.warn('[UI] Deferred action failed, undoing it:', err);
+    action.undo();
+  };
+  try {
+    action.commit()?.catch(fail);
+  } catch (err) {
+    fail(err);
+  }
+}
+
+/**
+ * Open the contact form, to edit the given contact or to create a new one
+ */
+export function openContactForm(contact?: Contact): void {
+  editingContact.set(contact ?? null);
   showContactForm.set(true);
 }
 
@@ -44,6 +140,35 @@ export function openContactForm(): void {
  */
 export function closeContactForm(): void {
   showContactForm.set(false);
+  editingContact.set(null);
+}
+
+/**
+ * Open the workspace settings screen
+ */
+export function openWorkspaceSettings(): void {
+  showWorkspaceSettings.set(true);
+}
+
+/**
+ * Close the workspace settings screen
+ */
+export function closeWorkspaceSettings(): void {
+  showWorkspaceSettings.set(false);
+}
+
+/**
+ * Show or hide the developer traffic inspector
+ */
+export function toggleInspector(): void {
+  showInspector.update((visible) => !visible);
+}
+
+/**
+ * Show or hide the performance diagnostics screen
+ */
+export function toggleDiagnostics(): void {
+  showDiagnostics.update((visible) => !visible);
 }
 
 /**
@@ -63,13 +188,23 @@ export function closeActivityForm(): void {
 }
 
 /**
- * Set an error message (auto-clears after delay)
+ * Show an error (auto-clears after delay).
+ * Accepts a plain message or an API error; cancelled requests are not shown.
  */
-export function setError(message: string, autoClearMs: number = 5000): void {
-  error.set(message);
+export function setError(source: string | ApiError, autoClearMs: number = 5000): void {
+  if (typeof source !== 'string' && source.kind === 'cancelled') {
+    return;
+  }
+
+  const notice: ErrorNotice =
+    typeof source === 'string'
+      ? { message: source, retryable: false }
+      : { message: source.message, retryable: source.retryable };
+
+  error.set(notice);
   if (autoClearMs > 0) {
     setTimeout(() => {
-      error.update((current) => (current === message ? null : current));
+      error.update((current) => (current === notice ? null : current));
     }, autoClearMs);
   }
 }
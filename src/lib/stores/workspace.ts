@@ -0,0 +1,60 @@
+/**
+ * Workspace Store
+ *
+ * Holds the Scout workspace settings of the current login.
+ * Settings are persisted to localStorage per username.
+ */
+
+import { writable } from 'svelte/store';
+import type { WorkspaceSettings } from '../types';
+import { DEFAULT_WORKSPACE, normalizeWorkspace } from '../api/workspace';
+
+const WORKSPACE_STORAGE_PREFIX = 'crm_workspace:';
+
+function storageKey(username: string): string {
+  return WORKSPACE_STORAGE_PREFIX + username.trim().toLowerCase();
+}
+
+/**
+ * Load the saved settings for a user, falling back to the defaults
+ */
+export function loadWorkspace(username: string): WorkspaceSettings {
+  if (typeof window === 'undefined' || !username) {
+    return DEFAULT_WORKSPACE;
+  }
+
+  try {
+    const stored = localStorage.getItem(storageKey(username));
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<WorkspaceSettings>;
+      // Validate the stored data has required fields
+      if (parsed.baseUrl && parsed.workflowId) {
+        return normalizeWorkspace({ ...DEFAULT_WORKSPACE, ...parsed } as WorkspaceSettings);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load workspace settings from localStorage:', error);
+  }
+
+  return DEFAULT_WORKSPACE;
+}
+
+/**
+ * Save settings for a user
+ */
+export function saveWorkspace(username: string, settings: WorkspaceSettings): void {
+  if (typeof window === 'undefined' || !username) {
+    return;
+  }
+
+  try {
+    localStorage.setItem(storageKey(username), JSON.stringify(normalizeWorkspace(settings)));
+  } catch (error) {
+    console.warn('Unable to persist workspace settings:', error);
+  }
+}
+
+/**
+ * Settings of the current login
+ */
+export const workspace = writable<WorkspaceSettings>(DEFAULT_WORKSPACE);
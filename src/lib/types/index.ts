@@ -6,9 +6,41 @@ export interface Contact {
   phone?: string;
   company?: string;
   status: ContactStatus;
+  lossReason?: string; // why the deal was lost; only kept while the contact is in a lost stage
+  archived?: boolean; // hidden from the contact list until restored
 }
 
-export type ContactStatus = 'lead' | 'prospect' | 'customer';
+// ID of a stage of the workspace's pipeline, e.g. 'lead'
+export type ContactStatus = string;
+
+// Badge color of a pipeline stage
+export type StageColor = 'gray' | 'silver' | 'dark' | 'outline' | 'blue' | 'green' | 'amber' | 'red' | 'purple';
+
+// One stage of a sales pipeline
+export interface PipelineStage {
+  id: ContactStatus; // stored in each contact's status; kept when the label changes
+  label: string;
+  color: StageColor;
+  terminal?: 'won' | 'lost'; // closes the deal; counted in win/loss reporting
+  aliases?: string[]; // other status values that mean this stage, e.g. from an earlier pipeline
+}
+
+// Ordered stages a contact moves through
+export interface PipelineDefinition {
+  stages: PipelineStage[];
+}
+
+// A stage as the workflow counts it: contacts with its ID or one of its aliases
+export interface CountedStage {
+  id: ContactStatus;
+  aliases: string[];
+}
+
+// Whether a contact may move from one status to another
+export type TransitionPolicy = 'allowed' | 'confirm' | 'blocked';
+
+// Allowed moves from each status; a status that is not listed is blocked
+export type StatusTransitions = Record<ContactStatus, Partial<Record<ContactStatus, TransitionPolicy>>>;
 
 // Activity entity from Scout CRM
 export interface Activity {
@@ -25,10 +57,8 @@ export type ActivityType = 'call' | 'email' | 'meeting' | 'note';
 // Dashboard data structure
 export interface DashboardData {
   contactCounts: {
-    lead: number;
-    prospect: number;
-    customer: number;
     total: number;
+    [status: ContactStatus]: number; // one count per pipeline stage
   };
   activityCount: number;
   recentActivities: Activity[];
@@ -41,14 +71,87 @@ export interface AuthState {
   isAuthenticated: boolean;
 }
 
+// Field-level problem found while validating response data
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Category of a failed API call
+export type ApiErrorKind =
+  | 'auth'
+  | 'network'
+  | 'timeout'
+  | 'rate_limited'
+  | 'workflow_failed'
+  | 'parse_error'
+  | 'validation_error'
+  | 'not_found'
+  | 'cancelled';
+
+// Structured error carried by a failed ApiResponse
+export interface ApiError {
+  kind: ApiErrorKind;
+  message: string; // user-facing
+  detail?: string; // technical detail for logs
+  retryable: boolean;
+  status?: number; // HTTP status, when the error came from one
+}
+
+// Fix applied to the agent's output before its JSON could be used
+export type JsonRepair =
+  | 'selected_block' // several code blocks; the largest valid one was used
+  | 'extracted_from_prose' // JSON was surrounded by other text
+  | 'removed_comments'
+  | 'converted_single_quotes'
+  | 'quoted_keys'
+  | 'removed_trailing_commas'
+  | 'salvaged_truncated'; // output was cut off; incomplete items were dropped
+
+// How a response was obtained
+export interface ResponseMeta {
+  repairs?: JsonRepair[];
+  // The reply was lost, but the record the operation wrote was found afterwards
+  reconciled?: boolean;
+  // The reply was cut off; the data holds only what arrived before that
+  partial?: boolean;
+}
+
 // API response wrapper
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
-  error?: string;
+  error?: ApiError;
+  validationErrors?: ValidationIssue[];
+  meta?: ResponseMeta;
   rawResponse?: unknown;
 }
 
+// Scout workflow a login talks to
+export interface WorkspaceSettings {
+  baseUrl: string; // e.g. https://api-prod.scoutos.com
+  workflowId: string;
+  context?: {
+    user_id?: string;
+    session_id?: string;
+  };
+  pipeline?: PipelineDefinition; // absent for the default lead/prospect/customer/lost pipeline
+}
+
+// Position and size of a page of contacts
+export interface PageRequest {
+  offset: number;
+  limit: number;
+}
+
+// One page of the contact list
+export interface ContactPage {
+  contacts: Contact[];
+  offset: number;
+  nextOffset: number | null; // null on the last page
+  total?: number; // number of contacts in the whole list, when known
+}
+
 // Contact with activities for detail view
 export interface ContactWithActivities extends Contact {
   activities: Activity[];
@@ -61,6 +164,26 @@ export interface CreateContactData {
   phone?: string;
   company?: string;
   status?: ContactStatus;
+  idempotencyKey?: string; // Identifies this creation across retries
+}
+
+// Result of permanently deleting a contact
+export interface ContactDeletion {
+  id: string;
+  activitiesDeleted: number; // the contact's activities are deleted with it
+}
+
+// Changed fields of a contact; an empty phone, company or loss reason clears that field
+export type UpdateContactData = Partial<Omit<Contact, 'id'>>;
+
+// Result of a status update: the contact's new status and, when lost, why
+export type ContactStatusUpdate = Pick<Contact, 'id' | 'status' | 'lossReason'>;
+
+// Status move chosen in the contact detail view
+export interface StatusChange {
+  status: ContactStatus;
+  reason?: string;
+  logNote: boolean; // also log a note recording the move and reason
 }
 
 // Form data for logging an activity
@@ -69,4 +192,5 @@ export interface LogActivityData {
   type: ActivityType;
   description: string;
   outcome?: string;
+  idempotencyKey?: string; // Identifies this activity across retries
 }
@@ -1,6 +1,10 @@
 import './app.css'
 import App from './App.svelte'
 import { mount } from 'svelte'
+import { selectBackend, resolveBackendKind } from '$lib/api/client'
+
+// Pick the data source before anything renders (VITE_CRM_BACKEND=local for offline use)
+selectBackend(resolveBackendKind(import.meta.env.VITE_CRM_BACKEND))
 
 const app = mount(App, {
   target: document.getElementById('app')!,
@@ -1,2 +1,17 @@
 /// <reference types="svelte" />
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** CRM data source: 'scout' (default) or 'local' */
+  readonly VITE_CRM_BACKEND?: string
+  /** Default Scout API base URL for new workspaces (defaults to production) */
+  readonly VITE_SCOUT_BASE_URL?: string
+  /** Default Scout workflow ID for new workspaces */
+  readonly VITE_SCOUT_WORKFLOW_ID?: string
+  /** Maximum number of workflow runs in flight at once (default 3) */
+  readonly VITE_SCOUT_MAX_CONCURRENCY?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}